@@ -0,0 +1,290 @@
+// ============================================================================
+// API.SERVER.TS - Shared pieces of the JSON API (/api/...)
+// ============================================================================
+// The API lets scripts and other services read and write contacts without
+// going through the HTML forms. Every request needs an API token:
+//
+//   Authorization: Bearer abk_...
+//
+// (tokens are made on the /api-tokens page, and each one only reaches the
+// personal address book of the user who made it). Every answer is JSON, and
+// every error has the same shape, so clients only need one error handler:
+//
+//   { "error": { "code": "not_found", "message": "No contact with ID \"x\"." } }
+//
+// Validation errors add "details", with one message per field.
+//
+// The ".server" in the file name tells React Router this file must never be
+// sent to the browser.
+
+// Import the validation rules the edit form uses
+import { toFormValues, validateContactValues } from "./contact-schema";
+
+// Import the data types and functions
+import type {
+  ContactDate,
+  ContactLabel,
+  ContactMutation,
+  ContactRecord,
+  EmailAddress,
+  PhoneNumber,
+  PostalAddress,
+  Relationship,
+} from "./data";
+import { findApiToken, getPersonalAddressBook } from "./data";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+// ApiErrorCode: What went wrong, for programs to check
+// (the message is for people, and may change)
+export type ApiErrorCode =
+  | "unauthorized"        // 401: No token, or not a valid one
+  | "not_found"           // 404: No such contact
+  | "method_not_allowed"  // 405: e.g. PUT, which the API doesn't do
+  | "invalid_json"        // 400: The body isn't a JSON object
+  | "conflict"            // 409: The contact changed while this was saving
+  | "validation_failed";  // 422: The JSON is fine, some values aren't
+
+// The text fields a contact has (everything else needs its own check)
+const TEXT_FIELDS = ["first", "last", "company", "title", "avatar", "twitter", "notes"] as const;
+
+// Fields in a contact's JSON that the server sets - sending them back
+// (say, from a GET) is fine, they're just ignored
+const READ_ONLY_FIELDS = ["id", "organizationId", "lastContactedAt", "createdAt", "updatedAt"];
+
+// ============================================================================
+// RESPONSES
+// ============================================================================
+
+// API ERROR: A JSON error response
+// Thrown from loaders and actions, it's sent to the client as it is
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  options: { details?: Partial<Record<string, string>>; headers?: HeadersInit } = {},
+): Response {
+  return Response.json(
+    { error: { code, message, ...(options.details ? { details: options.details } : {}) } },
+    { status, headers: options.headers },
+  );
+}
+
+// METHOD NOT ALLOWED: The 405 for methods a route doesn't handle
+// (the Allow header lists the ones it does)
+export function methodNotAllowed(request: Request, allowed: string[]): Response {
+  return apiError(
+    405,
+    "method_not_allowed",
+    `${request.method} isn't supported here. Use ${allowed.join(", ")}.`,
+    { headers: { Allow: allowed.join(", ") } },
+  );
+}
+
+// TO API CONTACT: A contact as the API shows it
+// Every field is always there (blank ones as "", [] or false), so clients
+// don't have to check whether a field exists
+export function toApiContact(contact: ContactRecord) {
+  return {
+    id: contact.id,
+    first: contact.first ?? "",
+    last: contact.last ?? "",
+    company: contact.company ?? "",
+    title: contact.title ?? "",
+    // Which organization the company links to (set by the server)
+    organizationId: contact.organizationId ?? null,
+    avatar: contact.avatar ?? "",
+    twitter: contact.twitter ?? "",
+    notes: contact.notes ?? "",
+    favorite: contact.favorite ?? false,
+    phones: contact.phones ?? [],
+    emails: contact.emails ?? [],
+    addresses: contact.addresses ?? [],
+    tags: contact.tags ?? [],
+    dates: contact.dates ?? [],
+    related: contact.related ?? [],
+    // When their newest call, meeting... was (logged on the contact's page)
+    lastContactedAt: contact.lastContactedAt ?? null,
+    createdAt: contact.createdAt,
+    updatedAt: contact.updatedAt ?? null,
+  };
+}
+
+// ============================================================================
+// REQUIRE API BOOK ID: Which address book the request's token reaches
+// ============================================================================
+// The API's version of requireAddressBook() (auth.server.ts) - requests
+// without a valid token stop here with a 401. There's no switcher in the
+// API, so it's always the token owner's personal address book (books shared
+// with them stay in the browser)
+export async function requireApiBookId(request: Request): Promise<string> {
+  // "Authorization: Bearer abk_..." → "abk_..."
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get("Authorization") ?? "");
+  const token = match ? await findApiToken(match[1]) : null;
+
+  // Calendar tokens only open the .ics feed (see calendar-feed.tsx)
+  if (!token?.userId || token.scope) {
+    throw apiError(
+      401,
+      "unauthorized",
+      "Send a valid API token in the Authorization header (Bearer abk_...).",
+      { headers: { "WWW-Authenticate": 'Bearer realm="contacts"' } },
+    );
+  }
+  return (await getPersonalAddressBook(token.userId)).id;
+}
+
+// ============================================================================
+// READ CONTACT INPUT: The fields a request body wants to set
+// ============================================================================
+// Only checks each field has the right type (a string, a list of phone
+// numbers...). Whether the values are acceptable - not too long, not too
+// many - is checked by validateContactInput(), once they're combined with
+// what the contact already has
+export async function readContactInput(request: Request): Promise<ContactMutation> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw apiError(400, "invalid_json", "The request body isn't valid JSON.");
+  }
+  if (!isObject(body)) {
+    throw apiError(400, "invalid_json", "The request body must be a JSON object.");
+  }
+
+  const values: ContactMutation = {};
+  const errors: Record<string, string> = {};
+  for (const [field, value] of Object.entries(body)) {
+    if ((TEXT_FIELDS as readonly string[]).includes(field)) {
+      if (typeof value === "string") {
+        values[field as (typeof TEXT_FIELDS)[number]] = value;
+      } else {
+        errors[field] = "Must be a string.";
+      }
+    } else if (field === "favorite") {
+      if (typeof value === "boolean") values.favorite = value;
+      else errors[field] = "Must be true or false.";
+    } else if (field === "tags") {
+      if (Array.isArray(value) && value.every((tag) => typeof tag === "string")) {
+        values.tags = value;
+      } else {
+        errors[field] = "Must be a list of strings.";
+      }
+    } else if (field === "phones") {
+      const phones = readList(value, ["number"], []);
+      if (phones) values.phones = phones as PhoneNumber[];
+      else errors[field] = 'Must be a list of { "label", "number" } objects.';
+    } else if (field === "emails") {
+      const emails = readList(value, ["address"], []);
+      if (emails) values.emails = emails as EmailAddress[];
+      else errors[field] = 'Must be a list of { "label", "address" } objects.';
+    } else if (field === "addresses") {
+      const addresses = readList(value, [], ["street", "city", "region", "postalCode", "country"]);
+      if (addresses) values.addresses = addresses as PostalAddress[];
+      else errors[field] = 'Must be a list of { "label", "street", "city", "region", "postalCode", "country" } objects.';
+    } else if (field === "dates") {
+      // A missing label means a custom date (which then needs a title)
+      const dates = readList(value, ["date"], ["title"]);
+      if (dates) values.dates = dates as unknown as ContactDate[];
+      else errors[field] = 'Must be a list of { "label", "date", "title" } objects.';
+    } else if (field === "related") {
+      // Unknown types become "other"; contacts that don't exist are dropped
+      // when saving (data.ts)
+      if (
+        Array.isArray(value) &&
+        value.every(
+          (item) =>
+            isObject(item) &&
+            typeof item.contactId === "string" &&
+            typeof item.type === "string",
+        )
+      ) {
+        values.related = value as Relationship[];
+      } else {
+        errors[field] = 'Must be a list of { "contactId", "type" } objects.';
+      }
+    } else if (!READ_ONLY_FIELDS.includes(field)) {
+      errors[field] = "Unknown field.";
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw apiError(422, "validation_failed", "Some fields are invalid.", { details: errors });
+  }
+  return values;
+}
+
+// ============================================================================
+// VALIDATE CONTACT INPUT: Same rules as the edit form
+// ============================================================================
+// For an update, pass the contact as it is now: the rules apply to the
+// contact after the change (adding one phone number to a contact that
+// already has ten is too many, even though the request only has one)
+export function validateContactInput(
+  input: ContactMutation,
+  existing: ContactMutation = {},
+): ContactMutation {
+  const merged = { ...existing, ...input };
+  const result = validateContactValues(toFormValues(merged));
+  if (!result.success) {
+    throw apiError(422, "validation_failed", "Some fields are invalid.", {
+      details: result.errors,
+    });
+  }
+  // favorite isn't an edit form field, so add it back after validation
+  return { ...result.data, favorite: merged.favorite ?? false };
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// IS OBJECT: A plain JSON object (not null, not a list)
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// READ LIST: A list of labelled entries, or null if it isn't one
+// required: string fields every entry must have
+// optional: string fields that default to ""
+// "label" is always optional - toFormValues() turns anything it doesn't
+// recognize into "other"
+function readList(
+  value: unknown,
+  required: string[],
+  optional: string[],
+): Record<string, string>[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const entries: Record<string, string>[] = [];
+  for (const item of value) {
+    if (!isObject(item)) return null;
+    if (item.label !== undefined && typeof item.label !== "string") return null;
+
+    const entry: Record<string, string> = {
+      label: (item.label as ContactLabel | undefined) ?? "other",
+    };
+    for (const key of required) {
+      if (typeof item[key] !== "string") return null;
+      entry[key] = item[key];
+    }
+    for (const key of optional) {
+      if (item[key] !== undefined && typeof item[key] !== "string") return null;
+      entry[key] = (item[key] as string | undefined) ?? "";
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
+
+// ============================================================================
+// HOW API.SERVER.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. api-contacts.tsx (/api/contacts) and api-contact.tsx
+//    (/api/contacts/:contactId) use every helper above
+// 2. requireApiBookId() checks tokens with findApiToken() (data.ts); the
+//    tokens themselves are made on api-tokens.tsx
+// 3. validateContactInput() uses the same rules as the edit form
+//    (contact-schema.ts)
@@ -0,0 +1,167 @@
+// ============================================================================
+// AUTH.SERVER.TS - Who's logged in
+// ============================================================================
+// Every contact is in an address book, and every data function in data.ts
+// needs to know which book to use. This file answers that question for a
+// request, using the session cookie (see sessions.server.ts):
+//
+//   requireUserId(request)       The logged-in user's ID - or, for someone
+//                                who isn't logged in, a redirect to /login
+//   requireAddressBook(request)  The address book they're looking at, and
+//                                whether they're allowed to change it
+//   createUserSession(...)       Logs a user in (after /login or /register)
+//   logout(request)              Logs them out again
+//
+// The ".server" in the file name tells React Router this file must never be
+// sent to the browser.
+
+// Import React Router helpers
+import { redirect } from "react-router";
+
+// Import the session helpers and user functions
+import type { AddressBookRole, User } from "./data";
+import { getAddressBook, getPersonalAddressBook, getUser } from "./data";
+import { commitSession, destroySession, getSession } from "./sessions.server";
+
+// ============================================================================
+// REQUIRE USER ID: The logged-in user, or off to the login page
+// ============================================================================
+// Called at the top of every loader and action that touches contacts.
+// Throwing the redirect stops the loader right there - nothing after this
+// line runs for someone who isn't logged in
+export async function requireUserId(request: Request): Promise<string> {
+  const user = await getUserFromSession(request);
+  if (!user) {
+    throw redirect(loginPath(request));
+  }
+  return user.id;
+}
+
+// REQUIRE USER: Like requireUserId(), for when the whole user is needed
+// (e.g. to show their email address)
+export async function requireUser(request: Request): Promise<User> {
+  const user = await getUserFromSession(request);
+  if (!user) {
+    throw redirect(loginPath(request));
+  }
+  return user;
+}
+
+// GET OPTIONAL USER ID: The logged-in user's ID, or null for anyone else
+// (the login page uses it to send logged-in users straight on)
+export async function getOptionalUserId(request: Request): Promise<string | null> {
+  return (await getUserFromSession(request))?.id ?? null;
+}
+
+// ============================================================================
+// REQUIRE ADDRESS BOOK: The address book the user is looking at
+// ============================================================================
+// Called instead of requireUserId() by everything that reads or changes
+// contacts. It's the book picked in the sidebar's switcher (kept in the
+// session), or the user's personal book if they haven't picked one - or
+// can't see the one they picked any more (it was deleted, or unshared).
+//
+// need = "edit" is for actions: a viewer gets a 403 instead, so even a
+// hand-made form post can't change a book that was only shared to look at
+export type AddressBookAccess = {
+  userId: string;
+  bookId: string;
+  role: AddressBookRole;
+  canEdit: boolean; // For hiding the Edit, Delete, etc. buttons from viewers
+};
+
+export async function requireAddressBook(
+  request: Request,
+  need: "view" | "edit" = "view",
+): Promise<AddressBookAccess> {
+  const userId = await requireUserId(request);
+  const session = await getSession(request.headers.get("Cookie"));
+  const picked = session.get("bookId");
+  const book =
+    (picked && (await getAddressBook(userId, picked))) ||
+    (await getPersonalAddressBook(userId));
+
+  const canEdit = book.role !== "viewer";
+  if (need === "edit" && !canEdit) {
+    throw new Response("Forbidden", { status: 403 });
+  }
+  return { userId, bookId: book.id, role: book.role, canEdit };
+}
+
+// ============================================================================
+// LOGGING IN AND OUT
+// ============================================================================
+
+// CREATE USER SESSION: Remembers the user in the session cookie, and sends
+// them on to where they were going
+export async function createUserSession(
+  request: Request,
+  userId: string,
+  redirectTo: string,
+) {
+  const session = await getSession(request.headers.get("Cookie"));
+  session.set("userId", userId);
+  return redirect(safeRedirect(redirectTo), {
+    headers: { "Set-Cookie": await commitSession(session) },
+  });
+}
+
+// LOGOUT: Forgets the session entirely (and anything flashed in it)
+export async function logout(request: Request) {
+  const session = await getSession(request.headers.get("Cookie"));
+  return redirect("/login", {
+    headers: { "Set-Cookie": await destroySession(session) },
+  });
+}
+
+// SAFE REDIRECT: Only ever redirects within this site
+// "redirectTo" comes from the URL, so anyone can set it - without this, a
+// link to /login?redirectTo=https://evil.example would send users off to
+// another site right after they log in. "//evil.example" and
+// "/\evil.example" count as other sites too (browsers read both as one)
+export function safeRedirect(to: FormDataEntryValue | string | null): string {
+  if (
+    typeof to !== "string" ||
+    !to.startsWith("/") ||
+    to.startsWith("//") ||
+    to.startsWith("/\\")
+  ) {
+    return "/";
+  }
+  return to;
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// GET USER FROM SESSION: The user the session cookie names, if they still
+// exist (with the memory backend, everyone's account goes away on restart)
+async function getUserFromSession(request: Request): Promise<User | null> {
+  const session = await getSession(request.headers.get("Cookie"));
+  const userId = session.get("userId");
+  return userId ? getUser(userId) : null;
+}
+
+// LOGIN PATH: /login, with where to come back to afterwards
+// Only page loads come back - after a form post, going "back" would show
+// an action-only URL, so those start over at the home page instead
+function loginPath(request: Request): string {
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.pathname === "/") return "/login";
+  const redirectTo = url.pathname + url.search;
+  return `/login?${new URLSearchParams({ redirectTo })}`;
+}
+
+// ============================================================================
+// HOW AUTH.SERVER.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. sidebar.tsx's loader calls requireUser(), so no page with the sidebar
+//    shows for someone who isn't logged in
+// 2. Every other loader and action that touches contacts calls
+//    requireAddressBook() and passes the book's ID on to data.ts (the API
+//    tokens and address books pages only need requireUserId())
+// 3. login.tsx and register.tsx call createUserSession(); logout.tsx calls
+//    logout()
+// 4. The user ID lives in the session cookie (sessions.server.ts), along
+//    with the address book picked on address-books.tsx
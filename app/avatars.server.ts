@@ -0,0 +1,219 @@
+// ============================================================================
+// AVATARS.SERVER.TS - Uploaded photos: resizing and storing them
+// ============================================================================
+// A photo uploaded on the edit form is checked, turned into square WebP
+// thumbnails at every size in AVATAR_SIZES (avatars.ts), and kept in a
+// "blob store" - somewhere that holds files by name. The original upload
+// isn't kept: the thumbnails are all the app ever shows.
+//
+// Like storage.server.ts, where the files go is swappable without touching
+// anything else - every store has the same three methods:
+//   - "disk"   → Files in a folder (the default)
+//   - "memory" → A Map in memory. Wiped on every restart (handy for tests)
+//
+// Configuration (environment variables):
+//   AVATAR_STORAGE=memory|disk    Which store to use (default: memory when
+//                                 CONTACTS_STORAGE=memory, disk otherwise)
+//   AVATAR_DIR=./data/avatars     Where the disk store keeps its files
+//
+// The ".server" in the file name tells React Router this file must never be
+// sent to the browser.
+
+// Import Node helpers for IDs and reading/writing files
+import { randomBytes } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// Import the image library (resizing, and reading the image type)
+import sharp from "sharp";
+
+// Import the sizes to make and the URL format
+import type { AvatarSize } from "./avatars";
+import { AVATAR_SIZES, uploadedAvatarId } from "./avatars";
+
+// The biggest upload accepted (5 MB - plenty for a phone photo)
+export const AVATAR_MAX_BYTES = 5 * 1024 * 1024;
+
+// Image types accepted, as sharp reports them (checked from the file's
+// contents, not its name - a renamed file can't sneak through)
+const ACCEPTED_FORMATS = new Set(["jpeg", "png", "webp", "gif"]);
+
+// The most pixels an upload may have. A small file can still unpack into a
+// gigantic image ("decompression bomb"), so sharp refuses anything bigger
+const MAX_INPUT_PIXELS = 50_000_000;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+// BlobStore: Files by name - all an avatar store has to do
+// Every method is async so a cloud store (S3 and friends) can be plugged in
+export interface BlobStore {
+  get(key: string): Promise<Buffer | null>;    // A file, or null if missing
+  put(key: string, data: Buffer): Promise<void>; // Write (or replace) a file
+  remove(prefix: string): Promise<void>;       // Delete every file under a prefix
+}
+
+// SaveAvatarResult: The new avatar's URL, or why the upload was refused
+export type SaveAvatarResult =
+  | { success: true; url: string }
+  | { success: false; error: string };
+
+// ============================================================================
+// SAVE AVATAR: Checks an upload, and stores its thumbnails
+// ============================================================================
+// Returns the URL to put in the contact's "avatar" field
+export async function saveAvatar(file: File): Promise<SaveAvatarResult> {
+  if (file.size > AVATAR_MAX_BYTES) {
+    return {
+      success: false,
+      error: `Photos must be at most ${AVATAR_MAX_BYTES / 1024 / 1024} MB.`,
+    };
+  }
+
+  const input = Buffer.from(await file.arrayBuffer());
+  const image = sharp(input, { limitInputPixels: MAX_INPUT_PIXELS });
+
+  // Is it really an image we take? (metadata() throws for anything sharp
+  // can't read at all)
+  const format = await image
+    .metadata()
+    .then((metadata) => metadata.format)
+    .catch(() => undefined);
+  if (!format || !ACCEPTED_FORMATS.has(format)) {
+    return { success: false, error: "Photos must be JPEG, PNG, WebP or GIF images." };
+  }
+
+  // One thumbnail per size. A random ID (rather than the contact's) means
+  // an avatar's URL never shows a different picture - so browsers can
+  // cache it forever - and older versions in the contact's history still work
+  const id = randomBytes(8).toString("hex");
+  try {
+    for (const size of AVATAR_SIZES) {
+      const thumbnail = await image
+        .clone()
+        .rotate() // Turn it the right way up (phones record this separately)
+        .resize(size, size, { fit: "cover" }) // Square, cropped to the middle
+        .webp({ quality: 80 })
+        .toBuffer();
+      await store.put(blobKey(id, size), thumbnail);
+    }
+  } catch {
+    // Too many pixels, or damaged part-way through
+    await store.remove(`${id}/`);
+    return { success: false, error: "That photo couldn't be read. Try another one." };
+  }
+
+  return { success: true, url: `/avatars/${id}` };
+}
+
+// ============================================================================
+// READ AVATAR: One thumbnail of an uploaded avatar (null if there isn't one)
+// ============================================================================
+export async function readAvatar(id: string, size: AvatarSize): Promise<Buffer | null> {
+  return store.get(blobKey(id, size));
+}
+
+// ============================================================================
+// DELETE AVATAR: Removes every thumbnail of an uploaded avatar
+// ============================================================================
+// Takes the avatar's URL; web URLs (and "") are ignored
+export async function deleteAvatar(avatar: string | undefined) {
+  const id = uploadedAvatarId(avatar);
+  if (id) await store.remove(`${id}/`);
+}
+
+// ============================================================================
+// MEMORY STORE: Every file lives in a Map
+// ============================================================================
+export function createMemoryBlobStore(): BlobStore {
+  const files = new Map<string, Buffer>();
+
+  return {
+    async get(key) {
+      return files.get(key) ?? null;
+    },
+    async put(key, data) {
+      files.set(key, data);
+    },
+    async remove(prefix) {
+      for (const key of files.keys()) {
+        if (key.startsWith(prefix)) files.delete(key);
+      }
+    },
+  };
+}
+
+// ============================================================================
+// DISK STORE: Every file lives in a folder
+// ============================================================================
+// Keys like "3f9a0c1d2e4b5a6c/192.webp" become files in subfolders of dir
+export function createDiskBlobStore(dir: string): BlobStore {
+  // Keys only ever come from blobKey(), but check anyway - a key with ".."
+  // in it must never reach outside the folder
+  function filePath(key: string) {
+    const resolved = path.resolve(dir, key);
+    if (!resolved.startsWith(dir + path.sep)) {
+      throw new Error(`Blob key "${key}" is outside the store`);
+    }
+    return resolved;
+  }
+
+  return {
+    async get(key) {
+      return readFile(filePath(key)).catch((error: NodeJS.ErrnoException) => {
+        // A missing file just means "no such avatar"
+        if (error.code === "ENOENT") return null;
+        throw error;
+      });
+    },
+    async put(key, data) {
+      const target = filePath(key);
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, data);
+    },
+    async remove(prefix) {
+      // Prefixes are always one avatar's folder ("3f9a0c1d2e4b5a6c/")
+      await rm(filePath(prefix), { recursive: true, force: true });
+    },
+  };
+}
+
+// ============================================================================
+// CONFIGURATION: Pick a store based on environment variables
+// ============================================================================
+export function createBlobStoreFromEnv(env: NodeJS.ProcessEnv = process.env): BlobStore {
+  const kind = env.AVATAR_STORAGE || (env.CONTACTS_STORAGE === "memory" ? "memory" : "disk");
+
+  switch (kind) {
+    case "memory":
+      return createMemoryBlobStore();
+    case "disk":
+      return createDiskBlobStore(path.resolve(env.AVATAR_DIR || "data/avatars"));
+    default:
+      // Fail fast on typos like AVATAR_STORAGE=dsik
+      throw new Error(`Unknown AVATAR_STORAGE "${kind}" (expected "memory" or "disk")`);
+  }
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// The store every avatar goes in (picked once, when the server starts)
+const store = createBlobStoreFromEnv();
+
+// BLOB KEY: Where one thumbnail is kept, e.g. "3f9a0c1d2e4b5a6c/192.webp"
+function blobKey(id: string, size: AvatarSize): string {
+  return `${id}/${size}.webp`;
+}
+
+// ============================================================================
+// HOW AVATARS.SERVER.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. edit-contact.tsx's action calls saveAvatar() with the uploaded file,
+//    and saves the URL it returns in the contact's "avatar" field
+// 2. routes/avatar.tsx calls readAvatar() to serve the thumbnails
+// 3. data.ts calls deleteAvatar() when a contact is purged for good (and
+//    nothing else still uses the photo)
+// 4. avatars.ts (safe for the browser) holds the sizes and the URL format
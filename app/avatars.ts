@@ -0,0 +1,119 @@
+// ============================================================================
+// AVATARS.TS - Where a contact's picture comes from
+// ============================================================================
+// A contact's "avatar" field holds one of two things:
+//
+//   https://example.com/me.jpg   A picture somewhere else on the web
+//   /avatars/3f9a0c1d2e4b5a6c    A photo uploaded on the edit form, stored by
+//                                avatars.server.ts and served (at a few
+//                                sizes) by routes/avatar.tsx
+//
+// ...or nothing at all, in which case the contact gets a placeholder: their
+// initials on a colour picked from their name (the same name always gets the
+// same colour).
+//
+// This file has no server-only code, so pages can use it to build their
+// <img> tags. The upload itself is handled by avatars.server.ts.
+
+// ============================================================================
+// SIZES: The square thumbnails made from every upload, in pixels
+// ============================================================================
+// 64 for small previews, 192 for the contact page (12rem), and 384 for the
+// contact page on high-density ("retina") screens
+export const AVATAR_SIZES = [64, 192, 384] as const;
+export type AvatarSize = (typeof AVATAR_SIZES)[number];
+
+// An uploaded avatar's URL: "/avatars/" plus its ID (lowercase hex)
+const UPLOADED_AVATAR_PATTERN = /^\/avatars\/([0-9a-f]{16})$/;
+
+// Placeholder background colours - dark enough for white initials to read
+const PLACEHOLDER_COLORS = [
+  "#e8590c",
+  "#d6336c",
+  "#ae3ec9",
+  "#7048e8",
+  "#4263eb",
+  "#1c7ed6",
+  "#0c8599",
+  "#099268",
+  "#2f9e44",
+  "#5c940d",
+];
+
+// ============================================================================
+// UPLOADED AVATAR ID: The ID in an uploaded avatar's URL
+// ============================================================================
+// "/avatars/3f9a0c1d2e4b5a6c" → "3f9a0c1d2e4b5a6c"
+// Anything else (web URLs, "") → null
+export function uploadedAvatarId(avatar: string | undefined): string | null {
+  return UPLOADED_AVATAR_PATTERN.exec(avatar ?? "")?.[1] ?? null;
+}
+
+// ============================================================================
+// AVATAR IMAGE: Everything an <img> needs to show a contact's picture
+// ============================================================================
+// size is how big the image is drawn, in CSS pixels. Uploaded avatars come
+// at that size, with a twice-as-big one for high-density screens (srcSet);
+// web URLs are used as they are; and no avatar at all gets the placeholder
+export function avatarImage(
+  contact: { first?: string; last?: string; avatar?: string },
+  size: AvatarSize,
+): { src: string; srcSet?: string } {
+  const avatar = contact.avatar?.trim();
+  if (!avatar) {
+    return { src: placeholderAvatar(contact.first ?? "", contact.last ?? "") };
+  }
+  if (!uploadedAvatarId(avatar)) {
+    return { src: avatar };
+  }
+
+  const src = `${avatar}?size=${size}`;
+  const double = AVATAR_SIZES.find((candidate) => candidate === size * 2);
+  return double ? { src, srcSet: `${src} 1x, ${avatar}?size=${double} 2x` } : { src };
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// PLACEHOLDER AVATAR: Initials on a coloured square, as an SVG data URL
+// (so it needs no request, and works before the page's JavaScript loads)
+function placeholderAvatar(first: string, last: string): string {
+  const initials =
+    [first, last]
+      .map((name) => Array.from(name.trim())[0] ?? "")
+      .join("")
+      .toUpperCase() || "?";
+  const color = PLACEHOLDER_COLORS[hashName(`${first} ${last}`) % PLACEHOLDER_COLORS.length];
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">` +
+    `<rect width="100" height="100" fill="${color}"/>` +
+    `<text x="50" y="50" dy=".35em" fill="#fff" font-family="system-ui, sans-serif" ` +
+    `font-size="40" text-anchor="middle">${escapeXml(initials)}</text></svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
+
+// HASH NAME: Turns a name into a number, the same every time
+// (a simple string hash - it only has to spread names across the colours)
+function hashName(name: string): number {
+  let hash = 0;
+  for (const char of name.toLowerCase()) {
+    hash = (hash * 31 + (char.codePointAt(0) ?? 0)) >>> 0;
+  }
+  return hash;
+}
+
+// ESCAPE XML: Initials like "<" or "&" can't break the SVG
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// ============================================================================
+// HOW AVATARS.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. contact.tsx and edit-contact.tsx call avatarImage() for their <img> tags
+// 2. contact-schema.ts accepts uploaded avatar URLs (uploadedAvatarId())
+//    alongside http(s) ones
+// 3. avatars.server.ts makes the AVATAR_SIZES thumbnails for every upload,
+//    and routes/avatar.tsx serves them
@@ -0,0 +1,69 @@
+// ============================================================================
+// CONTACT-LIST.SERVER.TS - One page of the sidebar's contact list
+// ============================================================================
+// An address book can hold thousands of contacts - far too many to send to
+// the browser in one go. The sidebar asks for its list a page at a time:
+// the sidebar loader sends the first page with the rest of the layout, and
+// the /contact-list route sends more as the user scrolls.
+//
+// Both go through loadContactListPage(), so every page looks the same.
+// Each contact is cut down to what a row in the list shows.
+//
+// The ".server" in the file name tells React Router this file must never be
+// sent to the browser (it reads straight from the database).
+
+// Import the data and search helpers
+import type { ContactPageOptions } from "./data";
+import { getContactsPage } from "./data";
+import { matchSnippet, parseQuery } from "./search";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+// ContactListItem: Everything one row of the sidebar list needs
+export type ContactListItem = {
+  id: string;
+  first?: string;
+  last?: string;
+  favorite?: boolean;
+  snippet: string | null; // Where a search matched, when it wasn't the name
+};
+
+// ============================================================================
+// LOAD CONTACT LIST PAGE: A page of contacts, ready for the sidebar
+// ============================================================================
+export async function loadContactListPage(
+  bookId: string,
+  q: string | null,
+  options: ContactPageOptions,
+) {
+  const page = await getContactsPage(bookId, q, options);
+  const terms = parseQuery(q ?? "");
+
+  const items: ContactListItem[] = page.contacts.map((contact) => ({
+    id: contact.id,
+    first: contact.first,
+    last: contact.last,
+    favorite: contact.favorite,
+    snippet: matchSnippet(contact, terms),
+  }));
+
+  return {
+    items,
+    nextCursor: page.nextCursor,
+    prevCursor: page.prevCursor,
+    sections: page.sections,
+    startIndex: page.startIndex,
+    total: page.total,
+  };
+}
+
+// ============================================================================
+// HOW CONTACT-LIST.SERVER.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. sidebar.tsx's loader calls loadContactListPage() for the first page
+//    (the one with the contact being viewed in it)
+// 2. contact-list.tsx's loader calls it for every page after that
+// 3. getContactsPage() (data.ts) does the searching and cursor work;
+//    matchSnippet() (search.ts) finds what to show under each name
@@ -0,0 +1,613 @@
+// ============================================================================
+// CONTACT-SCHEMA.TS - Rules for what a valid contact looks like
+// ============================================================================
+// The edit form sends whatever the user typed. Before anything is written to
+// the database, the edit-contact action runs it through validateContact()
+// below. Bad input never reaches updateContact() - instead the action sends
+// back a list of errors (one per field) for the form to display.
+//
+// This file has no server-only code, so the form can also import the limits
+// (like NOTES_MAX_LENGTH) and the label list to give the browser a hint.
+
+// Import the uploaded avatar URL format (see avatars.ts)
+import { uploadedAvatarId } from "./avatars";
+
+// Import the date rules (see dates.ts)
+import { DATE_LABELS, isValidDate } from "./dates";
+
+// Import the kinds of relationship (see relationships.ts)
+import { isRelationshipType } from "./relationships";
+
+// Import the kinds of interaction (see interactions.ts)
+import { isInteractionKind } from "./interactions";
+
+// Import the follow-up limits (see follow-ups.ts)
+import { FOLLOW_UP_MAX_WEEKS } from "./follow-ups";
+
+// Import the types describing the fields a contact can have
+import type {
+  ContactDate,
+  ContactLabel,
+  ContactMutation,
+  DateLabel,
+  EmailAddress,
+  FollowUpMutation,
+  InteractionMutation,
+  OrganizationMutation,
+  PhoneNumber,
+  PostalAddress,
+  Relationship,
+} from "./data";
+
+// ============================================================================
+// LIMITS: The maximum sizes we accept for each field
+// ============================================================================
+export const NAME_MAX_LENGTH = 100;    // First and last names
+export const COMPANY_MAX_LENGTH = 100; // Companies (and organization names)
+export const JOB_TITLE_MAX_LENGTH = 100; // Job titles
+export const AVATAR_MAX_LENGTH = 2048; // Avatar URLs
+export const NOTES_MAX_LENGTH = 5000;  // Notes (about a page of text)
+export const LIST_MAX_ROWS = 10;       // Phones / emails / addresses per contact
+export const ADDRESS_PART_MAX_LENGTH = 200; // Each part of a postal address
+export const TAG_MAX_LENGTH = 40;      // One tag, e.g. "Conference speakers"
+export const TAGS_MAX = 20;            // Tags per contact
+export const DATE_TITLE_MAX_LENGTH = 100; // What a custom date is, e.g. "Met at React Conf"
+export const RELATED_MAX = 50;         // Related people per contact
+export const INTERACTION_BODY_MAX_LENGTH = 1000; // What an interaction was about
+export const FOLLOW_UP_NOTE_MAX_LENGTH = 200; // What a follow-up is about
+
+// Twitter handles: "@" followed by 1-15 letters, numbers or underscores
+// (those are Twitter's own rules)
+const TWITTER_PATTERN = /^@[A-Za-z0-9_]{1,15}$/;
+
+// Phone numbers: digits plus the usual punctuation, e.g. "+1 (555) 010-0100"
+const PHONE_PATTERN = /^\+?[0-9 ().-]{3,30}$/;
+
+// Web domains: "remix.run", "shop.example.co.uk" - dot-separated parts of
+// letters, numbers and dashes
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+// Email addresses: "something@something.something" (deliberately loose -
+// the only real test of an email address is sending to it)
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ============================================================================
+// LABELS: The choices for phone/email/address labels
+// ============================================================================
+export const CONTACT_LABELS: ContactLabel[] = ["home", "work", "mobile", "other"];
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+// The single-value fields the edit form is allowed to change
+export type ContactFormField =
+  | "first"
+  | "last"
+  | "company"
+  | "title"
+  | "avatar"
+  | "twitter"
+  | "notes";
+
+// The repeatable fields (each row is its own entry)
+export type ContactListField = "phones" | "emails" | "addresses" | "dates";
+
+// FieldErrors: One message per field that failed
+// Single fields use their name ("twitter"), list rows use "phones.0", "emails.2"...
+export type FieldErrors = Partial<
+  Record<ContactFormField | "tags" | "related" | `${ContactListField}.${number}`, string>
+>;
+
+// ContactFormValues: What the user typed, exactly as they typed it
+// Sent back with errors so the form can keep the user's input
+export type ContactFormValues = Record<ContactFormField, string> & {
+  phones: PhoneNumber[];
+  emails: EmailAddress[];
+  addresses: PostalAddress[];
+  tags: string[];
+  dates: ContactDate[];
+  related: Relationship[];
+};
+
+// ValidationResult: Either clean data ready to save, or errors to show
+export type ValidationResult =
+  | { success: true; data: ContactMutation }
+  | { success: false; errors: FieldErrors; values: ContactFormValues };
+
+// The fields of the organization form, and its errors
+export type OrganizationFormField = "name" | "domain" | "address" | "notes" | "logo";
+export type OrganizationValidationResult =
+  | { success: true; data: OrganizationMutation & { name: string } }
+  | {
+      success: false;
+      errors: Partial<Record<OrganizationFormField, string>>;
+      values: Record<OrganizationFormField, string>;
+    };
+
+// The fields of the "Log" form on a contact's page, and its errors
+export type InteractionFormField = "kind" | "body" | "occurredAt";
+export type InteractionValidationResult =
+  | { success: true; data: InteractionMutation }
+  | { success: false; errors: Partial<Record<InteractionFormField, string>> };
+
+// The fields of the "Follow up" form on a contact's page, and its errors
+export type FollowUpFormField = "dueOn" | "everyWeeks" | "note";
+export type FollowUpValidationResult =
+  | { success: true; data: FollowUpMutation }
+  | { success: false; errors: Partial<Record<FollowUpFormField, string>> };
+
+// ============================================================================
+// VALIDATE CONTACT: Checks submitted form data against the rules above
+// ============================================================================
+export function validateContact(formData: FormData): ValidationResult {
+  // Read each field as a trimmed string ("" if it's missing)
+  // Fields we don't know about are simply never read, so they can't sneak
+  // into the database
+  return validateContactValues({
+    first: readText(formData, "first"),
+    last: readText(formData, "last"),
+    company: readText(formData, "company"),
+    title: readText(formData, "title"),
+    avatar: readText(formData, "avatar"),
+    twitter: readText(formData, "twitter"),
+    notes: readText(formData, "notes"),
+    phones: readPhones(formData),
+    emails: readEmails(formData),
+    addresses: readAddresses(formData),
+    tags: readTags(formData),
+    dates: readDates(formData),
+    related: readRelated(formData),
+  });
+}
+
+// ============================================================================
+// VALIDATE CONTACT VALUES: Same rules, for data that didn't come from a form
+// ============================================================================
+// Imports (vCard, CSV...) build the values themselves and check them here,
+// so an imported contact has to pass exactly the same rules as a typed one
+export function validateContactValues(
+  values: ContactFormValues,
+): ValidationResult {
+  const errors: FieldErrors = {};
+
+  // NAMES: Optional, but not absurdly long
+  if (values.first.length > NAME_MAX_LENGTH) {
+    errors.first = `First name must be at most ${NAME_MAX_LENGTH} characters.`;
+  }
+  if (values.last.length > NAME_MAX_LENGTH) {
+    errors.last = `Last name must be at most ${NAME_MAX_LENGTH} characters.`;
+  }
+
+  // COMPANY AND JOB TITLE: Optional, but not absurdly long
+  if (values.company.length > COMPANY_MAX_LENGTH) {
+    errors.company = `Company must be at most ${COMPANY_MAX_LENGTH} characters.`;
+  }
+  if (values.title.length > JOB_TITLE_MAX_LENGTH) {
+    errors.title = `Job title must be at most ${JOB_TITLE_MAX_LENGTH} characters.`;
+  }
+
+  // AVATAR: Optional, but must be a real http(s) URL - or an uploaded photo
+  if (values.avatar) {
+    if (values.avatar.length > AVATAR_MAX_LENGTH) {
+      errors.avatar = `Avatar URL must be at most ${AVATAR_MAX_LENGTH} characters.`;
+    } else if (!isHttpUrl(values.avatar) && !uploadedAvatarId(values.avatar)) {
+      errors.avatar = "Avatar URL must start with http:// or https://.";
+    }
+  }
+
+  // TWITTER: Optional, but must look like "@handle"
+  if (values.twitter && !TWITTER_PATTERN.test(values.twitter)) {
+    errors.twitter = values.twitter.startsWith("@")
+      ? "Twitter handles are 1-15 letters, numbers or underscores."
+      : 'Twitter handles start with "@", like @jack.';
+  }
+
+  // NOTES: Optional, but capped
+  if (values.notes.length > NOTES_MAX_LENGTH) {
+    errors.notes = `Notes must be at most ${NOTES_MAX_LENGTH} characters (currently ${values.notes.length}).`;
+  }
+
+  // PHONES: Each row needs something that looks like a phone number
+  values.phones.forEach((phone, index) => {
+    if (!PHONE_PATTERN.test(phone.number) || countDigits(phone.number) < 3) {
+      errors[`phones.${index}`] = "Phone numbers may only contain digits, spaces and + ( ) . -";
+    }
+  });
+
+  // EMAILS: Each row needs something that looks like an email address
+  values.emails.forEach((email, index) => {
+    if (!EMAIL_PATTERN.test(email.address) || email.address.length > 254) {
+      errors[`emails.${index}`] = "Enter an email address like name@example.com.";
+    }
+  });
+
+  // ADDRESSES: Every part is optional, but none can be huge
+  values.addresses.forEach((address, index) => {
+    const tooLong = [
+      address.street,
+      address.city,
+      address.region,
+      address.postalCode,
+      address.country,
+    ].some((part) => part.length > ADDRESS_PART_MAX_LENGTH);
+    if (tooLong) {
+      errors[`addresses.${index}`] = `Each part of an address must be at most ${ADDRESS_PART_MAX_LENGTH} characters.`;
+    }
+  });
+
+  // DATES: Each row needs a real date, and custom ones need a title
+  values.dates.forEach((entry, index) => {
+    if (!isValidDate(entry.date)) {
+      errors[`dates.${index}`] = "Enter a date like 1985-04-12.";
+    } else if (entry.label === "custom" && !entry.title) {
+      errors[`dates.${index}`] = 'Say what the date is, like "Met at React Conf".';
+    } else if ((entry.title ?? "").length > DATE_TITLE_MAX_LENGTH) {
+      errors[`dates.${index}`] = `Date titles must be at most ${DATE_TITLE_MAX_LENGTH} characters.`;
+    }
+  });
+
+  // TAGS: Short, and not too many of them
+  const longTag = values.tags.find((tag) => tag.length > TAG_MAX_LENGTH);
+  if (longTag) {
+    errors.tags = `Tags must be at most ${TAG_MAX_LENGTH} characters ("${longTag.slice(0, 20)}…" is too long).`;
+  } else if (values.tags.length > TAGS_MAX) {
+    errors.tags = `At most ${TAGS_MAX} tags are allowed.`;
+  }
+
+  // RELATED PEOPLE: Whether they exist is checked when saving (data.ts)
+  if (values.related.length > RELATED_MAX) {
+    errors.related = `At most ${RELATED_MAX} related people are allowed.`;
+  }
+
+  // Nobody needs more than 10 phone numbers - anything more is probably junk
+  for (const list of ["phones", "emails", "addresses", "dates"] as const) {
+    if (values[list].length > LIST_MAX_ROWS) {
+      errors[`${list}.${LIST_MAX_ROWS}`] = `At most ${LIST_MAX_ROWS} entries are allowed.`;
+    }
+  }
+
+  // Any errors? Send them back along with what the user typed
+  if (Object.keys(errors).length > 0) {
+    return { success: false, errors, values };
+  }
+
+  // Everything checks out - these values are safe to save
+  return { success: true, data: values };
+}
+
+// ============================================================================
+// VALIDATE ORGANIZATION: The same idea, for the organization form
+// ============================================================================
+// Whether the name is already taken is checked when saving (data.ts)
+export function validateOrganization(formData: FormData): OrganizationValidationResult {
+  const values = {
+    name: readText(formData, "name").replace(/\s+/g, " "),
+    // "https://www.Remix.run/docs" → "www.remix.run" - only the domain is kept
+    domain: readText(formData, "domain")
+      .toLowerCase()
+      .replace(/^[a-z]+:\/\//, "")
+      .replace(/[/?#].*$/, ""),
+    address: readText(formData, "address"),
+    notes: readText(formData, "notes"),
+    logo: readText(formData, "logo"),
+  };
+  const errors: Partial<Record<OrganizationFormField, string>> = {};
+
+  // NAME: Required - it's what contacts' companies say
+  if (!values.name) {
+    errors.name = "Give the organization a name.";
+  } else if (values.name.length > COMPANY_MAX_LENGTH) {
+    errors.name = `Names must be at most ${COMPANY_MAX_LENGTH} characters.`;
+  }
+
+  // DOMAIN: Optional, but must look like one
+  if (values.domain && !DOMAIN_PATTERN.test(values.domain)) {
+    errors.domain = "Enter a domain like remix.run.";
+  }
+
+  // ADDRESS AND NOTES: Optional, but capped
+  if (values.address.length > ADDRESS_PART_MAX_LENGTH * 5) {
+    errors.address = `Addresses must be at most ${ADDRESS_PART_MAX_LENGTH * 5} characters.`;
+  }
+  if (values.notes.length > NOTES_MAX_LENGTH) {
+    errors.notes = `Notes must be at most ${NOTES_MAX_LENGTH} characters (currently ${values.notes.length}).`;
+  }
+
+  // LOGO: Optional, but must be a real http(s) URL
+  if (values.logo) {
+    if (values.logo.length > AVATAR_MAX_LENGTH) {
+      errors.logo = `Logo URL must be at most ${AVATAR_MAX_LENGTH} characters.`;
+    } else if (!isHttpUrl(values.logo)) {
+      errors.logo = "Logo URL must start with http:// or https://.";
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, errors, values };
+  }
+  return { success: true, data: values };
+}
+
+// ============================================================================
+// VALIDATE INTERACTION: The "Log" form on a contact's page
+// ============================================================================
+// "occurredAt" comes from a datetime-local input ("2025-05-01T14:30", in the
+// user's time zone), with the browser's offset from UTC in minutes alongside
+// (what getTimezoneOffset() says - 0 when the page's JavaScript hasn't
+// loaded). Blank means "just now"
+export function validateInteraction(
+  formData: FormData,
+  now = new Date(),
+): InteractionValidationResult {
+  const kind = readText(formData, "kind");
+  const body = readText(formData, "body");
+  const when = readText(formData, "occurredAt");
+  const offset = Number(readText(formData, "offset")) || 0;
+  const errors: Partial<Record<InteractionFormField, string>> = {};
+
+  if (!isInteractionKind(kind)) {
+    errors.kind = "Pick a call, meeting, email or message.";
+  }
+
+  if (!body) {
+    errors.body = "Say what it was about.";
+  } else if (body.length > INTERACTION_BODY_MAX_LENGTH) {
+    errors.body = `Keep it to ${INTERACTION_BODY_MAX_LENGTH} characters (currently ${body.length}).`;
+  }
+
+  // The local time, read as if it were UTC, then moved by the offset
+  let occurredAt = now;
+  if (when) {
+    const time = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(when)
+      ? Date.parse(`${when}:00Z`) + offset * 60 * 1000
+      : NaN;
+    if (Number.isNaN(time)) {
+      errors.occurredAt = "Enter a date and time like 2025-05-01 14:30.";
+    } else if (time > now.getTime()) {
+      errors.occurredAt = "That hasn't happened yet.";
+    } else {
+      occurredAt = new Date(time);
+    }
+  }
+
+  if (Object.keys(errors).length > 0 || !isInteractionKind(kind)) {
+    return { success: false, errors };
+  }
+  return { success: true, data: { kind, body, occurredAt: occurredAt.toISOString() } };
+}
+
+// ============================================================================
+// VALIDATE FOLLOW-UP: The "Follow up" form on a contact's page
+// ============================================================================
+// The day is required; "everyWeeks" is blank for a one-off follow-up
+export function validateFollowUp(formData: FormData): FollowUpValidationResult {
+  const dueOn = readText(formData, "dueOn");
+  const repeat = readText(formData, "everyWeeks");
+  const note = readText(formData, "note");
+  const everyWeeks = repeat ? Number(repeat) : undefined;
+  const errors: Partial<Record<FollowUpFormField, string>> = {};
+
+  if (!isValidDate(dueOn)) {
+    errors.dueOn = "Enter a date like 2025-05-01.";
+  }
+
+  if (
+    everyWeeks !== undefined &&
+    (!Number.isInteger(everyWeeks) || everyWeeks < 1 || everyWeeks > FOLLOW_UP_MAX_WEEKS)
+  ) {
+    errors.everyWeeks = `Repeat every 1 to ${FOLLOW_UP_MAX_WEEKS} weeks (or leave it blank).`;
+  }
+
+  if (note.length > FOLLOW_UP_NOTE_MAX_LENGTH) {
+    errors.note = `Notes must be at most ${FOLLOW_UP_NOTE_MAX_LENGTH} characters.`;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, errors };
+  }
+  return { success: true, data: { dueOn, everyWeeks, note } };
+}
+
+// ============================================================================
+// TO FORM VALUES: Fills in the blanks of a partial contact
+// ============================================================================
+// Imported contacts usually only have some fields. This gives every missing
+// text field "" and every missing list [] so it can be validated like a form
+// (and makes sure each list entry has a label we recognize)
+export function toFormValues(contact: ContactMutation): ContactFormValues {
+  return {
+    first: (contact.first ?? "").trim(),
+    last: (contact.last ?? "").trim(),
+    // "Acme  Inc" and "Acme Inc" are the same organization
+    company: (contact.company ?? "").trim().replace(/\s+/g, " "),
+    title: (contact.title ?? "").trim(),
+    avatar: (contact.avatar ?? "").trim(),
+    twitter: (contact.twitter ?? "").trim(),
+    notes: (contact.notes ?? "").trim(),
+    phones: (contact.phones ?? []).map((phone) => ({
+      label: toLabel(phone.label),
+      number: phone.number.trim(),
+    })),
+    emails: (contact.emails ?? []).map((email) => ({
+      label: toLabel(email.label),
+      address: email.address.trim(),
+    })),
+    addresses: (contact.addresses ?? []).map((address) => ({
+      ...address,
+      label: toLabel(address.label),
+    })),
+    tags: cleanTags(contact.tags ?? []),
+    dates: (contact.dates ?? []).map((entry) => {
+      const label = toDateLabel(entry.label);
+      const date = entry.date.trim();
+      // Only custom dates keep a title - a birthday is just "Birthday"
+      const title = label === "custom" ? (entry.title ?? "").trim() : "";
+      return title ? { label, date, title } : { label, date };
+    }),
+    related: cleanRelated(contact.related ?? []),
+  };
+}
+
+// ============================================================================
+// CLEAN TAGS: Trims tags and drops empty ones and repeats
+// ============================================================================
+// "Team", " team ", "" → ["Team"] (the first spelling wins)
+export function cleanTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags
+    .map((tag) => tag.trim().replace(/\s+/g, " "))
+    .filter((tag) => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// READ TEXT: Gets a form field as a trimmed string
+// formData.get() can return a File for file inputs - we treat that as empty
+function readText(formData: FormData, name: string): string {
+  const value = formData.get(name);
+  return typeof value === "string" ? value.trim() : "";
+}
+
+// READ ROWS: Gets a repeated field as a list of trimmed strings
+// The form has one "phone.number" input per row, so getAll() returns them
+// in the same order they appear on screen
+function readRows(formData: FormData, name: string): string[] {
+  return formData
+    .getAll(name)
+    .map((value) => (typeof value === "string" ? value.trim() : ""));
+}
+
+// READ LABEL: Only accept labels we know about, anything else becomes "other"
+function toLabel(value: string | undefined): ContactLabel {
+  return CONTACT_LABELS.find((label) => label === value) ?? "other";
+}
+
+// READ PHONES: Pairs up each row's label and number, skipping empty rows
+function readPhones(formData: FormData): PhoneNumber[] {
+  const labels = readRows(formData, "phone.label");
+  return readRows(formData, "phone.number")
+    .map((number, index) => ({ label: toLabel(labels[index]), number }))
+    .filter((phone) => phone.number !== "");
+}
+
+// READ EMAILS: Pairs up each row's label and address, skipping empty rows
+function readEmails(formData: FormData): EmailAddress[] {
+  const labels = readRows(formData, "email.label");
+  return readRows(formData, "email.address")
+    .map((address, index) => ({ label: toLabel(labels[index]), address }))
+    .filter((email) => email.address !== "");
+}
+
+// READ ADDRESSES: Puts each row's parts together, skipping empty rows
+function readAddresses(formData: FormData): PostalAddress[] {
+  const labels = readRows(formData, "address.label");
+  const streets = readRows(formData, "address.street");
+  const cities = readRows(formData, "address.city");
+  const regions = readRows(formData, "address.region");
+  const postalCodes = readRows(formData, "address.postalCode");
+  const countries = readRows(formData, "address.country");
+
+  return labels
+    .map((label, index) => ({
+      label: toLabel(label),
+      street: streets[index] ?? "",
+      city: cities[index] ?? "",
+      region: regions[index] ?? "",
+      postalCode: postalCodes[index] ?? "",
+      country: countries[index] ?? "",
+    }))
+    // A row counts as empty when every part (except the label) is blank
+    .filter(({ label, ...parts }) => Object.values(parts).some(Boolean));
+}
+
+// READ DATES: Pairs up each row's label, date and title, skipping rows
+// without a date
+function readDates(formData: FormData): ContactDate[] {
+  const labels = readRows(formData, "date.label");
+  const titles = readRows(formData, "date.title");
+  return readRows(formData, "date.date")
+    .map((date, index) => {
+      const label = toDateLabel(labels[index]);
+      const title = label === "custom" ? (titles[index] ?? "") : "";
+      return title ? { label, date, title } : { label, date };
+    })
+    .filter((entry) => entry.date !== "");
+}
+
+// READ RELATED: Pairs up each row's contact and relationship type
+function readRelated(formData: FormData): Relationship[] {
+  const types = readRows(formData, "related.type");
+  return cleanRelated(
+    readRows(formData, "related.contactId").map((contactId, index) => ({
+      contactId,
+      type: types[index] as Relationship["type"],
+    })),
+  );
+}
+
+// CLEAN RELATED: Unknown types become "other", and rows without a contact
+// or saying the same thing twice are dropped. Whether the contacts exist is
+// up to data.ts - this file can't look them up
+function cleanRelated(related: Relationship[]): Relationship[] {
+  const seen = new Set<string>();
+  return related
+    .map(({ contactId, type }) => ({
+      contactId: contactId.trim(),
+      type: isRelationshipType(type) ? type : ("other" as const),
+    }))
+    .filter(({ contactId, type }) => {
+      const key = `${contactId} ${type}`;
+      if (!contactId || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+// TO DATE LABEL: Only accept date labels we know about, anything else is "custom"
+function toDateLabel(value: string | undefined): DateLabel {
+  return DATE_LABELS.find((label) => label === value) ?? "custom";
+}
+
+// READ TAGS: Every "tag" field, also splitting "a, b" typed into one box
+function readTags(formData: FormData): string[] {
+  return cleanTags(readRows(formData, "tag").flatMap((tag) => tag.split(",")));
+}
+
+// COUNT DIGITS: "+1 (555)" has 4 digits
+function countDigits(value: string): number {
+  return value.replace(/\D/g, "").length;
+}
+
+// IS HTTP URL: True for "https://example.com/a.jpg", false for "javascript:..."
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    // new URL() throws if the string isn't a URL at all
+    return false;
+  }
+}
+
+// ============================================================================
+// HOW CONTACT-SCHEMA.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. edit-contact.tsx's action() calls validateContact() with the form data
+// 2. If it fails, the action returns the errors instead of redirecting
+// 3. EditContact shows each error next to its input (or list row)
+// 4. If it passes, the clean data goes to updateContact() in data.ts
+// 5. EditContact also uses CONTACT_LABELS for the phone/email/address dropdowns
+// 6. Importers run parsed contacts through toFormValues() + validateContactValues()
+// 7. organizations.tsx and edit-organization.tsx check organizations with
+//    validateOrganization()
+// 8. contact-interactions.tsx checks each logged interaction with
+//    validateInteraction(), and follow-ups.tsx each new follow-up with
+//    validateFollowUp()
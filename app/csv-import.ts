@@ -0,0 +1,201 @@
+// ============================================================================
+// CSV-IMPORT.TS - Mapping spreadsheet columns onto contact fields
+// ============================================================================
+// Every CRM names its columns differently ("First Name", "Given Name",
+// "Vorname"...). The import wizard asks the user which contact field each
+// column belongs to. This file holds:
+//   - the list of fields a column can be mapped to (CSV_TARGETS)
+//   - a best guess for each column, so the user usually just clicks "Import"
+//   - the code that turns one spreadsheet row into a contact
+//
+// This file has no server-only code - the wizard's dropdowns use it too.
+
+// Import the contact types
+import type { ContactLabel, ContactMutation, PostalAddress } from "./data";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+// The parts of a postal address a column can hold
+type AddressPart = Exclude<keyof PostalAddress, "label">;
+
+// CsvTarget: Where a column's values go ("" means "skip this column")
+export type CsvTarget =
+  | ""
+  | "first"
+  | "last"
+  | "company"
+  | "title"
+  | "twitter"
+  | "avatar"
+  | "notes"
+  | "favorite"
+  | "tags"
+  | `phone:${ContactLabel}`
+  | `email:${ContactLabel}`
+  | `address:${AddressPart}`;
+
+// ============================================================================
+// CSV TARGETS: Every choice in the mapping dropdown, in display order
+// ============================================================================
+export const CSV_TARGETS: { value: CsvTarget; label: string }[] = [
+  { value: "", label: "— Skip this column —" },
+  { value: "first", label: "First name" },
+  { value: "last", label: "Last name" },
+  { value: "company", label: "Company" },
+  { value: "title", label: "Job title" },
+  { value: "twitter", label: "Twitter" },
+  { value: "avatar", label: "Avatar URL" },
+  { value: "notes", label: "Notes" },
+  { value: "favorite", label: "Favorite (yes/no)" },
+  { value: "tags", label: "Tags (separated by ; or ,)" },
+  { value: "phone:mobile", label: "Phone (mobile)" },
+  { value: "phone:work", label: "Phone (work)" },
+  { value: "phone:home", label: "Phone (home)" },
+  { value: "phone:other", label: "Phone (other)" },
+  { value: "email:work", label: "Email (work)" },
+  { value: "email:home", label: "Email (home)" },
+  { value: "email:other", label: "Email (other)" },
+  { value: "address:street", label: "Address: street" },
+  { value: "address:city", label: "Address: city" },
+  { value: "address:region", label: "Address: state / region" },
+  { value: "address:postalCode", label: "Address: postal code" },
+  { value: "address:country", label: "Address: country" },
+];
+
+// IS CSV TARGET: Checks a submitted dropdown value is one of ours
+export function isCsvTarget(value: unknown): value is CsvTarget {
+  return CSV_TARGETS.some((target) => target.value === value);
+}
+
+// ============================================================================
+// GUESS TARGET: A best guess at what a column holds, based on its header
+// ============================================================================
+// "First Name" → "first", "E-mail 1 - Value" → "email:other", "ID" → ""
+export function guessTarget(header: string): CsvTarget {
+  // "E-mail 1 - Value" → "e mail 1 value"
+  const words = header.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+  const has = (...needles: string[]) =>
+    needles.some((needle) => words.includes(needle));
+
+  // Columns that describe another column ("Phone 1 - Label") hold no data
+  if (has("label", "type")) return "";
+
+  if (has("first", "given", "forename")) return "first";
+  if (has("last", "surname", "family")) return "last";
+  // Before company: "Organization 1 - Title" is a job title
+  if (has("job", "title", "position")) return "title";
+  if (has("company", "organization", "organisation", "employer")) return "company";
+  if (has("twitter")) return "twitter";
+  if (has("avatar", "photo", "picture", "image")) return "avatar";
+  if (has("note", "comment")) return "notes";
+  if (has("favorite", "favourite", "starred")) return "favorite";
+  if (has("tag", "group", "categor")) return "tags";
+
+  if (has("e mail", "email")) {
+    return `email:${labelFrom(words, "other")}`;
+  }
+  if (has("phone", "mobile", "cell", "tel")) {
+    return `phone:${labelFrom(words, "mobile")}`;
+  }
+
+  if (has("street", "address line") || words === "address") return "address:street";
+  if (has("city", "town", "locality")) return "address:city";
+  if (has("state", "region", "province", "county")) return "address:region";
+  if (has("zip", "postal", "postcode")) return "address:postalCode";
+  if (has("country")) return "address:country";
+
+  return "";
+}
+
+// ============================================================================
+// ROW TO CONTACT: Turns one spreadsheet row into contact fields
+// ============================================================================
+// mapping[i] says where row[i] goes. Empty cells are ignored, so a blank
+// cell never wipes out an existing value when overwriting
+export function rowToContact(
+  row: string[],
+  mapping: CsvTarget[],
+): ContactMutation {
+  const contact: ContactMutation = {};
+  const address: Partial<PostalAddress> = {};
+
+  mapping.forEach((target, index) => {
+    const value = (row[index] ?? "").trim();
+    if (!target || !value) return;
+
+    const [kind, detail] = target.split(":") as [string, string | undefined];
+    switch (kind) {
+      case "first":
+      case "last":
+      case "company":
+      case "title":
+      case "avatar":
+      case "notes":
+        contact[kind] = value;
+        break;
+      case "twitter":
+        // Spreadsheets often drop the "@" - put it back
+        contact.twitter = value.startsWith("@") ? value : `@${value}`;
+        break;
+      case "favorite":
+        contact.favorite = /^(yes|y|true|1|x|★)$/i.test(value);
+        break;
+      case "tags":
+        contact.tags = [...(contact.tags ?? []), ...value.split(/[;,]/)];
+        break;
+      case "phone":
+        contact.phones = [
+          ...(contact.phones ?? []),
+          { label: detail as ContactLabel, number: value },
+        ];
+        break;
+      case "email":
+        contact.emails = [
+          ...(contact.emails ?? []),
+          { label: detail as ContactLabel, address: value },
+        ];
+        break;
+      case "address":
+        address[detail as AddressPart] = value;
+        break;
+    }
+  });
+
+  // All address columns together make up one address
+  if (Object.keys(address).length > 0) {
+    contact.addresses = [
+      {
+        label: "home",
+        street: address.street ?? "",
+        city: address.city ?? "",
+        region: address.region ?? "",
+        postalCode: address.postalCode ?? "",
+        country: address.country ?? "",
+      },
+    ];
+  }
+
+  return contact;
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// LABEL FROM: Picks a label out of a header ("work phone" → "work")
+function labelFrom(words: string, fallback: ContactLabel): ContactLabel {
+  if (/\b(mobile|cell)\b/.test(words)) return "mobile";
+  if (/\b(work|business|office)\b/.test(words)) return "work";
+  if (/\b(home|personal)\b/.test(words)) return "home";
+  return fallback;
+}
+
+// ============================================================================
+// HOW CSV-IMPORT.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. import-csv.tsx parses the file with parseCsv() (csv.ts)
+// 2. It pre-selects each column's dropdown with guessTarget()
+// 3. On import, each row goes through rowToContact() with the chosen mapping
+// 4. The result is validated (contact-schema.ts) and saved (data.ts)
@@ -0,0 +1,115 @@
+// ============================================================================
+// CSV.TS - Reading and writing spreadsheet (comma-separated values) files
+// ============================================================================
+// A CSV file is rows of cells separated by commas:
+//
+//   First Name,Last Name,Notes
+//   Ryan,Florence,"Likes ""quotes"", commas and
+//   line breaks"
+//
+// Cells containing commas, quotes or line breaks are wrapped in quotes,
+// and quotes inside them are doubled. That's all there is to it.
+//
+// This file has no server-only code - it's plain string handling.
+
+// ============================================================================
+// TO CSV ROW: Turns one row of cells into a line of CSV
+// ============================================================================
+// Ends with CRLF (the line ending spreadsheets expect)
+export function toCsvRow(cells: string[]): string {
+  return cells.map(escapeCell).join(",") + "\r\n";
+}
+
+// ============================================================================
+// PARSE CSV: Turns the text of a CSV file into rows of cells
+// ============================================================================
+// Handles quoted cells (with commas, doubled quotes and line breaks inside),
+// any line ending, and files saved with ";" or tabs instead of commas (which
+// Excel does in many countries). Completely empty lines are dropped.
+export function parseCsv(text: string): string[][] {
+  // Remove the invisible "byte order mark" Excel puts at the start
+  const input = text.replace(/^\uFEFF/, "");
+  const separator = detectSeparator(input);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        // "" inside quotes is one literal quote
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      // A quote at the very start of a cell opens a quoted cell
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      // End of the row ("\r\n" counts once)
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  // The last row may not end with a line break
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// DETECT SEPARATOR: Whichever of , ; or tab appears most in the first line
+function detectSeparator(text: string): string {
+  const end = text.search(/\r|\n/);
+  const firstLine = end === -1 ? text : text.slice(0, end);
+  const candidates = [",", ";", "\t"];
+  const counts = candidates.map((c) => firstLine.split(c).length);
+  return candidates[counts.indexOf(Math.max(...counts))];
+}
+
+// ESCAPE CELL: Makes one value safe to put in a CSV file
+function escapeCell(value: string): string {
+  // Spreadsheet apps run cells starting with "=" (or "+", "-", "@" followed
+  // by a formula) as formulas - a classic way to sneak commands into an
+  // export. A leading apostrophe makes Excel/Sheets show the text as-is.
+  // Plain phone numbers ("+1 555") and handles ("@jack") are left alone.
+  // parseCsv() keeps the apostrophe: a file from somewhere else may have
+  // one on purpose, and there's no telling the two apart
+  const looksLikeFormula =
+    /^[=+\-@\t\r]/.test(value) && !/^[+@-]?[\w .()-]*$/.test(value);
+  const safe = looksLikeFormula ? `'${value}` : value;
+
+  // Quote the cell if it contains anything that would break the row apart
+  if (/[",\r\n]/.test(safe) || safe !== safe.trim()) {
+    return `"${safe.replace(/"/g, '""')}"`;
+  }
+  return safe;
+}
+
+// ============================================================================
+// HOW CSV.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. export.ts calls toCsvRow() for every contact in a CSV download
+// 2. import-csv.tsx calls parseCsv() on uploaded spreadsheets
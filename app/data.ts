@@ -1,22 +1,99 @@
 // ============================================================================
-// DATA.TS - Fake database for storing and managing contacts
+// DATA.TS - Database for storing and managing contacts
 // ============================================================================
-// 🛑 Nothing in here has anything to do with React Router, it's just a fake database
-// In a real app, you'd replace this with actual database calls or API requests
+// 🛑 Nothing in here has anything to do with React Router, it's just a database
+// The records themselves are kept by storage.server.ts (see that file for
+// how to choose between the in-memory and JSON file backends)
+
+// Import Node's crypto helpers (for passwords and API tokens)
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
 
 // Import helper libraries
-import { matchSorter } from "match-sorter"; // Helps search/filter arrays
 // @ts-expect-error - no types, but it's a tiny function
 import sortBy from "sort-by"; // Helps sort arrays by properties
 import invariant from "tiny-invariant"; // Throws errors if conditions aren't met
 
+// Import the storage layer (memory or JSON file, picked by configuration)
+import { createStorageFromEnv } from "./storage.server";
+
+// Import the uploaded photo store (so purged contacts' photos go too)
+import { deleteAvatar } from "./avatars.server";
+
+// Import the search query language (see search.ts for the syntax)
+import { fuzzyScore, matchesQuery, parseQuery } from "./search";
+
+// Import the yearly date helpers (for upcoming birthdays and anniversaries)
+import { addDays, daysBetween, nextOccurrence, today, yearsSince } from "./dates";
+
+// Import the relationship opposites (manager ↔ direct report...)
+import { inverseRelationship } from "./relationships";
+
 // ============================================================================
 // TYPE DEFINITIONS: Describes the shape of our data
 // ============================================================================
 
+// ContactLabel: What kind of phone/email/address an entry is
+export type ContactLabel = "home" | "work" | "mobile" | "other";
+
+// PhoneNumber: One labelled phone number, e.g. { label: "mobile", number: "+1 555 0100" }
+export type PhoneNumber = {
+  label: ContactLabel;
+  number: string;
+};
+
+// EmailAddress: One labelled email, e.g. { label: "work", address: "ryan@remix.run" }
+export type EmailAddress = {
+  label: ContactLabel;
+  address: string;
+};
+
+// PostalAddress: One labelled mailing address, split into its parts
+export type PostalAddress = {
+  label: ContactLabel;
+  street: string;     // "123 Main St, Apt 4"
+  city: string;       // "Springfield"
+  region: string;     // State / province / county
+  postalCode: string; // ZIP or postcode
+  country: string;    // "USA"
+};
+
+// DateLabel: What kind of date an entry is ("custom" ones have a title)
+export type DateLabel = "birthday" | "anniversary" | "custom";
+
+// ContactDate: One date worth remembering, e.g. { label: "birthday", date: "1985-04-12" }
+// Every date comes round once a year (see dates.ts)
+export type ContactDate = {
+  label: DateLabel;
+  date: string;   // "YYYY-MM-DD"
+  title?: string; // What a "custom" date is, e.g. "Met at React Conf"
+};
+
+// RelationshipType: How another contact is related to this one
+// (see relationships.ts for the labels and which type is the opposite of which)
+export type RelationshipType =
+  | "manager"
+  | "report"
+  | "assistant"
+  | "assists"
+  | "colleague"
+  | "spouse"
+  | "partner"
+  | "parent"
+  | "child"
+  | "sibling"
+  | "friend"
+  | "other";
+
+// Relationship: Another contact in the same address book, and how they're related
+// e.g. { contactId: "ryan-florence", type: "manager" } - Ryan is their manager
+export type Relationship = {
+  contactId: string;
+  type: RelationshipType;
+};
+
 // ContactMutation: Properties that can be changed on a contact
 // The ? means these properties are optional (they might not exist)
-type ContactMutation = {
+export type ContactMutation = {
   id?: string;       // Unique identifier (optional when creating)
   first?: string;    // First name
   last?: string;     // Last name
@@ -24,67 +101,353 @@ type ContactMutation = {
   twitter?: string;  // Twitter handle
   notes?: string;    // Additional notes about the contact
   favorite?: boolean; // Whether this contact is marked as favorite
+  company?: string;  // Where they work - the name of an organization
+  title?: string;    // Their job title, e.g. "Co-founder"
+  phones?: PhoneNumber[];      // Any number of phone numbers
+  emails?: EmailAddress[];     // Any number of email addresses
+  addresses?: PostalAddress[]; // Any number of postal addresses
+  tags?: string[];             // Groups like "Team" or "Vendors"
+  dates?: ContactDate[];       // Birthdays, anniversaries and other dates
+  related?: Relationship[];    // Other contacts they're connected to
+};
+
+// ContactSort: The orders the contact list can be sorted in
+//   "last"      → by last name (A-Z) - the default
+//   "first"     → by first name (A-Z)
+//   "created"   → newest contacts first
+//   "updated"   → most recently edited first
+//   "favorites" → favorites first, then everyone else by last name
+//   "contacted" → most recently contacted first (never contacted at the end)
+export type ContactSort = "last" | "first" | "created" | "updated" | "favorites" | "contacted";
+
+// ContactQueryOptions: Extra filters for getContacts() (besides the search text)
+export type ContactQueryOptions = {
+  tag?: string | null; // Only contacts with this tag (case doesn't matter)
+  organizationId?: string | null; // Only people at this organization
+  sort?: ContactSort;  // Which order to list them in (default "last")
+};
+
+// TagSummary: One tag and how many contacts have it
+export type TagSummary = {
+  name: string;  // The tag as it was first written, e.g. "Team"
+  count: number; // How many contacts have it
+};
+
+// ContactPageOptions: Which slice of the list getContactsPage() returns
+// Give at most one of after / before / around / offset (none = the first page)
+export type ContactPageOptions = ContactQueryOptions & {
+  after?: string | null;  // Cursor: the page just after this point
+  before?: string | null; // Cursor: the page just before this point
+  around?: string | null; // Contact ID: a page with this contact in the middle
+  offset?: number | null; // Position: start here (for jumping far down the list)
+  limit?: number;         // Page size (default 50, at most 200)
+};
+
+// ContactPage: One slice of the (searched, filtered) contact list
+export type ContactPage = {
+  contacts: ContactRecord[];
+  startIndex: number;        // Position of contacts[0] in the whole list
+  total: number;             // How many contacts the whole list has
+  prevCursor: string | null; // Pass as "before" for the previous page (null at the top)
+  nextCursor: string | null; // Pass as "after" for the next page (null at the end)
+  sections: ContactSection[]; // Where each letter starts in the whole list
+};
+
+// ContactSection: Where one group of the list starts, when sorted by name
+//   letter: "A" to "Z", "#" (names starting with anything else),
+//           "★" (the favorites, with the "favorites" sort)
+//           or "" (contacts with no name at all - always at the end)
+//   index:  Position of the group's first contact in the whole list
+export type ContactSection = {
+  letter: string;
+  index: number;
 };
 
 // ContactRecord: A complete contact with required fields
 // This extends ContactMutation and adds mandatory properties
 export type ContactRecord = ContactMutation & {
   id: string;        // ID is required for saved contacts
+  bookId?: string;   // The address book it's in (only missing on
+                     // contacts from before there were accounts)
+  organizationId?: string; // The organization named in "company" (kept in
+                           // step by data.ts - never set it directly)
+  lastContactedAt?: string; // When their newest interaction happened (also
+                            // kept in step by data.ts)
   createdAt: string; // Timestamp when contact was created
+  updatedAt?: string; // Timestamp of the last edit that changed something
+  version?: number;   // How many edits have changed something (missing means 0)
+                      // - the edit form sends it back to spot clashing saves
+  deletedAt?: string; // Set when the contact is moved to the trash
+};
+
+// TrackedField: Every contact field the revision history keeps track of
+export type TrackedField = Exclude<keyof ContactMutation, "id">;
+
+// FieldChange: One field's value before and after an edit
+// (e.g. { field: "notes", before: "Old notes", after: "New notes" })
+export type FieldChange = {
+  [Field in TrackedField]: {
+    field: Field;
+    before?: ContactMutation[Field];
+    after?: ContactMutation[Field];
+  };
+}[TrackedField];
+
+// ContactRevision: One saved edit of a contact
+export type ContactRevision = {
+  id: string;
+  contactId: string;         // Which contact was edited
+  createdAt: string;         // When the edit was saved
+  changes: FieldChange[];    // Only the fields that actually changed
+  snapshot: ContactMutation; // The whole contact right after the edit (for reverting)
+  revertedFrom?: string;     // Set when this edit was a revert to an older revision
+  version?: number;          // The contact's version after the edit (missing on
+                             // edits from before versions were counted)
+};
+
+// ApiToken: A key that lets scripts use the JSON API (/api/...)
+// Only a hash of the secret is kept - like a password, it can be checked
+// but never read back
+export type ApiToken = {
+  id: string;
+  name: string;        // What it's for, e.g. "Nightly backup"
+  tokenHash: string;   // SHA-256 of the secret, in hex
+  createdAt: string;
+  lastUsedAt?: string; // When the token was last used (to within an hour)
+  scope?: "calendar";  // "calendar" only opens the .ics feed (missing = the
+                       // whole JSON API)
+  userId?: string;     // Whose contacts it can reach (only missing on
+                       // tokens from before there were accounts)
+};
+
+// User: Someone who can log in - they only ever see the contacts in their
+// own address books, and the ones shared with them
+export type User = {
+  id: string;
+  email: string;        // What they log in with (always lowercase)
+  passwordHash: string; // Never the password itself (see hashPassword())
+  createdAt: string;
+};
+
+// AddressBookRole: What someone can do with an address book
+//   "owner"  → everything, including sharing, renaming and deleting it
+//   "editor" → add, change and delete its contacts
+//   "viewer" → only look
+export type AddressBookRole = "owner" | "editor" | "viewer";
+
+// AddressBookMember: Someone the owner has shared an address book with
+export type AddressBookMember = {
+  userId: string;
+  role: Exclude<AddressBookRole, "owner">;
+};
+
+// AddressBook: A set of contacts, owned by one user and shared with others
+// Every user gets a personal one when they sign up; more (like a company
+// directory) can be made and shared on the /address-books page
+export type AddressBook = {
+  id: string;
+  name: string;                 // e.g. "Personal" or "Company directory"
+  ownerId: string;              // The user who made it
+  personal?: boolean;           // The one made at sign-up (can't be deleted)
+  members: AddressBookMember[]; // Everyone else who can see it
+  createdAt: string;
+};
+
+// UpcomingDate: A contact's date that comes round soon (see getUpcomingDates())
+export type UpcomingDate = {
+  contact: ContactRecord;
+  entry: ContactDate; // The date as it's saved on the contact
+  on: string;         // When it next happens, "YYYY-MM-DD"
+  inDays: number;     // 0 = today, 1 = tomorrow...
+  years: number;      // How many years it will have been (e.g. the age they turn)
+};
+
+// AddressBookSummary: An address book, plus what the user asking can do with it
+export type AddressBookSummary = AddressBook & { role: AddressBookRole };
+
+// OrganizationMutation: Properties that can be changed on an organization
+export type OrganizationMutation = {
+  name?: string;    // e.g. "Remix Software" - one per address book
+  domain?: string;  // Their website, e.g. "remix.run"
+  address?: string; // Where they are (any number of lines)
+  notes?: string;
+  logo?: string;    // URL of their logo
+};
+
+// Organization: A company (or school, club...) people in an address book
+// work at. Contacts link to one by naming it in their "company" field
+export type Organization = OrganizationMutation & {
+  id: string;
+  bookId: string;
+  name: string;
+  createdAt: string;
+  updatedAt?: string;
+};
+
+// OrganizationSummary: An organization, plus how many people work there
+export type OrganizationSummary = Organization & { count: number };
+
+// InteractionKind: How someone was in touch with a contact
+// (see interactions.ts for the labels)
+export type InteractionKind = "call" | "meeting" | "email" | "message";
+
+// InteractionMutation: What the "Log" form on a contact's page sends
+export type InteractionMutation = {
+  kind: InteractionKind;
+  body: string;       // A few words about it, e.g. "Talked about the conference"
+  occurredAt: string; // When it happened (an ISO timestamp, never in the future)
+};
+
+// Interaction: One entry in a contact's timeline
+export type Interaction = InteractionMutation & {
+  id: string;
+  bookId: string;
+  contactId: string;
+  createdAt: string;
+};
+
+// FollowUpMutation: What the "Follow up" form on a contact's page sends
+export type FollowUpMutation = {
+  dueOn: string;       // When to get back in touch, "YYYY-MM-DD"
+  everyWeeks?: number; // Repeats: done moves it this many weeks on
+  note?: string;       // What about, e.g. "Ask how the move went"
+};
+
+// FollowUp: A reminder to get in touch with a contact
+export type FollowUp = FollowUpMutation & {
+  id: string;
+  bookId: string;
+  contactId: string;
+  createdAt: string;
+};
+
+// DueFollowUp: A follow-up that's overdue or coming up (see getDueFollowUps())
+export type DueFollowUp = {
+  followUp: FollowUp;
+  contact: ContactRecord;
+  inDays: number; // Negative = overdue, 0 = today, 1 = tomorrow...
 };
 
 // ============================================================================
-// FAKE DATABASE: An object that acts like a database table
+// DATABASE: Where contacts are stored
 // ============================================================================
-// This is just a JavaScript object stored in memory
-// When you refresh the page, all data is lost (in a real app, data persists)
-const fakeContacts = {
-  // records: An object that stores contacts by their ID
-  // Example: { "john-doe": {id: "john-doe", first: "John", ...}, ... }
-  records: {} as Record<string, ContactRecord>,
-
-  // GET ALL CONTACTS: Returns an array of all contacts
-  async getAll(): Promise<ContactRecord[]> {
-    // Object.keys gets all the IDs from our records object
-    return Object.keys(fakeContacts.records)
-      // Map each ID to its corresponding contact record
-      .map((key) => fakeContacts.records[key])
-      // Sort by createdAt (newest first) then by last name
-      .sort(sortBy("-createdAt", "last"));
-      // The "-" before createdAt means descending order
+// The actual storage (memory or a JSON file on disk) is picked by
+// storage.server.ts based on the CONTACTS_STORAGE environment variable.
+// Everything below only talks to the "contacts" collection, so it doesn't
+// care which backend is in use
+const storage = createStorageFromEnv();
+const contactsTable = storage.collection<ContactRecord>("contacts");
+const revisionsTable = storage.collection<ContactRevision>("revisions");
+const apiTokensTable = storage.collection<ApiToken>("apiTokens");
+const usersTable = storage.collection<User>("users");
+const addressBooksTable = storage.collection<AddressBook>("addressBooks");
+const organizationsTable = storage.collection<Organization>("organizations");
+const interactionsTable = storage.collection<Interaction>("interactions");
+const followUpsTable = storage.collection<FollowUp>("followUps");
+
+// BATCH WRITES: Runs work that saves many records (an import, a bulk
+// action, a merge) with one write of the database at the end, instead of
+// one per record
+export function batchWrites<T>(work: () => Promise<T>): Promise<T> {
+  return storage.batch(work);
+}
+
+// Fields that describe the record rather than the person - never part of
+// the revision history
+const UNTRACKED_FIELDS = new Set([
+  "id",
+  "bookId",
+  "organizationId",
+  "lastContactedAt",
+  "createdAt",
+  "updatedAt",
+  "version",
+  "deletedAt",
+]);
+
+// TRASH RETENTION: How many days deleted contacts stay in the trash before
+// they're removed for good. Set TRASH_RETENTION_DAYS to change it
+export const TRASH_RETENTION_DAYS = readRetentionDays(
+  process.env.TRASH_RETENTION_DAYS,
+);
+
+// READY: Resolves once the database has been seeded (if it needed to be).
+// Every function below awaits this first, so the demo data is guaranteed
+// to be in place before the first request reads anything
+let ready: Promise<void> | null = null;
+function whenReady() {
+  ready ??= seedIfEmpty();
+  return ready;
+}
+
+// SORTED CACHE: An address book's contacts (not in the trash), already in
+// list order - one list per book and sort order that's been asked for,
+// keyed like "bookId:sort".
+// Sorting 10,000 contacts on every keystroke in the search box is slow, so
+// the sorted lists are kept until something changes. Every write below
+// clears the lists of the book it writes to, and the next read sorts again
+const sortedCache = new Map<string, ContactRecord[]>();
+
+// FORGET SORTED: Clears one address book's sorted lists (the other books'
+// stay - nothing in them changed)
+function forgetSorted(bookId: string | undefined) {
+  for (const key of sortedCache.keys()) {
+    if (key.startsWith(`${bookId ?? ""}:`)) sortedCache.delete(key);
+  }
+}
+
+const contactStore = {
+  // GET ALL CONTACTS: Returns an array of one address book's contacts (not in the
+  // trash), in the given order (see SORT_KEYS)
+  async getAll(bookId: string, sort: ContactSort = "last"): Promise<ContactRecord[]> {
+    await whenReady();
+    const cacheKey = `${bookId}:${sort}`;
+    let sorted = sortedCache.get(cacheKey);
+    if (!sorted) {
+      sorted = (await contactsTable.all())
+        .filter((contact) => contact.bookId === bookId && !contact.deletedAt)
+        .sort((a, b) => compareKeys(listKey(a, sort), listKey(b, sort), sort));
+      sortedCache.set(cacheKey, sorted);
+    }
+    // A copy, so callers can't reorder the cache by accident
+    return [...sorted];
+  },
+
+  // GET DELETED CONTACTS: Returns everything in one address book's trash
+  // (or every book's, when none is given - for purging old contacts)
+  async getDeleted(bookId?: string): Promise<ContactRecord[]> {
+    await whenReady();
+    return (await contactsTable.all())
+      .filter(
+        (contact) =>
+          contact.deletedAt && (bookId === undefined || contact.bookId === bookId),
+      )
+      // Most recently deleted first
+      .sort(sortBy("-deletedAt"));
   },
 
   // GET ONE CONTACT: Returns a single contact by ID
+  // (trashed ones too - the exported functions decide whether to show them)
   async get(id: string): Promise<ContactRecord | null> {
+    await whenReady();
     // Look up the contact by ID, return null if not found
-    return fakeContacts.records[id] || null;
+    return contactsTable.get(id);
   },
 
-  // CREATE A CONTACT: Adds a new contact to our database
-  async create(values: ContactMutation): Promise<ContactRecord> {
-    // Generate a random ID if one wasn't provided
-    // Math.random() creates a decimal, .toString(36) converts to base-36
-    // .substring(2, 9) takes characters 2-9 for a short random string
-    const id = values.id || Math.random().toString(36).substring(2, 9);
-    
-    // Get the current timestamp in ISO format
-    const createdAt = new Date().toISOString();
-    
-    // Create the new contact object by combining values with id and createdAt
-    const newContact = { id, createdAt, ...values };
-    // ...values spreads all the properties from the values object
-    
-    // Store the new contact in our records object
-    fakeContacts.records[id] = newContact;
-    
-    // Return the newly created contact
-    return newContact;
+  // CREATE A CONTACT: Adds a new contact to an address book
+  async create(
+    bookId: string,
+    values: ContactMutation & { organizationId?: string },
+  ): Promise<ContactRecord> {
+    await whenReady();
+    forgetSorted(bookId);
+    return insertContact({ ...values, bookId });
   },
 
   // UPDATE A CONTACT: Modifies an existing contact
-  async set(id: string, values: ContactMutation): Promise<ContactRecord> {
+  async set(id: string, values: Partial<ContactRecord>): Promise<ContactRecord> {
     // First, get the existing contact
-    const contact = await fakeContacts.get(id);
+    const contact = await contactStore.get(id);
     
     // Make sure the contact exists - throw an error if it doesn't
     invariant(contact, `No contact found for ${id}`);
@@ -93,89 +456,1460 @@ const fakeContacts = {
     const updatedContact = { ...contact, ...values };
     // Properties in values will overwrite properties in contact
     
-    // Save the updated contact back to our records
-    fakeContacts.records[id] = updatedContact;
-    
-    // Return the updated contact
-    return updatedContact;
+    // Save the updated contact back to the database (a contact moved to
+    // another book changes both books' lists)
+    forgetSorted(contact.bookId);
+    forgetSorted(updatedContact.bookId);
+    return contactsTable.put(updatedContact);
   },
 
-  // DELETE A CONTACT: Removes a contact from the database
-  destroy(id: string): null {
-    // Delete the contact from our records object
-    delete fakeContacts.records[id];
-    // Return null to indicate success
-    return null;
+  // DELETE A CONTACT: Removes a contact (and its history) from the database for good
+  async destroy(id: string): Promise<null> {
+    await whenReady();
+    // Many records go, so the file is saved once at the end
+    return storage.batch(async () => {
+      const removed = await contactsTable.get(id);
+      // Every photo the contact has had (its history can bring old ones back)
+      const avatars = new Set([removed?.avatar]);
+
+      // Delete the contact from the database
+      forgetSorted(removed?.bookId);
+      await contactsTable.remove(id);
+      // ...and every revision of it
+      for (const revision of await revisionsTable.all()) {
+        if (revision.contactId !== id) continue;
+        for (const change of revision.changes) {
+          if (change.field === "avatar") avatars.add(change.before).add(change.after);
+        }
+        await revisionsTable.remove(revision.id);
+      }
+
+      // ...and its timeline and follow-ups
+      for (const interaction of await interactionsTable.all()) {
+        if (interaction.contactId === id) await interactionsTable.remove(interaction.id);
+      }
+      for (const followUp of await followUpsTable.all()) {
+        if (followUp.contactId === id) await followUpsTable.remove(followUp.id);
+      }
+
+      // ...and any uploaded photos nothing else uses any more (merging two
+      // contacts can leave the same photo on both)
+      for (const contact of await contactsTable.all()) avatars.delete(contact.avatar);
+      for (const revision of await revisionsTable.all()) {
+        for (const change of revision.changes) {
+          if (change.field !== "avatar") continue;
+          avatars.delete(change.before);
+          avatars.delete(change.after);
+        }
+      }
+      for (const avatar of avatars) await deleteAvatar(avatar);
+
+      // Return null to indicate success
+      return null;
+    });
   },
 };
 
+// INSERT A CONTACT: Writes a brand new contact straight to the table
+// Shared by contactStore.create() and the seeding code (which can't await
+// whenReady() - it IS what whenReady() is waiting for)
+async function insertContact(
+  values: ContactMutation & { bookId?: string; organizationId?: string },
+): Promise<ContactRecord> {
+  // Generate a random ID if one wasn't provided
+  // Math.random() creates a decimal, .toString(36) converts to base-36
+  // .substring(2, 9) takes characters 2-9 for a short random string
+  const id = values.id || Math.random().toString(36).substring(2, 9);
+  
+  // Get the current timestamp in ISO format
+  const createdAt = new Date().toISOString();
+  
+  // Create the new contact object by combining values with id and createdAt
+  // ...values spreads all the properties from the values object
+  return contactsTable.put({ id, createdAt, ...values });
+}
+
 // ============================================================================
 // HELPER FUNCTIONS: Easy-to-use functions for route components
 // ============================================================================
-// These are the functions that your route components will actually call
+// These are the functions that your route components will actually call.
+// Each one takes the ID of an address book first, and only ever reads or
+// changes the contacts in that book. Whether the logged-in user may do that
+// is checked before they're called (see requireAddressBook() in
+// auth.server.ts)
 
 // GET CONTACTS WITH OPTIONAL SEARCH: Returns all contacts, optionally filtered
-export async function getContacts(query?: string | null) {
+export async function getContacts(
+  bookId: string,
+  query?: string | null,
+  options: ContactQueryOptions = {},
+) {
   // Simulate a delay like a real database would have (500 milliseconds)
   await new Promise((resolve) => setTimeout(resolve, 500));
+
+  // Empty out anything that's been in the trash too long (at most once an
+  // hour - this runs on every search keystroke)
+  await purgeExpiredContactsNowAndThen();
   
-  // Get all contacts from our fake database
-  let contacts = await fakeContacts.getAll();
+  // Get all contacts from the database (already sorted)
+  let contacts = await contactStore.getAll(bookId, options.sort);
+
+  // If a tag was given, only keep contacts that have it
+  if (options.tag) {
+    const tag = options.tag.toLowerCase();
+    contacts = contacts.filter((contact) =>
+      contact.tags?.some((t) => t.toLowerCase() === tag),
+    );
+  }
+
+  // If an organization was given, only keep the people who work there
+  if (options.organizationId) {
+    contacts = contacts.filter(
+      (contact) => contact.organizationId === options.organizationId,
+    );
+  }
   
   // If a search query was provided, filter the contacts
+  // Queries can be plain words or use qualifiers like twitter:jack,
+  // is:favorite or -tag:vendors (search.ts explains them all)
   if (query) {
-    // matchSorter searches through contacts and returns matches
-    contacts = matchSorter(contacts, query, {
-      keys: ["first", "last"], // Search in first and last name fields
-    });
+    const terms = parseQuery(query);
+    contacts = contacts.filter((contact) => matchesQuery(contact, terms));
   }
   
-  // Sort results by last name, then by creation date
-  return contacts.sort(sortBy("last", "createdAt"));
+  // Filtering keeps the order, so results are still sorted
+  return contacts;
+}
+
+// GET CONTACTS PAGE: One page of getContacts(), for lists too long to send
+// in one go. Pages are found with cursors rather than page numbers, so
+// contacts added or removed while someone scrolls don't shift what the
+// next page holds
+export async function getContactsPage(
+  bookId: string,
+  query: string | null,
+  options: ContactPageOptions = {},
+): Promise<ContactPage> {
+  const sort = options.sort ?? "last";
+  const contacts = await getContacts(bookId, query, { ...options, sort });
+  const limit = Math.min(Math.max(Math.floor(options.limit ?? 50), 1), 200);
+
+  // Where does the page start (and end)?
+  let start = 0;
+  let end: number;
+  const after = decodeCursor(options.after, sort);
+  const before = decodeCursor(options.before, sort);
+  if (after) {
+    // The first contact that sorts after the cursor
+    start = firstIndexAfter(contacts, sort, after);
+    end = start + limit;
+  } else if (before) {
+    // The page that ends right before the cursor
+    end = firstIndexAfter(contacts, sort, before, true);
+    start = Math.max(0, end - limit);
+  } else if (options.around) {
+    // Put the contact in the middle of the page (if it's in the list at all)
+    const index = contacts.findIndex((contact) => contact.id === options.around);
+    start = Math.max(0, index - Math.floor(limit / 2));
+    end = start + limit;
+  } else {
+    start = Math.min(Math.max(Math.floor(options.offset ?? 0), 0), contacts.length);
+    end = start + limit;
+  }
+
+  const page = contacts.slice(start, end);
+  return {
+    contacts: page,
+    startIndex: start,
+    total: contacts.length,
+    prevCursor: start > 0 && page.length ? encodeCursor(page[0], sort) : null,
+    nextCursor:
+      start + page.length < contacts.length && page.length
+        ? encodeCursor(page[page.length - 1], sort)
+        : null,
+    sections: sectionsFor(contacts, sort),
+  };
+}
+
+// IS CONTACT SORT: Checks a value (say, from the URL) is a sort we know
+export function isContactSort(value: unknown): value is ContactSort {
+  return typeof value === "string" && Object.hasOwn(SORT_KEYS, value);
+}
+
+// GET TAGS: Every tag in use, with how many contacts have each one
+// Tags that only differ in case ("team" and "Team") count as the same tag
+export async function getTags(bookId: string): Promise<TagSummary[]> {
+  const contacts = await contactStore.getAll(bookId);
+
+  // Keyed by lowercase name so "team" and "Team" are counted together
+  const tags = new Map<string, TagSummary>();
+  for (const contact of contacts) {
+    for (const name of contact.tags ?? []) {
+      const key = name.toLowerCase();
+      const tag = tags.get(key) ?? { name, count: 0 };
+      tag.count += 1;
+      tags.set(key, tag);
+    }
+  }
+
+  // Alphabetical order, ignoring case
+  return [...tags.values()].sort((a, b) =>
+    a.name.localeCompare(b.name, undefined, { sensitivity: "base" }),
+  );
+}
+
+// GET UPCOMING DATES: Birthdays, anniversaries and other dates coming round
+// in the next few days (today included), soonest first
+export async function getUpcomingDates(
+  bookId: string,
+  days: number,
+  now = new Date(),
+): Promise<UpcomingDate[]> {
+  const from = today(now);
+  const upcoming: UpcomingDate[] = [];
+  for (const contact of await contactStore.getAll(bookId)) {
+    for (const entry of contact.dates ?? []) {
+      const on = nextOccurrence(entry.date, from);
+      const inDays = daysBetween(from, on);
+      if (inDays < days) {
+        upcoming.push({ contact, entry, on, inDays, years: yearsSince(entry.date, on) });
+      }
+    }
+  }
+  return upcoming.sort((a, b) => a.inDays - b.inDays);
 }
 
 // CREATE EMPTY CONTACT: Creates a new contact with no information
-export async function createEmptyContact() {
+export async function createEmptyContact(bookId: string) {
   // Create a contact with an empty object (all fields will be undefined)
-  const contact = await fakeContacts.create({});
+  const contact = await contactStore.create(bookId, {});
   return contact;
 }
 
+// CREATE CONTACT: Creates a new contact with the given information
+// Used by importers - the values should already be validated
+export async function createContact(bookId: string, values: ContactMutation) {
+  // Never let imported data pick its own ID (it could overwrite a contact)
+  const { id: _ignored, related, ...rest } = values;
+  const contact = await contactStore.create(bookId, {
+    ...rest,
+    // The company links to its organization (made if it's new)
+    ...(await linkOrganization(bookId, rest)),
+  });
+  if (!related?.length) return contact;
+
+  // Relationships need the new contact's ID, so they're added once it has
+  // one (and the people on the other end get theirs, as in updateContact())
+  const kept = await existingRelationships(contact, related);
+  const created = await contactStore.set(contact.id, { related: kept });
+  await syncRelationships(bookId, created, [], kept);
+  return created;
+}
+
 // GET CONTACT BY ID: Returns a specific contact
-export async function getContact(id: string) {
-  // Simply call the get method from our fake database
-  return fakeContacts.get(id);
+// Contacts in the trash - and contacts in other address books - count as
+// not found (null)
+export async function getContact(bookId: string, id: string) {
+  const contact = await contactStore.get(id);
+  return contact && contact.bookId === bookId && !contact.deletedAt
+    ? contact
+    : null;
+}
+
+// FIND CONTACTS BY NAME: The contacts whose name (or company) best matches
+// a few typed letters, best first - for the command palette, so "rflo"
+// finds Ryan Florence. Unlike getContacts() there's no query language
+export async function findContactsByName(
+  bookId: string,
+  typed: string,
+  limit = 8,
+): Promise<ContactRecord[]> {
+  if (!typed.trim()) return [];
+
+  const scored: { contact: ContactRecord; score: number }[] = [];
+  for (const contact of await contactStore.getAll(bookId)) {
+    const name = fuzzyScore([contact.first, contact.last].filter(Boolean).join(" "), typed);
+    const company = contact.company ? fuzzyScore(contact.company, typed) : null;
+    // A company match counts for a bit less than a name match
+    const score = Math.max(name ?? -Infinity, company === null ? -Infinity : company - 1);
+    if (score > -Infinity) scored.push({ contact, score });
+  }
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ contact }) => contact);
+}
+
+// GET CONTACT NAMES: Names for a list of contact IDs, e.g. for showing who
+// a contact is related to. Contacts in the trash still have their name;
+// IDs from other address books are left out
+export async function getContactNames(
+  bookId: string,
+  ids: string[],
+): Promise<Record<string, string>> {
+  const names: Record<string, string> = {};
+  for (const id of new Set(ids)) {
+    const contact = await contactStore.get(id);
+    if (contact?.bookId === bookId) {
+      names[id] = [contact.first, contact.last].filter(Boolean).join(" ") || "No Name";
+    }
+  }
+  return names;
 }
 
 // UPDATE CONTACT: Changes information for a specific contact
-export async function updateContact(id: string, updates: ContactMutation) {
+// Given the version the caller's changes were made to, it saves nothing
+// (and returns null) if someone else has saved a newer one since
+export async function updateContact(
+  bookId: string,
+  id: string,
+  updates: ContactMutation,
+  version?: number,
+) {
   // First, get the existing contact to make sure it exists
-  const contact = await fakeContacts.get(id);
+  const contact = await getContact(bookId, id);
   
-  // If contact doesn't exist, throw an error
+  // If contact doesn't exist (or is in the trash), throw an error
   if (!contact) {
     throw new Error(`No contact found for ${id}`);
   }
   
+  // Relationships can only point at other contacts in the same address book
+  if (updates.related) {
+    updates = { ...updates, related: await existingRelationships(contact, updates.related) };
+  }
+
+  // Checked against the contact as it is right before writing - the caller
+  // (and the lookups above) may have waited long enough for another save
+  if (version !== undefined && ((await contactStore.get(id))?.version ?? 0) !== version) {
+    return null;
+  }
+
   // Update the contact by merging existing data with updates
-  await fakeContacts.set(id, { ...contact, ...updates });
+  // (and remember what changed in its revision history)
+  const updated = await saveRevision(contact, updates);
+
+  // Then give the people on the other end the opposite relationship
+  await syncRelationships(bookId, contact, contact.related, updated.related);
   
-  // Return the contact (note: this returns the OLD contact, not the updated one)
-  // This is likely a bug in the original code
+  // Return the contact as it is now
+  return updated;
+}
+
+// ============================================================================
+// LIST ORDER AND CURSORS
+// ============================================================================
+
+// LIST KEY: What a contact is sorted by - a list of strings compared one
+// after another (the next one only matters when the ones before are equal).
+// Every key ends with the ID, so two contacts never tie - cursors rely on that
+type ListKey = string[];
+
+// SORT KEYS: How each sort order builds a contact's key
+// Contacts with no name at all go to the end (the "0"/"1" at the start);
+// someone with only a first name is filed under it, even when sorting by
+// last name
+const SORT_KEYS: Record<ContactSort, (contact: ContactRecord) => ListKey> = {
+  last: (contact) => [
+    hasName(contact) ? "0" : "1",
+    contact.last || contact.first || "",
+    contact.first ?? "",
+    contact.createdAt,
+    contact.id,
+  ],
+  first: (contact) => [
+    hasName(contact) ? "0" : "1",
+    contact.first || contact.last || "",
+    contact.last ?? "",
+    contact.createdAt,
+    contact.id,
+  ],
+  // Newest first: these are compared backwards (see NEWEST_FIRST)
+  created: (contact) => [contact.createdAt, contact.id],
+  // Contacts that were never edited count as updated when they were created
+  updated: (contact) => [contact.updatedAt ?? contact.createdAt, contact.id],
+  favorites: (contact) => [contact.favorite ? "0" : "1", ...SORT_KEYS.last(contact)],
+  // Never contacted sorts as "" - after every date, as the list is backwards
+  contacted: (contact) => [contact.lastContactedAt ?? "", contact.id],
+};
+
+// Sort orders listed from the end of their key backwards (newest first)
+const NEWEST_FIRST = new Set<ContactSort>(["created", "updated", "contacted"]);
+
+// Compares names the way people expect: "anna" next to "Anna" and "Ánna",
+// and "Item 2" before "Item 10"
+const collator = new Intl.Collator("en", { numeric: true, sensitivity: "base" });
+
+// LIST KEY FOR: A contact's key in the given sort order
+function listKey(contact: ContactRecord, sort: ContactSort): ListKey {
+  return SORT_KEYS[sort](contact);
+}
+
+// COMPARE KEYS: Negative, 0 or positive, comparing key parts one after another
+function compareKeys(a: ListKey, b: ListKey, sort: ContactSort): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    // The collator says "anna" and "Anna" are equal - then plain string
+    // order decides, so different keys are never equal
+    let order = collator.compare(a[i], b[i]);
+    if (order === 0 && a[i] !== b[i]) order = a[i] < b[i] ? -1 : 1;
+    if (order !== 0) return NEWEST_FIRST.has(sort) ? -order : order;
+  }
+  return 0;
+}
+
+// ENCODE CURSOR: A contact's list key as a URL-safe string
+// (the contact itself may be deleted before the cursor is used - the key
+// still says exactly where in the list to carry on). The sort order goes
+// in too: a cursor only makes sense in the order it came from
+function encodeCursor(contact: ContactRecord, sort: ContactSort): string {
+  return Buffer.from(JSON.stringify([sort, ...listKey(contact, sort)])).toString("base64url");
+}
+
+// DECODE CURSOR: Back to a list key (null if it's missing, garbled or from
+// another sort order - a broken cursor just starts the list from the top)
+function decodeCursor(cursor: string | null | undefined, sort: ContactSort): ListKey | null {
+  if (!cursor) return null;
+  try {
+    const key: unknown = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    return Array.isArray(key) && key[0] === sort && key.every((part) => typeof part === "string")
+      ? key.slice(1)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// FIRST INDEX AFTER: Position of the first contact that sorts after the key
+// (or at/after it, with orEqual). contacts.length if there isn't one.
+// The list is sorted, so this is a binary search
+function firstIndexAfter(
+  contacts: ContactRecord[],
+  sort: ContactSort,
+  key: ListKey,
+  orEqual = false,
+): number {
+  let low = 0;
+  let high = contacts.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    const order = compareKeys(listKey(contacts[middle], sort), key, sort);
+    if (order > 0 || (orEqual && order === 0)) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  return low;
+}
+
+// SECTIONS FOR: Where each letter starts in a sorted list ("A" at 0, "B"
+// at 12, ...). Only name orders have letters - date orders return none
+function sectionsFor(contacts: ContactRecord[], sort: ContactSort): ContactSection[] {
+  if (NEWEST_FIRST.has(sort)) return [];
+
+  const sections: ContactSection[] = [];
+  contacts.forEach((contact, index) => {
+    let letter: string;
+    if (sort === "favorites" && contact.favorite) {
+      letter = "★";
+    } else if (!hasName(contact)) {
+      letter = "";
+    } else {
+      // The first letter of the name the contact is filed under, without
+      // accents ("É" goes with "E")
+      const name = SORT_KEYS[sort === "first" ? "first" : "last"](contact)[1];
+      const first = name.normalize("NFD")[0].toUpperCase();
+      letter = /[A-Z]/.test(first) ? first : "#";
+    }
+    if (sections[sections.length - 1]?.letter !== letter) {
+      sections.push({ letter, index });
+    }
+  });
+  return sections;
+}
+
+// HAS NAME: Does the contact have a first or last name?
+function hasName(contact: ContactRecord): boolean {
+  return Boolean(contact.first || contact.last);
+}
+
+// ============================================================================
+// REVISION HISTORY: Every edit ever saved to a contact
+// ============================================================================
+
+// GET REVISIONS: A contact's edits, newest first
+export async function getRevisions(bookId: string, contactId: string) {
+  // A contact from another address book? Then there's no history to show either
+  const contact = await contactStore.get(contactId);
+  if (contact?.bookId !== bookId) return [];
+
+  return (await revisionsTable.all())
+    .filter((revision) => revision.contactId === contactId)
+    .sort(sortBy("-createdAt"));
+}
+
+// GET CONTACT VERSION: What a contact looked like at one version
+// The edit form uses it to show what someone else changed since the form
+// was opened. null when that version isn't known (edits from before
+// versions were counted)
+export async function getContactVersion(
+  bookId: string,
+  contactId: string,
+  version: number,
+): Promise<ContactMutation | null> {
+  const revisions = await getRevisions(bookId, contactId);
+
+  // The edit that made this version kept a snapshot...
+  const made = revisions.find((revision) => revision.version === version);
+  if (made) return made.snapshot;
+
+  // ...and so did the one after it, along with every value it replaced.
+  // That's the only way back to version 0, which no edit made
+  const next = revisions.find((revision) => revision.version === version + 1);
+  if (!next) return null;
+  const snapshot: Record<string, unknown> = { ...next.snapshot };
+  for (const change of next.changes) {
+    snapshot[change.field] = change.before;
+  }
+  return snapshot as ContactMutation;
+}
+
+// REVERT CONTACT: Puts a contact back the way it was after an older revision
+// The revert is saved as a new revision, so it can be undone too
+export async function revertContact(
+  bookId: string,
+  contactId: string,
+  revisionId: string,
+) {
+  const contact = await getContact(bookId, contactId);
+  invariant(contact, `No contact found for ${contactId}`);
+  const revision = await revisionsTable.get(revisionId);
+  invariant(
+    revision?.contactId === contactId,
+    `No revision ${revisionId} found for ${contactId}`,
+  );
+
+  // Every field goes back to its old value - including fields that were
+  // blank back then (they're set to undefined, which clears them)
+  const updates: Record<string, unknown> = {};
+  for (const field of new Set([
+    ...Object.keys(contact),
+    ...Object.keys(revision.snapshot),
+  ])) {
+    if (!UNTRACKED_FIELDS.has(field)) {
+      updates[field] = revision.snapshot[field as TrackedField];
+    }
+  }
+
+  // People who've been deleted since can't be related any more
+  updates.related = await existingRelationships(contact, revision.snapshot.related ?? []);
+
+  const updated = await saveRevision(contact, updates as ContactMutation, revisionId);
+  await syncRelationships(bookId, contact, contact.related, updated.related);
+  return updated;
+}
+
+// SAVE REVISION: Applies updates to a contact and records what changed
+// Saves that don't change anything (like re-submitting the edit form
+// untouched) leave no revision behind
+async function saveRevision(
+  contact: ContactRecord,
+  updates: ContactMutation,
+  revertedFrom?: string,
+) {
+  // A changed company links to its organization (made if it's new)
+  if ("company" in updates) {
+    updates = { ...updates, ...(await linkOrganization(contact.bookId ?? "", updates)) };
+  }
+
+  const changes = diffContacts(contact, { ...contact, ...updates });
+  const version = (contact.version ?? 0) + 1;
+  const updated = await contactStore.set(contact.id, {
+    ...contact,
+    ...updates,
+    // Only saves that change something count (for the "Recently updated"
+    // sort, and as a new version)
+    ...(changes.length > 0 ? { updatedAt: new Date().toISOString(), version } : {}),
+  });
+
+  if (changes.length > 0) {
+    await revisionsTable.put({
+      id: Math.random().toString(36).substring(2, 9),
+      contactId: contact.id,
+      createdAt: new Date().toISOString(),
+      changes,
+      snapshot: Object.fromEntries(
+        Object.entries(updated).filter(([field]) => !UNTRACKED_FIELDS.has(field)),
+      ),
+      revertedFrom,
+      version,
+    });
+  }
+
+  return updated;
+}
+
+// DIFF CONTACTS: Which tracked fields differ between two versions of a contact
+function diffContacts(before: ContactMutation, after: ContactMutation) {
+  const changes: FieldChange[] = [];
+  for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (UNTRACKED_FIELDS.has(field)) continue;
+    const key = field as TrackedField;
+    if (comparable(before[key]) !== comparable(after[key])) {
+      changes.push({ field: key, before: before[key], after: after[key] } as FieldChange);
+    }
+  }
+  return changes;
+}
+
+// COMPARABLE: A value as text, treating every kind of "nothing" the same
+// (a new contact's first save turns undefined into "" and [] - that's not a change)
+function comparable(value: unknown): string {
+  const blank =
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    value === false ||
+    (Array.isArray(value) && value.length === 0);
+  // JSON.stringify compares lists entry by entry
+  return blank ? "" : JSON.stringify(value);
+}
+
+// EXISTING RELATIONSHIPS: Drops relationships to the contact itself, and to
+// contacts that aren't (or are no longer) in its address book
+async function existingRelationships(
+  contact: ContactRecord,
+  related: Relationship[],
+): Promise<Relationship[]> {
+  const kept: Relationship[] = [];
+  for (const relationship of related) {
+    if (relationship.contactId === contact.id) continue;
+    if (await getContact(contact.bookId ?? "", relationship.contactId)) {
+      kept.push(relationship);
+    }
+  }
+  return kept;
+}
+
+// SYNC RELATIONSHIPS: Gives the people on the other end of a contact's new
+// relationships the opposite one, and takes it away again for the ones
+// removed - "Ryan is Ann's manager" goes with "Ann is Ryan's direct report".
+// One-way types ("other") are left alone
+async function syncRelationships(
+  bookId: string,
+  contact: ContactRecord,
+  before: Relationship[] = [],
+  after: Relationship[] = [],
+) {
+  const key = (relationship: Relationship) =>
+    `${relationship.contactId} ${relationship.type}`;
+  const beforeKeys = new Set(before.map(key));
+  const afterKeys = new Set(after.map(key));
+
+  const changes = [
+    ...before.filter((relationship) => !afterKeys.has(key(relationship))).map(
+      (relationship) => ({ relationship, add: false }),
+    ),
+    ...after.filter((relationship) => !beforeKeys.has(key(relationship))).map(
+      (relationship) => ({ relationship, add: true }),
+    ),
+  ];
+
+  for (const { relationship, add } of changes) {
+    const inverse = inverseRelationship(relationship.type);
+    const other = inverse ? await getContact(bookId, relationship.contactId) : null;
+    if (!inverse || !other) continue;
+
+    const mirrored: Relationship = { contactId: contact.id, type: inverse };
+    const others = (other.related ?? []).filter((item) => key(item) !== key(mirrored));
+    // saveRevision() (not updateContact()), so this doesn't bounce back
+    await saveRevision(other, { related: add ? [...others, mirrored] : others });
+  }
+}
+
+// DELETE CONTACT: Moves a contact to the trash
+// It disappears everywhere, but can be restored until it's purged
+export async function deleteContact(bookId: string, id: string) {
+  const [contact] = await deleteContacts(bookId, [id]);
+  invariant(contact, `No contact found for ${id}`);
   return contact;
 }
 
-// DELETE CONTACT: Removes a contact completely
-export async function deleteContact(id: string) {
-  // Call the destroy method to delete the contact
-  fakeContacts.destroy(id);
+// DELETE CONTACTS: Moves many contacts to the trash at once, and returns the
+// ones it found (IDs that aren't in the book, or are already in the trash,
+// are left out). The rest of the book is only gone through once, however
+// many there are, and the database is written once at the end
+export async function deleteContacts(bookId: string, ids: string[]) {
+  return storage.batch(async () => {
+    const deletedAt = new Date().toISOString();
+    const deleted: ContactRecord[] = [];
+    for (const id of new Set(ids)) {
+      const contact = await getContact(bookId, id);
+      if (!contact) continue;
+      await contactStore.set(id, { deletedAt });
+      deleted.push(contact);
+    }
+
+    // Nobody is related to a deleted contact any more
+    const gone = new Set(deleted.map((contact) => contact.id));
+    if (gone.size === 0) return deleted;
+    for (const other of await contactStore.getAll(bookId)) {
+      if (other.related?.some((relationship) => gone.has(relationship.contactId))) {
+        await saveRevision(other, {
+          related: other.related.filter((relationship) => !gone.has(relationship.contactId)),
+        });
+      }
+    }
+
+    return deleted;
+  });
+}
+
+// ============================================================================
+// TRASH: Deleted contacts waiting to be restored or purged
+// ============================================================================
+
+// GET DELETED CONTACTS: Everything in the address book's trash, most recently
+// deleted first
+export async function getDeletedContacts(bookId: string) {
+  await purgeExpiredContacts();
+  return contactStore.getDeleted(bookId);
+}
+
+// RESTORE CONTACT: Takes a contact back out of the trash
+export async function restoreContact(bookId: string, id: string) {
+  const contact = await contactStore.get(id);
+  invariant(
+    contact?.deletedAt && contact.bookId === bookId,
+    `No deleted contact found for ${id}`,
+  );
+
+  // Leaving deletedAt undefined removes it when the record is saved
+  const restored = await contactStore.set(id, { deletedAt: undefined });
+
+  // The people it's related to get their side of the relationship back
+  // (the ones still around - the rest are dropped)
+  const related = await existingRelationships(restored, restored.related ?? []);
+  const updated = await saveRevision(restored, { related });
+  await syncRelationships(bookId, restored, [], updated.related);
+  return updated;
+}
+
+// PURGE CONTACT: Deletes a contact from the trash for good (no undo!)
+export async function purgeContact(bookId: string, id: string) {
+  const contact = await contactStore.get(id);
+  // Only contacts already in the trash can be purged - so one click
+  // can never permanently delete a contact that's still in use
+  invariant(
+    contact?.deletedAt && contact.bookId === bookId,
+    `No deleted contact found for ${id}`,
+  );
+
+  await contactStore.destroy(id);
+}
+
+// PURGE EXPIRED CONTACTS: Deletes everything that's been in the trash for
+// longer than TRASH_RETENTION_DAYS. Runs whenever the trash is loaded, and
+// now and then when the contact list is (see below), so no background job
+// is needed. Everyone's trash is emptied at once - it doesn't matter whose
+// request noticed
+export async function purgeExpiredContacts(now = new Date()) {
+  const cutoff = now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+  await storage.batch(async () => {
+    for (const contact of await contactStore.getDeleted()) {
+      if (Date.parse(contact.deletedAt ?? "") < cutoff) {
+        await contactStore.destroy(contact.id);
+      }
+    }
+  });
+}
+
+// PURGE EXPIRED CONTACTS NOW AND THEN: purgeExpiredContacts(), but only if
+// it hasn't run for PURGE_INTERVAL. The contact list is loaded far too often
+// to go through the whole trash every time, and an hour late makes no
+// difference to something kept for days
+const PURGE_INTERVAL = 60 * 60 * 1000;
+let lastPurge = 0;
+async function purgeExpiredContactsNowAndThen(now = new Date()) {
+  if (now.getTime() - lastPurge < PURGE_INTERVAL) return;
+  lastPurge = now.getTime();
+  await purgeExpiredContacts(now);
+}
+
+// PURGE DATE: When a contact in the trash will be deleted for good
+export function purgeDateFor(contact: ContactRecord): Date {
+  return new Date(
+    Date.parse(contact.deletedAt ?? "") + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+  );
+}
+
+// READ RETENTION DAYS: Parses TRASH_RETENTION_DAYS (default: 30 days)
+// At least a day - with less, a deleted contact could be purged before the
+// "Undo" after deleting it (or the trash page) gets a chance to restore it
+function readRetentionDays(value: string | undefined): number {
+  if (value === undefined || value === "") return 30;
+  const days = Number(value);
+  if (!Number.isFinite(days) || days < 1) {
+    throw new Error(
+      `TRASH_RETENTION_DAYS must be a number of days (1 or more), got "${value}".`,
+    );
+  }
+  return days;
+}
+
+// ============================================================================
+// API TOKENS: Keys for scripts and other services using /api/...
+// ============================================================================
+
+// GET API TOKENS: Every token the user has made, newest first
+export async function getApiTokens(userId: string): Promise<ApiToken[]> {
+  return (await apiTokensTable.all())
+    .filter((token) => token.userId === userId)
+    .sort(sortBy("-createdAt"));
+}
+
+// CREATE API TOKEN: Makes a new token
+// Returns the secret too - it's only ever available right here, so the
+// page that creates the token has to show it straight away
+// scope "calendar" makes a token that only opens the calendar feed
+export async function createApiToken(
+  userId: string,
+  name: string,
+  scope?: ApiToken["scope"],
+) {
+  // "abk_" (address book key) makes leaked tokens easy to spot in logs
+  const secret = `abk_${randomBytes(24).toString("base64url")}`;
+  const token = await apiTokensTable.put({
+    id: Math.random().toString(36).substring(2, 9),
+    name,
+    tokenHash: hashToken(secret),
+    createdAt: new Date().toISOString(),
+    userId,
+    scope,
+  });
+  return { secret, token };
+}
+
+// REVOKE API TOKEN: Deletes a token - anything still using it is locked out
+export async function revokeApiToken(userId: string, id: string) {
+  const token = await apiTokensTable.get(id);
+  invariant(token?.userId === userId, `No API token found for ${id}`);
+  await apiTokensTable.remove(id);
+}
+
+// FIND API TOKEN: The token a secret belongs to (null if there isn't one)
+// Also records that the token was just used - at most once per
+// LAST_USED_INTERVAL, so a script (or a calendar app checking for changes)
+// doesn't write the whole database on every request
+const LAST_USED_INTERVAL = 60 * 60 * 1000;
+export async function findApiToken(secret: string): Promise<ApiToken | null> {
+  const hash = Buffer.from(hashToken(secret), "hex");
+  for (const token of await apiTokensTable.all()) {
+    // A token nobody owns yet can't reach anyone's contacts
+    if (!token.userId) continue;
+    // timingSafeEqual takes just as long whether the first or the last
+    // byte differs, so response times don't give away how close a guess was
+    if (timingSafeEqual(hash, Buffer.from(token.tokenHash, "hex"))) {
+      const now = new Date();
+      if (now.getTime() - Date.parse(token.lastUsedAt ?? "") < LAST_USED_INTERVAL) {
+        return token;
+      }
+      return apiTokensTable.put({ ...token, lastUsedAt: now.toISOString() });
+    }
+  }
+  return null;
+}
+
+// HASH TOKEN: SHA-256 of a token's secret, in hex
+// (a plain hash is enough here - unlike passwords, the secrets are long
+// and random, so there's nothing to guess)
+function hashToken(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+// ============================================================================
+// USERS: Accounts and passwords
+// ============================================================================
+
+// GET USER: One user by ID (null if there isn't one)
+export async function getUser(id: string): Promise<User | null> {
+  return usersTable.get(id);
+}
+
+// GET USER BY EMAIL: One user by email address (null if there isn't one)
+// Used to find who to share an address book with
+export async function getUserByEmail(email: string): Promise<User | null> {
+  const normalized = normalizeEmail(email);
+  return (await usersTable.all()).find((user) => user.email === normalized) ?? null;
+}
+
+// CREATE USER: Makes a new account (null if the email is already taken),
+// along with the personal address book every user starts with
+// The very first user also takes over every contact and API token from
+// before there were accounts - the demo contacts, or an address book that
+// was already in use - so nothing is lost when accounts are switched on
+export async function createUser(email: string, password: string): Promise<User | null> {
+  await whenReady();
+  const users = await usersTable.all();
+  const normalized = normalizeEmail(email);
+  if (users.some((user) => user.email === normalized)) return null;
+
+  const user = await usersTable.put({
+    id: Math.random().toString(36).substring(2, 9),
+    email: normalized,
+    passwordHash: await hashPassword(password),
+    createdAt: new Date().toISOString(),
+  });
+
+  const book = await personalBookFor(user.id);
+
+  if (users.length === 0) {
+    for (const contact of await contactsTable.all()) {
+      if (!contact.bookId) await contactsTable.put({ ...contact, bookId: book.id });
+    }
+    for (const token of await apiTokensTable.all()) {
+      if (!token.userId) await apiTokensTable.put({ ...token, userId: user.id });
+    }
+    sortedCache.clear();
+  }
+  return user;
+}
+
+// VERIFY LOGIN: The user with this email and password (null if either is wrong)
+export async function verifyLogin(email: string, password: string): Promise<User | null> {
+  const user = await getUserByEmail(email);
+  if (!user) {
+    // Hash anyway, so a wrong email takes as long as a wrong password -
+    // otherwise response times would reveal which emails have accounts
+    await hashPassword(password);
+    return null;
+  }
+  return (await verifyPassword(password, user.passwordHash)) ? user : null;
+}
+
+// NORMALIZE EMAIL: " Ryan@Example.com " → "ryan@example.com"
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// HASH PASSWORD: Turns a password into something safe to store
+// scrypt is slow on purpose (and uses a lot of memory), so someone who
+// steals the database can't try billions of guesses. The random salt means
+// two users with the same password get different hashes.
+// Stored as "scrypt:<salt>:<hash>", so other schemes could be added later
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptHash(password, salt);
+  return `scrypt:${salt}:${hash.toString("hex")}`;
+}
+
+// VERIFY PASSWORD: Does a password match a stored hash?
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  if (expected.length !== 64) return false;
+  // Compared in constant time, like API tokens (see findApiToken())
+  return timingSafeEqual(await scryptHash(password, salt), expected);
+}
+
+// SCRYPT HASH: Node's scrypt() as a promise (64-byte result)
+function scryptHash(password: string, salt: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, 64, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+// ============================================================================
+// ADDRESS BOOKS: Sets of contacts, and who they're shared with
+// ============================================================================
+
+// GET ADDRESS BOOKS: Every address book a user owns or has been given,
+// their personal one first and the rest by name
+export async function getAddressBooks(userId: string): Promise<AddressBookSummary[]> {
+  await whenReady();
+  const books: AddressBookSummary[] = [];
+  for (const book of await addressBooksTable.all()) {
+    const role = roleIn(book, userId);
+    if (role) books.push({ ...book, role });
+  }
+  return books.sort(
+    (a, b) =>
+      Number(isPersonalFor(b, userId)) - Number(isPersonalFor(a, userId)) ||
+      collator.compare(a.name, b.name),
+  );
+}
+
+// GET ADDRESS BOOK: One address book, if the user can see it (null otherwise)
+export async function getAddressBook(
+  userId: string,
+  bookId: string,
+): Promise<AddressBookSummary | null> {
+  await whenReady();
+  const book = await addressBooksTable.get(bookId);
+  const role = book && roleIn(book, userId);
+  return role ? { ...book, role } : null;
+}
+
+// GET PERSONAL ADDRESS BOOK: The one made when the user signed up
+export async function getPersonalAddressBook(userId: string): Promise<AddressBookSummary> {
+  await whenReady();
+  return { ...(await personalBookFor(userId)), role: "owner" };
+}
+
+// CREATE ADDRESS BOOK: Makes a new, empty address book for a user
+export async function createAddressBook(userId: string, name: string) {
+  await whenReady();
+  return addressBooksTable.put({
+    id: Math.random().toString(36).substring(2, 9),
+    name,
+    ownerId: userId,
+    members: [],
+    createdAt: new Date().toISOString(),
+  });
+}
+
+// RENAME ADDRESS BOOK: Only its owner can
+export async function renameAddressBook(userId: string, bookId: string, name: string) {
+  const book = await ownedBook(userId, bookId);
+  return addressBooksTable.put({ ...book, name });
+}
+
+// DELETE ADDRESS BOOK: Deletes a book and every contact in it, for good
+// (no trash for whole books!). Personal books can't be deleted - every user
+// always has somewhere to put their contacts
+export async function deleteAddressBook(userId: string, bookId: string) {
+  const book = await ownedBook(userId, bookId);
+  invariant(!book.personal, `Address book ${bookId} is a personal one`);
+
+  for (const contact of await contactsTable.all()) {
+    if (contact.bookId === bookId) await contactStore.destroy(contact.id);
+  }
+  for (const organization of await organizationsTable.all()) {
+    if (organization.bookId === bookId) await organizationsTable.remove(organization.id);
+  }
+  await addressBooksTable.remove(bookId);
+}
+
+// SET ADDRESS BOOK MEMBER: Shares a book with someone (or changes what they
+// can do with it), or - with a null role - stops sharing it with them.
+// Only the owner can share, and the owner can't be a member of their own book
+export async function setAddressBookMember(
+  userId: string,
+  bookId: string,
+  memberId: string,
+  role: AddressBookMember["role"] | null,
+) {
+  const book = await ownedBook(userId, bookId);
+  invariant(memberId !== book.ownerId, "The owner can't be a member of their own address book");
+
+  const members = book.members.filter((member) => member.userId !== memberId);
+  if (role) members.push({ userId: memberId, role });
+  return addressBooksTable.put({ ...book, members });
+}
+
+// LEAVE ADDRESS BOOK: Someone a book was shared with gives it back
+export async function leaveAddressBook(userId: string, bookId: string) {
+  await whenReady();
+  const book = await addressBooksTable.get(bookId);
+  invariant(book && book.ownerId !== userId, `No shared address book found for ${bookId}`);
+  return addressBooksTable.put({
+    ...book,
+    members: book.members.filter((member) => member.userId !== userId),
+  });
+}
+
+// ROLE IN: What a user can do with a book (null if it isn't theirs at all)
+function roleIn(book: AddressBook, userId: string): AddressBookRole | null {
+  if (book.ownerId === userId) return "owner";
+  return book.members.find((member) => member.userId === userId)?.role ?? null;
+}
+
+// IS PERSONAL FOR: Is this the user's own personal book? (Someone else's
+// personal book, shared with them, is sorted like any other)
+function isPersonalFor(book: AddressBook, userId: string): boolean {
+  return Boolean(book.personal) && book.ownerId === userId;
+}
+
+// OWNED BOOK: A book the user owns - anything else is an error
+async function ownedBook(userId: string, bookId: string): Promise<AddressBook> {
+  await whenReady();
+  const book = await addressBooksTable.get(bookId);
+  invariant(book?.ownerId === userId, `No address book found for ${bookId}`);
+  return book;
+}
+
+// PERSONAL BOOK FOR: A user's personal book, made if they don't have one yet
+async function personalBookFor(userId: string): Promise<AddressBook> {
+  const existing = (await addressBooksTable.all()).find((book) => isPersonalFor(book, userId));
+  if (existing) return existing;
+  return addressBooksTable.put({
+    id: Math.random().toString(36).substring(2, 9),
+    name: "Personal",
+    ownerId: userId,
+    personal: true,
+    members: [],
+    createdAt: new Date().toISOString(),
+  });
+}
+
+// ============================================================================
+// ORGANIZATIONS: The companies (schools, clubs...) people work at
+// ============================================================================
+// Like contacts, each one belongs to an address book. Contacts link to one
+// by naming it in their "company" field: typing a new company on a contact
+// makes the organization, and renaming an organization renames everyone's
+// company
+
+// GET ORGANIZATIONS: Every organization in the address book, by name, with
+// how many people (not in the trash) work at each
+export async function getOrganizations(bookId: string): Promise<OrganizationSummary[]> {
+  const counts = new Map<string, number>();
+  for (const contact of await contactStore.getAll(bookId)) {
+    if (contact.organizationId) {
+      counts.set(contact.organizationId, (counts.get(contact.organizationId) ?? 0) + 1);
+    }
+  }
+
+  return (await organizationsTable.all())
+    .filter((organization) => organization.bookId === bookId)
+    .map((organization) => ({ ...organization, count: counts.get(organization.id) ?? 0 }))
+    .sort((a, b) => collator.compare(a.name, b.name));
+}
+
+// GET ORGANIZATION: One organization (null if there isn't one, or it's in
+// another address book)
+export async function getOrganization(
+  bookId: string,
+  id: string,
+): Promise<Organization | null> {
+  await whenReady();
+  const organization = await organizationsTable.get(id);
+  return organization?.bookId === bookId ? organization : null;
+}
+
+// CREATE ORGANIZATION: Makes a new organization (null if the address book
+// already has one with that name)
+export async function createOrganization(
+  bookId: string,
+  values: OrganizationMutation & { name: string },
+): Promise<Organization | null> {
+  await whenReady();
+  if (await findOrganization(bookId, values.name)) return null;
+  return organizationsTable.put({
+    ...values,
+    id: Math.random().toString(36).substring(2, 9),
+    bookId,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+// UPDATE ORGANIZATION: Changes an organization (null if it's renamed to a
+// name another one already has). Everyone who works there gets the new name
+// as their company
+export async function updateOrganization(
+  bookId: string,
+  id: string,
+  updates: OrganizationMutation,
+): Promise<Organization | null> {
+  const organization = await getOrganization(bookId, id);
+  invariant(organization, `No organization found for ${id}`);
+
+  const sameName = updates.name ? await findOrganization(bookId, updates.name) : null;
+  if (sameName && sameName.id !== id) return null;
+
+  const updated = await organizationsTable.put({
+    ...organization,
+    ...updates,
+    updatedAt: new Date().toISOString(),
+  });
+  if (updated.name !== organization.name) {
+    // Trashed contacts too, so they're right when they're restored
+    for (const contact of await contactsTable.all()) {
+      if (contact.organizationId === id) {
+        await saveRevision(contact, { company: updated.name });
+      }
+    }
+  }
+  return updated;
+}
+
+// DELETE ORGANIZATION: Deletes an organization for good. The people who
+// worked there keep their job title, but no longer have a company
+export async function deleteOrganization(bookId: string, id: string) {
+  const organization = await getOrganization(bookId, id);
+  invariant(organization, `No organization found for ${id}`);
+
+  // Removed first, so clearing the companies can't link them to it again
+  await organizationsTable.remove(id);
+  for (const contact of await contactsTable.all()) {
+    if (contact.organizationId === id) {
+      await saveRevision(contact, { company: "" });
+    }
+  }
+  return organization;
+}
+
+// FIND ORGANIZATION: The address book's organization with this name
+// ("acme" finds "Acme"), or null
+async function findOrganization(bookId: string, name: string) {
+  const key = normalizeOrganizationName(name).toLowerCase();
+  return (
+    (await organizationsTable.all()).find(
+      (organization) =>
+        organization.bookId === bookId &&
+        normalizeOrganizationName(organization.name).toLowerCase() === key,
+    ) ?? null
+  );
+}
+
+// LINK ORGANIZATION: The organization a contact's company names - found by
+// name, or made if it's new. The company takes the organization's spelling,
+// and no company means no organization
+async function linkOrganization(
+  bookId: string,
+  values: ContactMutation,
+): Promise<{ company?: string; organizationId?: string }> {
+  const name = normalizeOrganizationName(values.company ?? "");
+  if (!name) return { organizationId: undefined };
+
+  const organization =
+    (await findOrganization(bookId, name)) ??
+    (await createOrganization(bookId, { name }));
+  invariant(organization, `Couldn't make organization ${name}`);
+  return { company: organization.name, organizationId: organization.id };
+}
+
+// NORMALIZE ORGANIZATION NAME: "  Acme   Inc " → "Acme Inc"
+function normalizeOrganizationName(name: string): string {
+  return name.trim().replace(/\s+/g, " ");
+}
+
+// ============================================================================
+// INTERACTIONS: Every call, meeting, email and message with a contact
+// ============================================================================
+// Each one belongs to a contact, and goes when the contact is deleted for
+// good. The newest one's date is kept on the contact as lastContactedAt,
+// so the list can be sorted by it without reading every interaction
+
+// GET INTERACTIONS: A contact's timeline, newest first
+export async function getInteractions(
+  bookId: string,
+  contactId: string,
+): Promise<Interaction[]> {
+  await whenReady();
+  return (await interactionsTable.all())
+    .filter(
+      (interaction) =>
+        interaction.bookId === bookId && interaction.contactId === contactId,
+    )
+    .sort(sortBy("-occurredAt", "-createdAt"));
+}
+
+// ADD INTERACTION: Logs a call, meeting... with a contact (the values should
+// already be validated)
+export async function addInteraction(
+  bookId: string,
+  contactId: string,
+  values: InteractionMutation,
+): Promise<Interaction> {
+  const contact = await getContact(bookId, contactId);
+  invariant(contact, `No contact found for ${contactId}`);
+
+  const interaction = await interactionsTable.put({
+    ...values,
+    id: Math.random().toString(36).substring(2, 9),
+    bookId,
+    contactId,
+    createdAt: new Date().toISOString(),
+  });
+  await refreshLastContacted(contactId);
+  return interaction;
+}
+
+// DELETE INTERACTION: Takes an entry out of a contact's timeline
+export async function deleteInteraction(bookId: string, contactId: string, id: string) {
+  const interaction = await interactionsTable.get(id);
+  invariant(
+    interaction?.bookId === bookId && interaction.contactId === contactId,
+    `No interaction ${id} found for ${contactId}`,
+  );
+
+  await interactionsTable.remove(id);
+  await refreshLastContacted(contactId);
+}
+
+// MOVE INTERACTIONS: Gives one contact's timeline (and follow-ups) to
+// another, when merging two contacts into one
+export async function moveInteractions(bookId: string, fromId: string, toId: string) {
+  await whenReady();
+  await storage.batch(async () => {
+    for (const interaction of await interactionsTable.all()) {
+      if (interaction.bookId === bookId && interaction.contactId === fromId) {
+        await interactionsTable.put({ ...interaction, contactId: toId });
+      }
+    }
+    for (const followUp of await followUpsTable.all()) {
+      if (followUp.bookId === bookId && followUp.contactId === fromId) {
+        await followUpsTable.put({ ...followUp, contactId: toId });
+      }
+    }
+    await refreshLastContacted(fromId);
+    await refreshLastContacted(toId);
+  });
+}
+
+// REFRESH LAST CONTACTED: Sets a contact's lastContactedAt to its newest
+// interaction (or clears it, when there are none left). Not a revision -
+// it isn't an edit of the contact. Nothing to do when the contact has just
+// been purged (by another tab, or the trash emptying itself)
+async function refreshLastContacted(contactId: string) {
+  if (!(await contactStore.get(contactId))) return;
+
+  let newest: string | undefined;
+  for (const interaction of await interactionsTable.all()) {
+    if (
+      interaction.contactId === contactId &&
+      (!newest || interaction.occurredAt > newest)
+    ) {
+      newest = interaction.occurredAt;
+    }
+  }
+  await contactStore.set(contactId, { lastContactedAt: newest });
+}
+
+// ============================================================================
+// FOLLOW-UPS: Reminders to get back in touch with someone
+// ============================================================================
+// Each one is due on a day ("YYYY-MM-DD", in UTC like every other date).
+// One-off follow-ups go away when they're done; repeating ones ("every 2
+// weeks") move on to their next due date instead
+
+// GET FOLLOW-UPS: A contact's follow-ups, soonest first
+export async function getFollowUps(bookId: string, contactId: string): Promise<FollowUp[]> {
+  await whenReady();
+  return (await followUpsTable.all())
+    .filter((followUp) => followUp.bookId === bookId && followUp.contactId === contactId)
+    .sort(sortBy("dueOn", "createdAt"));
+}
+
+// GET DUE FOLLOW-UPS: Every follow-up in the address book that's overdue,
+// or due in the next few days - soonest (most overdue) first. Follow-ups of
+// contacts in the trash wait there with them
+export async function getDueFollowUps(
+  bookId: string,
+  days: number,
+  now = new Date(),
+): Promise<DueFollowUp[]> {
+  const from = today(now);
+  const contacts = new Map(
+    (await contactStore.getAll(bookId)).map((contact) => [contact.id, contact]),
+  );
+
+  const due: DueFollowUp[] = [];
+  for (const followUp of await followUpsTable.all()) {
+    const contact = followUp.bookId === bookId ? contacts.get(followUp.contactId) : undefined;
+    const inDays = daysBetween(from, followUp.dueOn);
+    if (contact && inDays <= days) {
+      due.push({ followUp, contact, inDays });
+    }
+  }
+  return due.sort((a, b) => a.inDays - b.inDays);
+}
+
+// ADD FOLLOW-UP: Sets a reminder for a contact (the values should already
+// be validated)
+export async function addFollowUp(
+  bookId: string,
+  contactId: string,
+  values: FollowUpMutation,
+): Promise<FollowUp> {
+  const contact = await getContact(bookId, contactId);
+  invariant(contact, `No contact found for ${contactId}`);
+
+  return followUpsTable.put({
+    ...values,
+    id: Math.random().toString(36).substring(2, 9),
+    bookId,
+    contactId,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+// GET FOLLOW-UP: One follow-up (null if there isn't one, or it's in
+// another address book)
+export async function getFollowUp(bookId: string, id: string): Promise<FollowUp | null> {
+  await whenReady();
+  const followUp = await followUpsTable.get(id);
+  return followUp?.bookId === bookId ? followUp : null;
+}
+
+// COMPLETE FOLLOW-UP: Marks a follow-up done. A repeating one rolls forward
+// a step at a time until it's due after today (so one that was left for a
+// month doesn't come straight back); a one-off one is deleted.
+// Returns the rolled-forward follow-up, or null when it's gone
+export async function completeFollowUp(
+  bookId: string,
+  id: string,
+  now = new Date(),
+): Promise<FollowUp | null> {
+  const followUp = await getFollowUp(bookId, id);
+  invariant(followUp, `No follow-up found for ${id}`);
+
+  if (!followUp.everyWeeks) {
+    await followUpsTable.remove(id);
+    return null;
+  }
+
+  const from = today(now);
+  let dueOn = followUp.dueOn;
+  do {
+    dueOn = addDays(dueOn, followUp.everyWeeks * 7);
+  } while (dueOn <= from);
+  return followUpsTable.put({ ...followUp, dueOn });
+}
+
+// SNOOZE FOLLOW-UP: Puts a follow-up off for a few days - counted from
+// today when it's already overdue
+export async function snoozeFollowUp(
+  bookId: string,
+  id: string,
+  days: number,
+  now = new Date(),
+): Promise<FollowUp> {
+  const followUp = await getFollowUp(bookId, id);
+  invariant(followUp, `No follow-up found for ${id}`);
+
+  const from = today(now);
+  const start = followUp.dueOn > from ? followUp.dueOn : from;
+  return followUpsTable.put({ ...followUp, dueOn: addDays(start, days) });
+}
+
+// RESCHEDULE FOLLOW-UP: Moves a follow-up to another day (repeating ones
+// carry on from there)
+export async function rescheduleFollowUp(
+  bookId: string,
+  id: string,
+  dueOn: string,
+): Promise<FollowUp> {
+  const followUp = await getFollowUp(bookId, id);
+  invariant(followUp, `No follow-up found for ${id}`);
+  return followUpsTable.put({ ...followUp, dueOn });
+}
+
+// DELETE FOLLOW-UP: Removes a follow-up, repeating or not
+export async function deleteFollowUp(bookId: string, id: string) {
+  const followUp = await getFollowUp(bookId, id);
+  invariant(followUp, `No follow-up found for ${id}`);
+  await followUpsTable.remove(id);
 }
 
 // ============================================================================
 // INITIAL DATA: Pre-populate the database with some contacts
 // ============================================================================
 // This array contains starter data - famous people from the React Router team
-[
+const SEED_CONTACTS = [
   {
     avatar:
       "https://sessionize.com/image/124e-400o400o2-wHVdAuNaxi8KJrgtN3ZKci.jpg",
@@ -388,24 +2122,40 @@ export async function deleteContact(id: string) {
     last: "Jensen",
     twitter: "@jenseng",
   },
-].forEach((contact) => {
-  // For each contact in the array, create it in our fake database
-  fakeContacts.create({
-    ...contact, // Spread all the contact properties
-    // Generate a consistent ID from the person's name
-    // Example: "Ryan Florence" becomes "ryan-florence"
-    id: `${contact.first
-      .toLowerCase()           // Make lowercase: "ryan"
-      .split(" ")              // Split on spaces: ["ryan"]
-      .join("_")}-${contact.last.toLocaleLowerCase()}`, // Join with underscore and add last name
-  });
-});
+];
+
+// SEED IF EMPTY: Only fill in the starter data on a brand new database
+// With the JSON backend this runs once, the very first time the app starts.
+// With the memory backend the database is always empty on boot, so it
+// runs on every restart (just like the old fake database did).
+// The demo contacts don't belong to anyone until the first user signs up
+// (see createUser())
+async function seedIfEmpty() {
+  // Anything already stored? Then leave the users' data alone
+  if ((await contactsTable.count()) > 0 || (await usersTable.count()) > 0) return;
+
+  for (const contact of SEED_CONTACTS) {
+    await insertContact({
+      ...contact, // Spread all the contact properties
+      // Generate a consistent ID from the person's name
+      // Example: "Ryan Florence" becomes "ryan-florence"
+      id: `${contact.first
+        .toLowerCase()           // Make lowercase: "ryan"
+        .split(" ")              // Split on spaces: ["ryan"]
+        .join("_")}-${contact.last.toLocaleLowerCase()}`, // Join with underscore and add last name
+    });
+  }
+}
 
 // ============================================================================
 // HOW DATA.TS CONNECTS TO OTHER FILES:
 // ============================================================================
 // 1. Route components (like sidebar.tsx, contact.tsx) import functions from here
 // 2. They call functions like getContacts(), updateContact(), etc.
-// 3. These functions interact with the fakeContacts object (our "database")
+// 3. These functions interact with contactStore, which reads and writes
+//    through storage.server.ts (memory or a JSON file on disk)
+//    Every one of them takes the ID of the address book to use (picked by
+//    requireAddressBook() in auth.server.ts), which keeps each book's
+//    contacts to the people it's shared with
 // 4. The data is returned to the route components
 // 5. The route components display the data to the user
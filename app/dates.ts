@@ -0,0 +1,155 @@
+// ============================================================================
+// DATES.TS - Birthdays, anniversaries and other dates worth remembering
+// ============================================================================
+// A contact can have any number of dates, each one of:
+//
+//   { label: "birthday",    date: "1985-04-12" }
+//   { label: "anniversary", date: "2012-09-01" }
+//   { label: "custom",      date: "2019-05-20", title: "Met at React Conf" }
+//
+// Dates are stored as "YYYY-MM-DD" and come round every year, so this file
+// works out when one happens next, and how many years it will have been.
+// Everything is in UTC, so the server and the browser always agree on
+// what "today" is.
+//
+// This file has no server-only code, so pages can use it too.
+
+// Import the type describing one date
+import type { ContactDate, DateLabel } from "./data";
+
+// ============================================================================
+// LABELS: The kinds of date a contact can have
+// ============================================================================
+export const DATE_LABELS: DateLabel[] = ["birthday", "anniversary", "custom"];
+
+// How many days ahead the home page's "Coming up" list looks
+export const UPCOMING_DAYS = 30;
+
+// "1985-04-12" - the format <input type="date"> sends, and what we store
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// ============================================================================
+// IS VALID DATE: True for real dates like "1985-04-12"
+// ============================================================================
+// Checks the day exists too - "2023-02-30" matches the pattern, but isn't one
+export function isValidDate(value: string): boolean {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return false;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+}
+
+// ============================================================================
+// TODAY: The current date as "YYYY-MM-DD" (in UTC)
+// ============================================================================
+export function today(now = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+// ============================================================================
+// NEXT OCCURRENCE: When a yearly date comes round next (today counts)
+// ============================================================================
+// nextOccurrence("1985-04-12", "2024-05-01") → "2025-04-12"
+// Someone born on February 29th celebrates on the 28th in other years
+export function nextOccurrence(date: string, from: string): string {
+  const [, month, day] = date.split("-").map(Number);
+  const year = Number(from.slice(0, 4));
+  const thisYear = onDay(year, month, day);
+  return thisYear >= from ? thisYear : onDay(year + 1, month, day);
+}
+
+// ============================================================================
+// DAYS BETWEEN: How many days from one "YYYY-MM-DD" to another
+// ============================================================================
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000));
+}
+
+// ============================================================================
+// ADD DAYS: A "YYYY-MM-DD" date so many days later (or earlier, if negative)
+// ============================================================================
+// addDays("2024-02-28", 2) → "2024-03-01"
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+}
+
+// ============================================================================
+// YEARS SINCE: How many years a date has been going by an occurrence of it
+// ============================================================================
+// yearsSince("1985-04-12", "2025-04-12") → 40 (their 40th birthday)
+export function yearsSince(date: string, occurrence: string): number {
+  return Number(occurrence.slice(0, 4)) - Number(date.slice(0, 4));
+}
+
+// ============================================================================
+// DESCRIBE DATE: What a date is, for people - "Birthday", or its title
+// ============================================================================
+export function describeDate(entry: ContactDate): string {
+  if (entry.label === "birthday") return "Birthday";
+  if (entry.label === "anniversary") return "Anniversary";
+  return entry.title || "Date";
+}
+
+// ============================================================================
+// FORMAT DATE: "1985-04-12" → "April 12, 1985"
+// ============================================================================
+// withYear: false leaves the year off ("April 12"), for yearly reminders
+export function formatDate(date: string, withYear = true): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    ...(withYear ? { year: "numeric" } : {}),
+    timeZone: "UTC",
+  });
+}
+
+// ============================================================================
+// FORMAT DATE TIME: "2024-05-01T12:34:00.000Z" → "May 1, 2024, 12:34 PM UTC"
+// ============================================================================
+// For timestamps (when an edit was saved, when a call happened). Always in
+// UTC: the page is rendered on the server first, and the server's time zone
+// may not match the browser's (React would complain they differ)
+export function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone: "UTC",
+  }) + " UTC";
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// ON DAY: A month and day in one year, as "YYYY-MM-DD" - February 29th
+// becomes the 28th when that year doesn't have one
+function onDay(year: number, month: number, day: number): string {
+  const leap = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+  const safeDay = month === 2 && day === 29 && !leap ? 28 : day;
+  return `${String(year).padStart(4, "0")}-${pad(month)}-${pad(safeDay)}`;
+}
+
+// PAD: 4 → "04"
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+// ============================================================================
+// HOW DATES.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. contact-schema.ts checks dates with isValidDate()
+// 2. data.ts's getUpcomingDates() uses nextOccurrence() for the home page
+// 3. home.tsx and contact.tsx show dates with describeDate() and formatDate()
+// 4. icalendar.ts turns every date into a yearly event for the .ics feed
+// 5. edit-contact.tsx offers the DATE_LABELS in each date row's dropdown
+// 6. contact-history.tsx and contact.tsx's timeline show timestamps with
+//    formatDateTime()
+// 7. data.ts moves follow-ups along with addDays() (snoozing, and rolling
+//    repeating ones forward)
@@ -0,0 +1,99 @@
+// ============================================================================
+// DIFF.TS - Showing what changed between two versions of something
+// ============================================================================
+// The contact history page shows edits the way a code review does:
+// removed words struck through, added words highlighted.
+//
+//   diffWords("Met at React Conf", "Met at Remix Conf")
+//   → same "Met at ", removed "React", added "Remix", same " Conf"
+//
+// This file has no server-only code - it's plain string handling.
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+// DiffPart: One run of text that was kept, removed or added
+export type DiffPart = {
+  type: "same" | "removed" | "added";
+  text: string;
+};
+
+// ============================================================================
+// DIFF WORDS: Compares two texts word by word
+// ============================================================================
+// Whitespace counts as its own "word", so line breaks in notes survive
+export function diffWords(before: string, after: string): DiffPart[] {
+  // "a b" → ["a", " ", "b"]
+  const oldWords = before.split(/(\s+)/).filter(Boolean);
+  const newWords = after.split(/(\s+)/).filter(Boolean);
+
+  // common[i][j] = how many words the rest of both texts have in common
+  // (from oldWords[i] and newWords[j] onwards) - the "longest common
+  // subsequence" table. Filled in from the end backwards
+  const common = Array.from({ length: oldWords.length + 1 }, () =>
+    new Array<number>(newWords.length + 1).fill(0),
+  );
+  for (let i = oldWords.length - 1; i >= 0; i--) {
+    for (let j = newWords.length - 1; j >= 0; j--) {
+      common[i][j] =
+        oldWords[i] === newWords[j]
+          ? common[i + 1][j + 1] + 1
+          : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  // Walk the table from the start, always taking the step that keeps the
+  // most words in common
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldWords.length || j < newWords.length) {
+    if (i < oldWords.length && j < newWords.length && oldWords[i] === newWords[j]) {
+      addPart(parts, "same", oldWords[i]);
+      i++;
+      j++;
+    } else if (i < oldWords.length && (j === newWords.length || common[i + 1][j] >= common[i][j + 1])) {
+      // On a tie, show what was removed before what replaced it
+      addPart(parts, "removed", oldWords[i]);
+      i++;
+    } else {
+      addPart(parts, "added", newWords[j]);
+      j++;
+    }
+  }
+
+  return parts;
+}
+
+// ============================================================================
+// DIFF LISTS: Which entries were removed from / added to a list
+// ============================================================================
+// ["a", "b"] → ["b", "c"] gives { removed: ["a"], added: ["c"] }
+export function diffLists(before: string[], after: string[]) {
+  return {
+    removed: before.filter((item) => !after.includes(item)),
+    added: after.filter((item) => !before.includes(item)),
+  };
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// ADD PART: Appends text, joining it onto the last part if it's the same type
+// (so "removed a", "removed b" becomes one "removed a b")
+function addPart(parts: DiffPart[], type: DiffPart["type"], text: string) {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+// ============================================================================
+// HOW DIFF.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. contact-history.tsx uses diffWords() for text fields (names, notes...)
+//    and diffLists() for lists (phones, emails, addresses, tags)
@@ -0,0 +1,180 @@
+// ============================================================================
+// EXPORT.TS - Turning contacts into downloadable files
+// ============================================================================
+// Shared by the export routes (export-contacts.tsx and export-contact.tsx).
+// Supports two formats:
+//   - "vcf" → vCard 4.0, for phones and other address books
+//   - "csv" → a spreadsheet with one row per contact
+
+// Import the writers for each format
+import { toCsvRow } from "./csv";
+import { toVCard } from "./vcard";
+
+// Import the contact type
+import type { ContactRecord } from "./data";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+// The file formats we can export
+export type ExportFormat = "vcf" | "csv";
+
+// IS EXPORT FORMAT: Checks a URL parameter is a format we support
+export function isExportFormat(value: string | undefined): value is ExportFormat {
+  return value === "vcf" || value === "csv";
+}
+
+// ============================================================================
+// CREATE EXPORT RESPONSE: A file download containing the given contacts
+// ============================================================================
+// The file is streamed one contact at a time, so even a huge address book
+// starts downloading straight away instead of being built in memory first
+export function createExportResponse(
+  contacts: ContactRecord[],
+  format: ExportFormat,
+  baseName: string, // File name without extension, e.g. "contacts"
+): Response {
+  // Each format is a list of text chunks: a header (CSV only), then one per contact
+  const chunks = format === "vcf" ? vCardChunks(contacts) : csvChunks(contacts);
+
+  // A stream that hands out one chunk each time the browser wants more
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const next = chunks.next();
+      if (next.done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(next.value));
+      }
+    },
+  });
+
+  const fileName = `${baseName}.${format}`;
+  return new Response(body, {
+    headers: {
+      "Content-Type":
+        format === "vcf"
+          ? "text/vcard; charset=utf-8"
+          : "text/csv; charset=utf-8",
+      // "attachment" makes the browser download it instead of showing it.
+      // filename= is for old browsers (ASCII only), filename*= supports any name
+      "Content-Disposition": `attachment; filename="${asciiFileName(fileName)}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      // Contacts are private - don't let proxies keep a copy
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
+
+// ============================================================================
+// FILE NAME FOR: A tidy file name based on a contact or search
+// ============================================================================
+// "Ryan Florence" → "ryan-florence", "" → the fallback
+export function fileNameFor(text: string, fallback: string): string {
+  const slug = text
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}]+/gu, "-") // Anything that isn't a letter or number becomes "-"
+    .replace(/^-+|-+$/g, "");          // No dashes at the start or end
+  return slug.slice(0, 60) || fallback;
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// VCARD CHUNKS: One vCard per contact
+function* vCardChunks(contacts: ContactRecord[]) {
+  for (const contact of contacts) {
+    yield toVCard(contact);
+  }
+}
+
+// CSV CHUNKS: A header row, then one row per contact
+// Phones, emails and addresses get numbered columns ("Phone 1 - Value",
+// "Phone 2 - Value"...) - as many as the contact with the most of them needs
+function* csvChunks(contacts: ContactRecord[]) {
+  // (reduce rather than Math.max(...list) - spreading one argument per
+  // contact overflows the stack in a big address book)
+  const phoneCount = contacts.reduce((max, c) => Math.max(max, c.phones?.length ?? 0), 0);
+  const emailCount = contacts.reduce((max, c) => Math.max(max, c.emails?.length ?? 0), 0);
+  const addressCount = contacts.reduce((max, c) => Math.max(max, c.addresses?.length ?? 0), 0);
+
+  yield toCsvRow([
+    "ID",
+    "First Name",
+    "Last Name",
+    "Company",
+    "Job Title",
+    "Twitter",
+    "Avatar",
+    "Notes",
+    "Favorite",
+    "Tags",
+    "Created At",
+    ...numbered(phoneCount, (n) => [`Phone ${n} - Label`, `Phone ${n} - Value`]),
+    ...numbered(emailCount, (n) => [`Email ${n} - Label`, `Email ${n} - Value`]),
+    ...numbered(addressCount, (n) => [
+      `Address ${n} - Label`,
+      `Address ${n} - Street`,
+      `Address ${n} - City`,
+      `Address ${n} - Region`,
+      `Address ${n} - Postal Code`,
+      `Address ${n} - Country`,
+    ]),
+  ]);
+
+  for (const contact of contacts) {
+    yield toCsvRow([
+      contact.id,
+      contact.first ?? "",
+      contact.last ?? "",
+      contact.company ?? "",
+      contact.title ?? "",
+      contact.twitter ?? "",
+      contact.avatar ?? "",
+      contact.notes ?? "",
+      contact.favorite ? "yes" : "no",
+      (contact.tags ?? []).join("; "),
+      contact.createdAt,
+      ...numbered(phoneCount, (n) => {
+        const phone = contact.phones?.[n - 1];
+        return [phone?.label ?? "", phone?.number ?? ""];
+      }),
+      ...numbered(emailCount, (n) => {
+        const email = contact.emails?.[n - 1];
+        return [email?.label ?? "", email?.address ?? ""];
+      }),
+      ...numbered(addressCount, (n) => {
+        const address = contact.addresses?.[n - 1];
+        return [
+          address?.label ?? "",
+          address?.street ?? "",
+          address?.city ?? "",
+          address?.region ?? "",
+          address?.postalCode ?? "",
+          address?.country ?? "",
+        ];
+      }),
+    ]);
+  }
+}
+
+// NUMBERED: Runs cells(1), cells(2)... cells(count) and flattens the results
+function numbered(count: number, cells: (n: number) => string[]): string[] {
+  return Array.from({ length: count }, (_, index) => cells(index + 1)).flat();
+}
+
+// ASCII FILE NAME: Replaces anything outside plain ASCII (and quotes) with "_"
+function asciiFileName(name: string): string {
+  return name.replace(/[^\x20-\x7e]|"/g, "_");
+}
+
+// ============================================================================
+// HOW EXPORT.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. export-contacts.tsx (whole list / search results) and export-contact.tsx
+//    (one contact) load contacts from data.ts
+// 2. They call createExportResponse() to build the download
+// 3. Each contact is written with toVCard() (vcard.ts) or toCsvRow() (csv.ts)
@@ -0,0 +1,68 @@
+// ============================================================================
+// FOLLOW-UPS.TS - Reminders to get back in touch with someone
+// ============================================================================
+// A follow-up says "get in touch with this person on this day" - once, or
+// over and over ("every 2 weeks"). The home page lists the ones that are
+// overdue or coming up, with buttons to:
+//
+//   Done        A one-off follow-up goes away; a repeating one moves on
+//   Snooze      Put it off for a day, a few days or a week
+//   Reschedule  Pick another day
+//
+// The follow-ups themselves are stored by data.ts.
+//
+// This file has no server-only code, so pages can use it for their labels.
+
+// How many days ahead the home page's follow-up list looks
+export const FOLLOW_UP_DAYS = 7;
+
+// The longest a repeating follow-up can wait between times (a year)
+export const FOLLOW_UP_MAX_WEEKS = 52;
+
+// ============================================================================
+// SNOOZE OPTIONS: How long "Snooze" can put a follow-up off for
+// ============================================================================
+export const SNOOZE_OPTIONS: { days: number; label: string }[] = [
+  { days: 1, label: "1 day" },
+  { days: 3, label: "3 days" },
+  { days: 7, label: "1 week" },
+];
+
+// ============================================================================
+// IS SNOOZE DAYS: True for the lengths above (the form can't ask for others)
+// ============================================================================
+export function isSnoozeDays(value: number): boolean {
+  return SNOOZE_OPTIONS.some(({ days }) => days === value);
+}
+
+// ============================================================================
+// DESCRIBE REPEAT: 1 → "Every week", 3 → "Every 3 weeks", none → ""
+// ============================================================================
+export function describeRepeat(everyWeeks: number | undefined): string {
+  if (!everyWeeks) return "";
+  return everyWeeks === 1 ? "Every week" : `Every ${everyWeeks} weeks`;
+}
+
+// ============================================================================
+// DUE LABEL: When a follow-up is due, counted from today
+// ============================================================================
+// -3 → "3 days overdue", -1 → "Yesterday", 0 → "Today", 1 → "Tomorrow",
+// 5 → "In 5 days"
+export function dueLabel(inDays: number): string {
+  if (inDays < -1) return `${-inDays} days overdue`;
+  if (inDays === -1) return "Yesterday";
+  if (inDays === 0) return "Today";
+  if (inDays === 1) return "Tomorrow";
+  return `In ${inDays} days`;
+}
+
+// ============================================================================
+// HOW FOLLOW-UPS.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. home.tsx lists the follow-ups due in the next FOLLOW_UP_DAYS, with
+//    dueLabel(), describeRepeat() and the SNOOZE_OPTIONS
+// 2. contact.tsx shows a contact's follow-ups and the form to add one
+// 3. routes/follow-ups.tsx only accepts snoozes from SNOOZE_OPTIONS
+//    (isSnoozeDays()), and contact-schema.ts caps repeats at
+//    FOLLOW_UP_MAX_WEEKS
+// 4. data.ts stores them, and rolls repeating ones forward when they're done
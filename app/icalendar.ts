@@ -0,0 +1,120 @@
+// ============================================================================
+// ICALENDAR.TS - Writing contacts' dates as an .ics calendar
+// ============================================================================
+// Calendar apps (Google Calendar, Apple Calendar, Outlook...) can subscribe
+// to an .ics URL and check it for changes every few hours. Every birthday,
+// anniversary and custom date becomes an all-day event that repeats yearly:
+//
+//   BEGIN:VEVENT
+//   UID:ryan-florence.birthday.1985-04-12@contacts
+//   DTSTART;VALUE=DATE:19850412
+//   RRULE:FREQ=YEARLY
+//   SUMMARY:Ryan Florence's birthday
+//   END:VEVENT
+//
+// This file has no server-only code - it's plain string handling, like vcard.ts.
+
+// Import the types describing contacts and their dates
+import type { ContactDate, ContactRecord } from "./data";
+
+// Import the line folding (the same as in vCards)
+import { foldLine } from "./vcard";
+
+// Import the text normalizing used for comparing names
+import { normalizeText } from "./matching";
+
+// ============================================================================
+// TO ICALENDAR: Writes every date of the given contacts as one calendar
+// ============================================================================
+// name is what calendar apps call the subscription, e.g. "Personal"
+export function toICalendar(contacts: ContactRecord[], name: string): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//React Router Contacts//Dates//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${escapeText(`${name} - dates`)}`,
+  ];
+
+  for (const contact of contacts) {
+    const uids = new Set<string>();
+    for (const entry of contact.dates ?? []) {
+      // Stays the same every time the feed is read, so calendar apps
+      // update the event instead of adding it again. Made from the date
+      // itself (not its place in the list), so deleting or reordering
+      // another date doesn't change it - and the same date twice is one event
+      const uid = eventUid(contact, entry);
+      if (uids.has(uid)) continue;
+      uids.add(uid);
+
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${escapeText(uid)}@contacts`,
+        `DTSTAMP:${timestamp(contact.updatedAt ?? contact.createdAt)}`,
+        `DTSTART;VALUE=DATE:${entry.date.replace(/-/g, "")}`,
+        recurrenceRule(entry.date),
+        `SUMMARY:${escapeText(summary(contact, entry))}`,
+        // All-day reminders shouldn't make anyone look busy
+        "TRANSP:TRANSPARENT",
+        "END:VEVENT",
+      );
+    }
+  }
+  lines.push("END:VCALENDAR");
+
+  // Like vCards: CRLF line endings, and long lines folded
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// EVENT UID: "ryan-florence.birthday.1985-04-12", and the title too for
+// custom dates ("ryan-florence.custom.2015-03-10.met-at-react-conf")
+function eventUid(contact: ContactRecord, entry: ContactDate): string {
+  const title =
+    entry.label === "custom" ? normalizeText(entry.title).replace(/ /g, "-") : "";
+  return [contact.id, entry.label, entry.date, title].filter(Boolean).join(".");
+}
+
+// SUMMARY: The event's title - "Ryan Florence's birthday",
+// "Ryan Florence: Met at React Conf"
+function summary(contact: ContactRecord, entry: ContactDate): string {
+  const name = [contact.first, contact.last].filter(Boolean).join(" ") || "No Name";
+  if (entry.label === "birthday") return `${name}'s birthday`;
+  if (entry.label === "anniversary") return `${name}'s anniversary`;
+  return `${name}: ${entry.title || "Date"}`;
+}
+
+// RECURRENCE RULE: Every year on the same day - except February 29th, which
+// falls on the last day of February (the 28th when there's no 29th)
+function recurrenceRule(date: string): string {
+  return date.endsWith("-02-29")
+    ? "RRULE:FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1"
+    : "RRULE:FREQ=YEARLY";
+}
+
+// TIMESTAMP: "2024-05-01T12:34:56.789Z" → "20240501T123456Z"
+function timestamp(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+}
+
+// ESCAPE TEXT: Commas, semicolons, backslashes and line breaks get a "\"
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/,/g, "\\,")
+    .replace(/;/g, "\\;")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+// ============================================================================
+// HOW ICALENDAR.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes/calendar-feed.tsx calls toICalendar() for the /calendar.ics feed
+// 2. The dates come from the contact edit form (edit-contact.tsx), checked by
+//    contact-schema.ts
+// 3. Long lines are folded by foldLine() from vcard.ts
+// 4. Custom dates' titles go into their event UIDs through normalizeText()
+//    from matching.ts
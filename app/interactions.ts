@@ -0,0 +1,52 @@
+// ============================================================================
+// INTERACTIONS.TS - The kinds of entry in a contact's timeline
+// ============================================================================
+// Every call, meeting, email or message with a contact can be logged on
+// their page, with a few words about it:
+//
+//   { kind: "call", body: "Talked about the conference", occurredAt: "2025-05-01T14:30:00.000Z" }
+//
+// The newest one is the contact's "last contacted" date, which the sidebar
+// can sort by. The entries themselves are stored by data.ts.
+//
+// This file has no server-only code, so pages can use it for their labels.
+
+// Import the type naming every kind of interaction
+import type { InteractionKind } from "./data";
+
+// ============================================================================
+// INTERACTION KINDS: Every kind, as the page shows it
+// ============================================================================
+export const INTERACTION_KINDS: { kind: InteractionKind; label: string; icon: string }[] = [
+  { kind: "call", label: "Call", icon: "☎" },
+  { kind: "meeting", label: "Meeting", icon: "☕" },
+  { kind: "email", label: "Email", icon: "✉" },
+  { kind: "message", label: "Message", icon: "✎" },
+];
+
+// ============================================================================
+// IS INTERACTION KIND: True for the kinds above
+// ============================================================================
+export function isInteractionKind(value: unknown): value is InteractionKind {
+  return INTERACTION_KINDS.some(({ kind }) => kind === value);
+}
+
+// ============================================================================
+// INTERACTION LABEL: "call" → "Call" (and its icon, for the timeline)
+// ============================================================================
+export function interactionLabel(kind: InteractionKind): string {
+  return INTERACTION_KINDS.find((option) => option.kind === kind)?.label ?? "Other";
+}
+
+export function interactionIcon(kind: InteractionKind): string {
+  return INTERACTION_KINDS.find((option) => option.kind === kind)?.icon ?? "•";
+}
+
+// ============================================================================
+// HOW INTERACTIONS.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. contact-schema.ts only lets known kinds through (isInteractionKind())
+// 2. contact.tsx offers INTERACTION_KINDS in the "Log" form, and labels each
+//    entry of the timeline with interactionLabel() and interactionIcon()
+// 3. data.ts stores the entries, and works out each contact's
+//    lastContactedAt from them
@@ -2,10 +2,14 @@
 // SIDEBAR.TSX - The main layout with sidebar navigation
 // ============================================================================
 // This component shows on most pages and provides:
-// 1. A sidebar with a list of contacts
+// 1. A sidebar with a list of contacts (loaded a page at a time, and only
+//    the rows on screen are drawn - so thousands of contacts stay fast)
 // 2. A search bar to filter contacts
 // 3. A "New" button to create contacts
-// 4. A main content area where child routes appear
+// 4. A menu to switch between the user's address books
+// 5. A main content area where child routes appear
+// 6. Keyboard shortcuts, a command palette (Ctrl+K) and a list of the
+//    shortcuts ("?")
 
 // Import React Router components we need
 import {
@@ -13,18 +17,60 @@ import {
   Link,           // For navigation without page reload
   NavLink,        // Like Link but adds CSS classes for active/pending states
   Outlet,         // Placeholder where child routes appear
+  data,           // Lets a loader send headers (like Set-Cookie) with its data
+  useFetcher,     // Hook to load data without navigating (more of the list)
+  useNavigate,    // Hook to change pages from code (the organization menu)
   useNavigation,  // Hook to check navigation status (loading, etc.)
+  useParams,      // Hook to read the URL's parameters (the open contact)
   useSubmit,      // Hook to submit forms programmatically
 } from "react-router";
 
-// Import our data fetching function
-import { getContacts } from "../data";
+// Import our data fetching functions
+import type { ContactSection, ContactSort } from "../data";
+import { getAddressBooks, getOrganizations, getTags, isContactSort } from "../data";
+import { loadContactListPage } from "../contact-list.server";
+
+// Import the session helpers (for the "Undo" message after deleting)
+import { requireAddressBook, requireUser } from "../auth.server";
+import { commitSession, getSession } from "../sessions.server";
+
+// Import the search helpers (for highlighting what matched, and for the
+// command palette's loose matching)
+import { fuzzyScore, highlightTerms, parseQuery, splitHighlights } from "../search";
+
+// Import the keyboard shortcuts (and the list the help overlay shows)
+import { SHORTCUTS, useShortcuts } from "../shortcuts";
 
 // Import TypeScript types for this route
 import type { Route } from "./+types/sidebar";
+import type { loader as contactListLoader } from "../routes/contact-list";
+import type { action as bulkAction } from "../routes/bulk-contacts";
+import type { loader as paletteLoader } from "../routes/command-palette";
+
+// Import React hooks (and Fragment, for keyed groups of elements)
+import { Fragment, useEffect, useRef, useState } from "react";
+
+// How tall one row of the contact list is, in pixels. Every row is the same
+// height, so the list can work out which rows are on screen without
+// measuring them
+const ROW_HEIGHT = 44;
+
+// Rows drawn above and below the visible ones, so scrolling doesn't flash
+// empty rows before the next ones are drawn
+const OVERSCAN = 10;
 
-// Import React hook
-import { useEffect } from "react";
+// Contacts per page (the same as getContactsPage()'s default)
+const PAGE_SIZE = 50;
+
+// The sort orders, as the sort menu shows them
+const SORT_LABELS: Record<ContactSort, string> = {
+  last: "Last name",
+  first: "First name",
+  created: "Recently added",
+  updated: "Recently updated",
+  favorites: "Favorites first",
+  contacted: "Recently contacted",
+};
 
 // ============================================================================
 // LOADER FUNCTION: Fetches data before the component renders
@@ -32,8 +78,18 @@ import { useEffect } from "react";
 // This runs on the SERVER before the page loads
 // It fetches the contact list and passes it to the component
 export async function loader({
+  params,  // URL parameters ("tag" on /tags/:tag, "orgId" on /organizations/:orgId)
   request, // The incoming HTTP request object
 }: Route.LoaderArgs) {
+  // Only logged-in users get past this line - anyone else is sent to the
+  // login page (and every page inside this layout with them)
+  const user = await requireUser(request);
+  
+  // The address book the list shows (picked with the switcher below), and
+  // whether the user can change it - viewers don't get "New", "Select" or
+  // the import links
+  const { bookId, canEdit } = await requireAddressBook(request);
+  
   // Create a URL object from the request to access query parameters
   const url = new URL(request.url);
   
@@ -41,12 +97,78 @@ export async function loader({
   // Example: /contacts?q=john would give us "john"
   const q = url.searchParams.get("q");
   
-  // Fetch contacts from our fake database, optionally filtered by query
-  const contacts = await getContacts(q);
+  // On /tags/:tag, the contact list only shows contacts with that tag
+  const tag = params.tag ?? null;
+  
+  // ...and on /organizations/:orgId, only the people who work there
+  const organizationId = params.orgId ?? null;
+  
+  // Get the "sort" parameter (anything we don't know means last name)
+  // Example: /?sort=first lists contacts by first name
+  const sortParam = url.searchParams.get("sort");
+  const sort: ContactSort = isContactSort(sortParam) ? sortParam : "last";
+  
+  // Fetch the first page of the address book's contacts, optionally
+  // filtered by query, tag and organization
+  // (and the tags, organizations and the user's address books at the same time -
+  // Promise.all runs them all at once).
+  // When a contact is open, the page is the one around it, so it shows up
+  // in the list straight away
+  const [list, tags, organizations, books] = await Promise.all([
+    loadContactListPage(bookId, q, {
+      tag,
+      organizationId,
+      sort,
+      around: params.contactId,
+      limit: PAGE_SIZE,
+    }),
+    getTags(bookId),
+    getOrganizations(bookId),
+    getAddressBooks(user.id),
+  ]);
+  
+  // Where the open contact is in the whole list (null if it isn't in it)
+  const activeOffset = list.items.findIndex((item) => item.id === params.contactId);
+  const activeIndex = activeOffset === -1 ? null : list.startIndex + activeOffset;
+  
+  // Work out what to highlight in the list: the searched words in names,
+  // and in the snippets shown for contacts that matched some other field
+  const terms = parseQuery(q ?? "");
+  const highlights = highlightTerms(terms);
+  const snippetHighlights = highlightTerms(terms, "any");
+  
+  // Did the last request delete a contact? Reading a flash value removes
+  // it from the session, so the "Undo" message only shows once
+  const session = await getSession(request.headers.get("Cookie"));
+  const deletedContact = session.get("deletedContact") ?? null;
   
   // Return an object with the data we want to pass to the component
   // This will be available in the component as loaderData
-  return { contacts, q };
+  return data(
+    {
+      activeIndex,
+      bookId,
+      // Only what the switcher needs
+      books: books.map((book) => ({ id: book.id, name: book.name, role: book.role })),
+      canEdit,
+      deletedContact,
+      email: user.email,
+      highlights,
+      list,
+      organizationId,
+      // Only what the filter menu needs
+      organizations: organizations.map(({ id, name, count }) => ({ id, name, count })),
+      q,
+      snippetHighlights,
+      sort,
+      tag,
+      tags,
+    },
+    // Save the session only when a flash was read, so it's cleared
+    deletedContact
+      ? { headers: { "Set-Cookie": await commitSession(session) } }
+      : undefined,
+  );
 }
 
 // ============================================================================
@@ -57,7 +179,65 @@ export default function SidebarLayout({
   loaderData, // The data returned from the loader function above
 }: Route.ComponentProps) {
   // Destructure the data from loaderData
-  const { contacts, q } = loaderData;
+  const {
+    activeIndex,
+    bookId,
+    books,
+    canEdit,
+    deletedContact,
+    email,
+    highlights,
+    list,
+    organizationId,
+    organizations,
+    q,
+    snippetHighlights,
+    sort,
+    tag,
+    tags,
+  } = loaderData;
+  
+  // Links in the sidebar keep the sort order (last name is the default, so
+  // it doesn't need saying)
+  const sortSearch = sort === "last" ? "" : `?sort=${sort}`;
+  
+  // SELECTION MODE: Tick contacts, then act on all of them at once
+  // (selected holds the ticked IDs; allResults means every contact in the
+  // search, even the ones that haven't been loaded into the list)
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [allResults, setAllResults] = useState(false);
+  
+  // A different list (new search, tag, organization, order or address
+  // book) starts a fresh selection
+  useEffect(() => {
+    setSelected(new Set());
+    setAllResults(false);
+  }, [q, sort, tag, organizationId, bookId]);
+  
+  // Switched to a book that's only shared to look at? Nothing to select
+  useEffect(() => {
+    if (!canEdit) setSelecting(false);
+  }, [canEdit]);
+  
+  // Tick or untick some contacts (several at once for a shift-click range)
+  const selectContacts = (ids: string[], checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      for (const id of ids) {
+        if (checked) next.add(id);
+        else next.delete(id);
+      }
+      return next;
+    });
+  };
+  
+  // Leaving selection mode forgets the selection
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelected(new Set());
+    setAllResults(false);
+  };
   
   // useNavigation gives us info about the current navigation state
   // We can use this to show loading indicators
@@ -66,6 +246,71 @@ export default function SidebarLayout({
   // useSubmit gives us a function to submit forms programmatically
   const submit = useSubmit();
   
+  // useNavigate changes the page from code (for the organization menu)
+  const navigate = useNavigate();
+  
+  // The contact being looked at, if any (for the command palette)
+  const { contactId } = useParams();
+  
+  // KEYBOARD: The command palette and the list of shortcuts are only drawn
+  // while they're open
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [helpOpen, setHelpOpen] = useState(false);
+  
+  // Put the cursor in the search box, ready to type over what's there
+  const focusSearch = () => {
+    const searchField = document.getElementById("q");
+    if (searchField instanceof HTMLInputElement) {
+      searchField.focus();
+      searchField.select();
+    }
+  };
+  
+  // The same as pressing "New" (the form below posts to root.tsx)
+  const createContact = () => submit(null, { method: "post" });
+  
+  // The shortcuts that work on every page (j / k are the contact list's,
+  // the ones for the open contact are contact.tsx's)
+  useShortcuts({
+    "/": focusSearch,
+    n: canEdit ? createContact : undefined,
+    "mod+k": () => setPaletteOpen(true),
+    "?": () => setHelpOpen(true),
+  });
+  
+  // What the command palette can do - only what makes sense right now
+  // (viewers can't change anything; "this contact" needs one open)
+  const commands: Command[] = [
+    ...(canEdit ? [{ label: "New contact", shortcut: "n", run: createContact }] : []),
+    { label: "Search contacts", shortcut: "/", run: focusSearch },
+    ...(contactId && canEdit
+      ? [
+          {
+            label: "Edit this contact",
+            shortcut: "e",
+            run: () => navigate(`/contacts/${contactId}/edit`),
+          },
+        ]
+      : []),
+    ...(contactId
+      ? [{ label: "History of this contact", run: () => navigate(`/contacts/${contactId}/history`) }]
+      : []),
+    { label: "Home: follow-ups and dates coming up", run: () => navigate(`/${sortSearch}`) },
+    { label: "Organizations", run: () => navigate("/organizations") },
+    ...(canEdit
+      ? [
+          { label: "Import vCard", run: () => navigate("/import/vcard") },
+          { label: "Import CSV", run: () => navigate("/import/csv") },
+          { label: "Find duplicates", run: () => navigate("/duplicates") },
+        ]
+      : []),
+    { label: "Trash", run: () => navigate("/trash") },
+    { label: "Address books", run: () => navigate("/address-books") },
+    { label: "API tokens", run: () => navigate("/api-tokens") },
+    { label: "Keyboard shortcuts", shortcut: "?", run: () => setHelpOpen(true) },
+    { label: "Log out", run: () => submit(null, { action: "/logout", method: "post" }) },
+  ];
+  
   // Check if we're currently searching
   // navigation.location exists when navigating to a new page
   const searching =
@@ -103,6 +348,29 @@ export default function SidebarLayout({
           {/* Link creates a clickable link that navigates without page reload */}
         </h1>
         
+        {/* ADDRESS BOOK SWITCHER: Which book the list shows */}
+        {/* Picking one posts to address-books.tsx, which remembers it in the */}
+        {/* session and comes back to the home page */}
+        <Form action="/address-books" id="book-switcher" method="post">
+          <input name="intent" type="hidden" value="switch" />
+          {/* key={bookId} resets the menu if switching fails */}
+          <select
+            aria-label="Address book"
+            defaultValue={bookId}
+            key={bookId}
+            name="bookId"
+            onChange={(event) => submit(event.currentTarget.form)}
+          >
+            {books.map((book) => (
+              <option key={book.id} value={book.id}>
+                {book.name}
+                {book.role === "viewer" ? " (view only)" : ""}
+              </option>
+            ))}
+          </select>
+          <Link to="/address-books">Manage</Link>
+        </Form>
+        
         {/* SEARCH AND NEW BUTTON SECTION */}
         <div>
           {/* SEARCH FORM */}
@@ -144,63 +412,173 @@ export default function SidebarLayout({
             />
           </Form>
           
-          {/* NEW CONTACT FORM */}
-          <Form method="post">
-            {/* method="post" makes this a POST request to create new data */}
-            {/* When submitted, this calls the action() function in root.tsx */}
-            <button type="submit">New</button>
-          </Form>
+          {/* NEW CONTACT FORM (not for viewers) */}
+          {canEdit ? (
+            <Form method="post">
+              {/* method="post" makes this a POST request to create new data */}
+              {/* When submitted, this calls the action() function in root.tsx */}
+              <button type="submit">New</button>
+            </Form>
+          ) : null}
         </div>
         
-        {/* NAVIGATION: List of contacts */}
-        <nav>
-          {/* Check if we have any contacts */}
-          {contacts.length ? (
-            // IF we have contacts, show a list
-            <ul>
-              {/* Map over each contact and create a list item */}
-              {contacts.map((contact) => (
-                // key helps React identify which items changed
-                <li key={contact.id}>
-                  {/* NavLink is like Link but adds active/pending classes */}
-                  <NavLink
-                    // className can be a function that receives state
-                    className={({ isActive, isPending }) =>
-                      isActive
-                        ? "active"   // Contact is currently being viewed
-                        : isPending
-                        ? "pending"  // Navigation to this contact is in progress
-                        : ""         // Default state
-                    }
-                    to={`contacts/${contact.id}`} // URL to navigate to
-                  >
-                    {/* Regular Link inside NavLink (Note: This seems redundant) */}
-                    <Link to={`contacts/${contact.id}`}>
-                      {/* Show contact name or "No Name" if empty */}
-                      {contact.first || contact.last ? (
-                        <>
-                          {contact.first} {contact.last}
-                        </>
-                      ) : (
-                        <i>No Name</i> // Italicized "No Name" text
-                      )}
-                      
-                      {/* Show star if contact is favorited */}
-                      {contact.favorite ? (
-                        <span>★</span> // Filled star
-                      ) : null}
-                    </Link>
-                  </NavLink>
-                </li>
+        {/* TAGS: Click a tag to only list contacts with it */}
+        {tags.length ? (
+          <div id="sidebar-tags">
+            {/* "All" clears the tag filter (only shown while one is active) */}
+            {tag ? <Link to={`/${sortSearch}`}>All</Link> : null}
+            {tags.map((t) => (
+              <NavLink
+                className={({ isActive }) => (isActive ? "tag-chip active" : "tag-chip")}
+                key={t.name}
+                to={`/tags/${encodeURIComponent(t.name)}${sortSearch}`}
+              >
+                {t.name} <small>{t.count}</small>
+              </NavLink>
+            ))}
+          </div>
+        ) : null}
+        
+        {/* ORGANIZATIONS: Pick one to only list the people who work there */}
+        {/* (picking one opens its page, like clicking a tag) */}
+        {organizations.length ? (
+          <div id="sidebar-organizations">
+            {/* key resets the menu when the URL changes (e.g. the back button) */}
+            <select
+              aria-label="Filter by organization"
+              defaultValue={organizationId ?? ""}
+              key={organizationId ?? ""}
+              onChange={(event) =>
+                navigate(
+                  event.currentTarget.value
+                    ? `/organizations/${event.currentTarget.value}${sortSearch}`
+                    : `/${sortSearch}`,
+                )
+              }
+            >
+              <option value="">All organizations</option>
+              {organizations.map((organization) => (
+                <option key={organization.id} value={organization.id}>
+                  {organization.name} ({organization.count})
+                </option>
               ))}
-            </ul>
-          ) : (
-            // ELSE (no contacts), show a message
-            <p>
-              <i>No contacts</i>
-            </p>
-          )}
-        </nav>
+            </select>
+          </div>
+        ) : null}
+        
+        {/* RESULT COUNT AND SORT ORDER */}
+        <div id="sidebar-count">
+          {/* How many contacts the list holds (not just the loaded ones) */}
+          <span aria-live="polite">
+            {list.total} {q ? "result" : "contact"}
+            {list.total === 1 ? "" : "s"}
+          </span>
+          
+          {/* form="search-form" makes the menu part of the search form, so
+              searching keeps the sort order and sorting keeps the search */}
+          {/* key={sort} resets it when the URL changes (e.g. the back button) */}
+          <select
+            aria-label="Sort contacts"
+            defaultValue={sort}
+            form="search-form"
+            key={sort}
+            name="sort"
+            onChange={(event) => submit(event.currentTarget.form)}
+          >
+            {Object.entries(SORT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          
+          {/* Turn checkboxes on (or off) - every bulk action changes */}
+          {/* contacts, so viewers don't get them */}
+          {canEdit ? (
+            <button
+              aria-pressed={selecting}
+              onClick={() => (selecting ? stopSelecting() : setSelecting(true))}
+              type="button"
+            >
+              {selecting ? "Done" : "Select"}
+            </button>
+          ) : null}
+        </div>
+        
+        {/* BULK ACTIONS: What to do with the ticked contacts */}
+        {selecting ? (
+          <BulkActions
+            allResults={allResults}
+            onSelectAll={() => setAllResults(true)}
+            onClear={() => {
+              setSelected(new Set());
+              setAllResults(false);
+            }}
+            onDone={(keep) => {
+              // Deleted contacts are gone from the list - only keep the
+              // ones that failed ticked
+              setSelected(new Set(keep));
+              setAllResults(false);
+            }}
+            q={q}
+            selected={selected}
+            organizationId={organizationId}
+            sort={sort}
+            tag={tag}
+            total={list.total}
+          />
+        ) : null}
+        
+        {/* NAVIGATION: List of contacts (with a letter index beside it) */}
+        <ContactList
+          activeIndex={activeIndex}
+          highlights={highlights}
+          linkSearch={sortSearch}
+          organizationId={organizationId}
+          page={list}
+          q={q}
+          selection={
+            selecting ? { all: allResults, ids: selected, onChange: selectContacts } : null
+          }
+          snippetHighlights={snippetHighlights}
+          sort={sort}
+          tag={tag}
+        />
+
+        {/* TOOLS: Less common pages, tucked under the contact list */}
+        <div id="sidebar-tools">
+          {/* Importing and merging change contacts - not for viewers */}
+          {canEdit ? (
+            <>
+              <Link to="import/vcard">Import vCard</Link>
+              <Link to="import/csv">Import CSV</Link>
+              <Link to="duplicates">Find duplicates</Link>
+            </>
+          ) : null}
+          <Link to="organizations">Organizations</Link>
+          <Link to="trash">Trash</Link>
+          <Link to="api-tokens">API tokens</Link>
+          {/* Export links download a file, so they're plain <a> tags */}
+          {/* (React Router would try to render the file as a page) */}
+          {/* Passing q along exports exactly the list shown above */}
+          <a download href={`/export/vcf${q ? `?q=${encodeURIComponent(q)}` : ""}`}>
+            Export vCard
+          </a>
+          <a download href={`/export/csv${q ? `?q=${encodeURIComponent(q)}` : ""}`}>
+            Export CSV
+          </a>
+          {/* The same as pressing "?" */}
+          <button onClick={() => setHelpOpen(true)} type="button">
+            Keyboard shortcuts
+          </button>
+        </div>
+
+        {/* ACCOUNT: Who's logged in, and the way out */}
+        {/* Logging out is a POST (see logout.tsx for why) */}
+        <Form action="/logout" id="sidebar-account" method="post">
+          <span>{email}</span>
+          <button type="submit">Log out</button>
+        </Form>
       </div>
       
       {/* DETAIL PANEL: Main content area on the right */}
@@ -212,18 +590,798 @@ export default function SidebarLayout({
         {/* Outlet is where child routes appear */}
         {/* This is where home.tsx, contact.tsx, etc. will be rendered */}
         <Outlet />
+
+        {/* UNDO MESSAGE: Shown once, right after a contact is deleted */}
+        {deletedContact ? (
+          <div className="toast" role="status">
+            <span>Deleted {deletedContact.name}.</span>
+            {/* Restoring takes it back out of the trash (restore-contact.tsx) */}
+            <Form action={`/contacts/${deletedContact.id}/restore`} method="post">
+              <button type="submit">Undo</button>
+            </Form>
+          </div>
+        ) : null}
       </div>
+
+      {/* COMMAND PALETTE (Ctrl+K) AND SHORTCUTS LIST ("?"): Both modal */}
+      {paletteOpen ? (
+        <CommandPalette
+          commands={commands}
+          onClose={() => setPaletteOpen(false)}
+          onOpenContact={(id) => navigate(`/contacts/${id}${sortSearch}`)}
+        />
+      ) : null}
+      {helpOpen ? <ShortcutHelp onClose={() => setHelpOpen(false)} /> : null}
+    </>
+  );
+}
+
+// ============================================================================
+// CONTACT LIST COMPONENT: The scrolling list of contacts
+// ============================================================================
+// Only the rows on screen (plus a few either side) are drawn, each placed
+// at its position in the whole list, inside a <ul> as tall as every row
+// together - so the scrollbar behaves as if everything was there.
+//
+// The sidebar loader sends one page of contacts. Scrolling past it loads
+// the next or previous page from /contact-list (contact-list.tsx) with a
+// fetcher; dragging the scrollbar far away loads the page at that spot.
+// Rows that haven't arrived yet show as grey placeholders.
+//
+// Sorted by name, each letter gets a header row ("A", "B"...), and the
+// letters are listed down the side to jump straight to them. Header rows
+// are the same height as contact rows, so "row" below means either
+function ContactList({
+  activeIndex,
+  highlights,
+  linkSearch,
+  organizationId,
+  page,
+  q,
+  selection,
+  snippetHighlights,
+  sort,
+  tag,
+}: {
+  activeIndex: number | null;
+  highlights: string[];
+  linkSearch: string; // Added to contact links ("?sort=first")
+  organizationId: string | null;
+  page: Route.ComponentProps["loaderData"]["list"];
+  q: string | null;
+  // In selection mode: what's ticked, and how to tick more (null = no checkboxes)
+  selection: {
+    all: boolean;
+    ids: Set<string>;
+    onChange: (ids: string[], checked: boolean) => void;
+  } | null;
+  snippetHighlights: string[];
+  sort: ContactSort;
+  tag: string | null;
+}) {
+  const fetcher = useFetcher<typeof contactListLoader>();
+  const navRef = useRef<HTMLElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  
+  // The contacts we have: one unbroken run of the list, from block.startIndex
+  const [block, setBlock] = useState(page);
+  
+  // The part of the list scrolled into view, in pixels from the top of the
+  // <ul> (null until the browser has measured it - the server can't)
+  const [viewport, setViewport] = useState<{ top: number; height: number } | null>(null);
+  
+  // The block a fetch was started for. A page that arrives after the block
+  // was replaced (a new search, say) belongs to an old list and is ignored
+  const requestedFor = useRef<typeof block | null>(null);
+  
+  // A new page from the sidebar loader (new search, another contact opened,
+  // a contact saved...) starts the list over
+  useEffect(() => {
+    setBlock(page);
+  }, [page]);
+  
+  // Keep track of the scroll position and the size of the list
+  useEffect(() => {
+    const nav = navRef.current;
+    if (!nav) return;
+    const measure = () => {
+      setViewport({
+        top: nav.scrollTop - (listRef.current?.offsetTop ?? 0),
+        height: nav.clientHeight,
+      });
+    };
+    measure();
+    nav.addEventListener("scroll", measure, { passive: true });
+    window.addEventListener("resize", measure);
+    return () => {
+      nav.removeEventListener("scroll", measure);
+      window.removeEventListener("resize", measure);
+    };
+  }, []);
+  
+  // The letter headers (the same for every page of one list)
+  const sections = block.sections;
+  
+  // The last contact ticked or unticked (where a shift-click range starts)
+  const anchorIndex = useRef<number | null>(null);
+  
+  // TOGGLE: Ticks or unticks one contact - or, with Shift held, every
+  // loaded contact between it and the one clicked before
+  const toggle = (index: number, checked: boolean, shiftKey: boolean) => {
+    if (!selection) return;
+    const from = shiftKey && anchorIndex.current !== null ? anchorIndex.current : index;
+    const ids = block.items
+      .filter((_, offset) => {
+        const position = block.startIndex + offset;
+        return position >= Math.min(from, index) && position <= Math.max(from, index);
+      })
+      .map((item) => item.id);
+    anchorIndex.current = index;
+    selection.onChange(ids, checked);
+  };
+  
+  // J / K: Move through the list from the keyboard by focusing the next
+  // (or previous) contact's link - so Enter opens it, as it would after
+  // tabbing to it. The first press starts at the open contact, or at the
+  // top of what's on screen. Focusing a row scrolls it into view, and the
+  // rows past it are loaded like any other scroll
+  const moveFocus = (step: 1 | -1) => {
+    const nav = navRef.current;
+    if (!nav) return;
+    const links = [...nav.querySelectorAll<HTMLAnchorElement>("li.contact-row > a")];
+    const at = [
+      links.findIndex((link) => link === document.activeElement),
+      links.findIndex((link) => link.classList.contains("active")),
+    ].find((index) => index !== -1);
+    const target =
+      at === undefined
+        ? links.find((link) => link.getBoundingClientRect().top >= nav.getBoundingClientRect().top)
+        : links[at + step];
+    target?.focus();
+  };
+  useShortcuts({ j: () => moveFocus(1), k: () => moveFocus(-1) });
+  
+  // Keep the open contact in view (when it's opened from somewhere else,
+  // like after creating it, the list scrolls to it)
+  useEffect(() => {
+    const nav = navRef.current;
+    if (activeIndex === null || !nav) return;
+    const top = (listRef.current?.offsetTop ?? 0) + rowOfContact(activeIndex, sections) * ROW_HEIGHT;
+    if (top < nav.scrollTop || top + ROW_HEIGHT > nav.scrollTop + nav.clientHeight) {
+      nav.scrollTop = top - (nav.clientHeight - ROW_HEIGHT) / 2;
+    }
+  }, [activeIndex]);
+  
+  // Which rows to draw: the visible ones plus OVERSCAN either side
+  // (before the list is measured, just the contacts from the loader)
+  const total = block.total;
+  const totalRows = total + sections.length;
+  const blockEnd = block.startIndex + block.items.length;
+  const firstRow = viewport
+    ? Math.max(0, Math.floor(viewport.top / ROW_HEIGHT) - OVERSCAN)
+    : rowsBefore(block.startIndex, sections);
+  const lastRow = viewport
+    ? Math.min(totalRows, Math.ceil((viewport.top + viewport.height) / ROW_HEIGHT) + OVERSCAN)
+    : rowsBefore(blockEnd, sections);
+  
+  // ...and which contacts those rows hold (first to just before last)
+  const first = contactsBefore(firstRow, sections);
+  const last = contactsBefore(lastRow, sections);
+  
+  // Load more when rows that should be drawn are missing
+  useEffect(() => {
+    // A page arrived - add it to the block (if it's for the block we have)
+    if (fetcher.state === "idle" && fetcher.data && requestedFor.current) {
+      const requested = requestedFor.current;
+      requestedFor.current = null;
+      if (requested === block) {
+        setBlock(joinPages(block, fetcher.data));
+        return; // This runs again with the bigger block
+      }
+    }
+    
+    if (!viewport || first >= last || fetcher.state !== "idle") return;
+    
+    const search = new URLSearchParams({ sort });
+    if (q) search.set("q", q);
+    if (tag) search.set("tag", tag);
+    if (organizationId) search.set("org", organizationId);
+    
+    if (last <= block.startIndex - PAGE_SIZE || first >= blockEnd + PAGE_SIZE) {
+      // Far away from what we have - load the page right there instead
+      search.set("offset", String(first));
+    } else if (first < block.startIndex && block.prevCursor) {
+      search.set("before", block.prevCursor);
+    } else if (last > blockEnd && block.nextCursor) {
+      search.set("after", block.nextCursor);
+    } else {
+      return; // Everything on screen is loaded
+    }
+    
+    requestedFor.current = block;
+    fetcher.load(`/contact-list?${search}`);
+  }, [block, blockEnd, fetcher, first, last, organizationId, q, sort, tag, viewport]);
+  
+  // JUMP TO: Scrolls a letter's header to the top of the list
+  // (the rows there are loaded by the effect above, like any scroll)
+  const jumpTo = (section: ContactSection) => {
+    const nav = navRef.current;
+    if (!nav) return;
+    nav.scrollTop =
+      (listRef.current?.offsetTop ?? 0) + rowsBefore(section.index, sections) * ROW_HEIGHT;
+  };
+  
+  // Draw each row that's in range - a letter header, the contact if we
+  // have it, or a placeholder if it's still loading
+  const rows: React.ReactNode[] = [];
+  for (let row = firstRow; row < lastRow; row++) {
+    const style = { height: ROW_HEIGHT, top: row * ROW_HEIGHT };
+    const header = sectionAtRow(row, sections);
+    if (header) {
+      rows.push(
+        <li className="contact-section" key={`section-${header.index}`} style={style}>
+          {sectionLabel(header)}
+        </li>,
+      );
+      continue;
+    }
+    
+    const index = contactsBefore(row, sections);
+    const contact = block.items[index - block.startIndex];
+    rows.push(
+      contact ? (
+        // key helps React identify which items changed
+        // aria-posinset / aria-setsize tell screen readers where in the
+        // whole list this row is (most rows aren't in the page at all)
+        <li
+          aria-posinset={index + 1}
+          aria-setsize={total}
+          className="contact-row"
+          key={contact.id}
+          style={style}
+        >
+          {/* SELECT: Only in selection mode ("all results" ticks everyone) */}
+          {selection ? (
+            <input
+              aria-label={`Select ${contact.first || contact.last ? `${contact.first ?? ""} ${contact.last ?? ""}`.trim() : "No Name"}`}
+              checked={selection.all || selection.ids.has(contact.id)}
+              disabled={selection.all}
+              onChange={(event) =>
+                toggle(
+                  index,
+                  event.currentTarget.checked,
+                  // Clicks arrive as mouse events, which know about Shift
+                  event.nativeEvent instanceof MouseEvent && event.nativeEvent.shiftKey,
+                )
+              }
+              type="checkbox"
+            />
+          ) : null}
+          {/* NavLink is like Link but adds active/pending classes */}
+          <NavLink
+            // className can be a function that receives state
+            className={({ isActive, isPending }) =>
+              isActive
+                ? "active"   // Contact is currently being viewed
+                : isPending
+                ? "pending"  // Navigation to this contact is in progress
+                : ""         // Default state
+            }
+            to={`contacts/${contact.id}${linkSearch}`} // URL to navigate to
+          >
+            {/* Regular Link inside NavLink (Note: This seems redundant) */}
+            <Link to={`contacts/${contact.id}${linkSearch}`}>
+              {/* Show contact name or "No Name" if empty */}
+              {/* Searched words are wrapped in <mark> */}
+              {contact.first || contact.last ? (
+                <Highlight
+                  terms={highlights}
+                  text={`${contact.first ?? ""} ${contact.last ?? ""}`}
+                />
+              ) : (
+                <i>No Name</i> // Italicized "No Name" text
+              )}
+
+              {/* Matched on notes, email...? Show where */}
+              {contact.snippet ? (
+                <small className="search-snippet">
+                  <Highlight terms={snippetHighlights} text={contact.snippet} />
+                </small>
+              ) : null}
+              
+              {/* Show star if contact is favorited */}
+              {contact.favorite ? (
+                <span>★</span> // Filled star
+              ) : null}
+            </Link>
+          </NavLink>
+        </li>
+      ) : (
+        <li aria-hidden className="contact-row placeholder" key={`row-${row}`} style={style} />
+      ),
+    );
+  }
+  
+  return (
+    <div id="contact-list">
+      <nav ref={navRef}>
+        {/* Check if we have any contacts */}
+        {total ? (
+          // IF we have contacts, show the list (as tall as all of them together)
+          <ul ref={listRef} style={{ height: totalRows * ROW_HEIGHT }}>
+            {rows}
+          </ul>
+        ) : (
+          // ELSE (no contacts), show a message
+          <p>
+            <i>No contacts</i>
+          </p>
+        )}
+      </nav>
+      
+      {/* LETTER INDEX: Jump to where a letter starts (contacts with no
+          name have no letter, so they're not listed) */}
+      {sections.some((section) => section.letter) ? (
+        <ol aria-label="Jump to letter" className="letter-index">
+          {sections.map((section) =>
+            section.letter ? (
+              <li key={section.index}>
+                <button
+                  aria-label={sectionLabel(section)}
+                  onClick={() => jumpTo(section)}
+                  type="button"
+                >
+                  {section.letter}
+                </button>
+              </li>
+            ) : null,
+          )}
+        </ol>
+      ) : null}
+    </div>
+  );
+}
+
+// ============================================================================
+// BULK ACTIONS COMPONENT: The bar above the list in selection mode
+// ============================================================================
+// Changes go through a fetcher, so the page stays where it is and the list
+// simply reloads. Exports are a normal form submission instead (with
+// reloadDocument), so the browser downloads the file it gets back
+function BulkActions({
+  allResults,
+  onClear,
+  onDone,
+  onSelectAll,
+  organizationId,
+  q,
+  selected,
+  sort,
+  tag,
+  total,
+}: {
+  allResults: boolean;
+  onClear: () => void;
+  onDone: (keep: string[]) => void;
+  onSelectAll: () => void;
+  organizationId: string | null;
+  q: string | null;
+  selected: Set<string>;
+  sort: ContactSort;
+  tag: string | null;
+  total: number;
+}) {
+  const fetcher = useFetcher<typeof bulkAction>();
+  const busy = fetcher.state !== "idle";
+  const count = allResults ? total : selected.size;
+  const result = fetcher.data;
+  
+  // After a delete, the deleted contacts are no longer selectable
+  // (fetcher.data only changes when a new answer arrives, so this runs
+  // once per submission)
+  useEffect(() => {
+    if (result && "failures" in result && result.intent === "delete") {
+      onDone(result.failures.map((failure) => failure.id));
+    }
+  }, [result]);
+  
+  // The selection, as form fields - used by both forms below
+  const selectionInputs = allResults ? (
+    <>
+      <input name="all" type="hidden" value="true" />
+      <input name="q" type="hidden" value={q ?? ""} />
+      <input name="tag" type="hidden" value={tag ?? ""} />
+      <input name="org" type="hidden" value={organizationId ?? ""} />
+      <input name="sort" type="hidden" value={sort} />
     </>
+  ) : (
+    [...selected].map((id) => <input key={id} name="ids" type="hidden" value={id} />)
+  );
+  
+  return (
+    <div id="bulk-actions">
+      <p>
+        {allResults ? `All ${total} ` : `${count} `}
+        {count === 1 ? "contact" : "contacts"} selected
+        {!allResults && total > count ? (
+          <button onClick={onSelectAll} type="button">
+            Select all {total}
+          </button>
+        ) : null}
+        {count ? (
+          <button onClick={onClear} type="button">
+            Clear
+          </button>
+        ) : null}
+      </p>
+      
+      <fetcher.Form action="/contacts/bulk" method="post">
+        {selectionInputs}
+        <button disabled={!count || busy} name="intent" type="submit" value="favorite">
+          ★ Favorite
+        </button>
+        <button disabled={!count || busy} name="intent" type="submit" value="unfavorite">
+          ☆ Unfavorite
+        </button>
+        <button disabled={!count || busy} name="intent" type="submit" value="delete">
+          Delete
+        </button>
+        <span className="bulk-tag">
+          <input aria-label="Tag" name="bulkTag" placeholder="Tag" type="text" />
+          <button disabled={!count || busy} name="intent" type="submit" value="addTag">
+            Add tag
+          </button>
+          <button disabled={!count || busy} name="intent" type="submit" value="removeTag">
+            Remove tag
+          </button>
+        </span>
+      </fetcher.Form>
+      
+      <Form action="/contacts/bulk" method="post" reloadDocument>
+        {selectionInputs}
+        <input name="intent" type="hidden" value="export" />
+        <button disabled={!count} name="format" type="submit" value="vcf">
+          Export vCard
+        </button>
+        <button disabled={!count} name="format" type="submit" value="csv">
+          Export CSV
+        </button>
+      </Form>
+      
+      {/* RESULT: What happened (and what didn't) */}
+      {busy ? (
+        <p>Working…</p>
+      ) : result?.error ? (
+        <p className="field-error" role="alert">
+          {result.error}
+        </p>
+      ) : result && "failures" in result ? (
+        <div role="status">
+          <p>
+            {result.intent === "delete" ? "Moved" : "Updated"} {result.changed}{" "}
+            {result.changed === 1 ? "contact" : "contacts"}
+            {result.intent === "delete" ? (
+              <>
+                {" "}to the <Link to="/trash">trash</Link>
+              </>
+            ) : null}
+            .
+          </p>
+          {result.failures.length ? (
+            <>
+              <p>
+                {result.failures.length} couldn't be changed (they're still selected):
+              </p>
+              <ul>
+                {result.failures.map((failure) => (
+                  <li key={failure.id}>
+                    {failure.name}: {failure.reason}
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
   );
 }
 
+// ============================================================================
+// COMMAND PALETTE COMPONENT: Find a contact or an action by typing a few letters
+// ============================================================================
+// A modal <dialog>, so the browser keeps the focus inside it and closes it
+// on Esc (or a click outside). The contacts come from command-palette.tsx
+// with a fetcher as the user types; the actions are matched right here.
+// Both are matched loosely - "rflo" finds Ryan Florence, "dup" finds
+// "Find duplicates". Up and down pick a line, Enter runs it
+
+// Command: One thing the palette can do ("shortcut" is only shown)
+type Command = { label: string; shortcut?: string; run: () => void };
+
+function CommandPalette({
+  commands,
+  onClose,
+  onOpenContact,
+}: {
+  commands: Command[];
+  onClose: () => void;
+  onOpenContact: (id: string) => void;
+}) {
+  const fetcher = useFetcher<typeof paletteLoader>();
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const [typed, setTyped] = useState("");
+  const [picked, setPicked] = useState(0);
+  
+  // The sidebar only draws the palette while it's open
+  useEffect(() => {
+    dialogRef.current?.showModal();
+  }, []);
+  
+  // Everything that matches, as one list: contacts first, then actions
+  // (with nothing typed, every action in its usual order)
+  const contacts = typed.trim() ? fetcher.data?.contacts ?? [] : [];
+  const actions = commands
+    .map((command) => ({ command, score: fuzzyScore(command.label, typed) }))
+    .filter((match): match is { command: Command; score: number } => match.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map(({ command }) => command);
+  const lines = [
+    ...contacts.map((contact) => ({
+      group: "Contacts",
+      label: contact.name,
+      hint: contact.company,
+      run: () => onOpenContact(contact.id),
+    })),
+    ...actions.map((command) => ({
+      group: "Actions",
+      label: command.label,
+      hint: command.shortcut,
+      run: command.run,
+    })),
+  ];
+  const active = Math.min(picked, lines.length - 1);
+  
+  // Keep the picked line in view while moving through a long list
+  useEffect(() => {
+    document.getElementById(`palette-line-${active}`)?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+  
+  // RUN: Closing first gives the focus back to where it was - then the
+  // line runs (moving it to the search box, say)
+  const run = (index: number) => {
+    const line = lines[index];
+    if (!line) return;
+    dialogRef.current?.close();
+    line.run();
+  };
+  
+  return (
+    <dialog
+      aria-label="Command palette"
+      id="command-palette"
+      onClick={(event) => {
+        // A click on the backdrop lands on the <dialog> itself
+        if (event.target === event.currentTarget) event.currentTarget.close();
+      }}
+      onClose={onClose}
+      ref={dialogRef}
+    >
+      <input
+        aria-activedescendant={active >= 0 ? `palette-line-${active}` : undefined}
+        aria-controls="palette-lines"
+        aria-expanded
+        aria-label="Find a contact or an action"
+        autoComplete="off"
+        onChange={(event) => {
+          const value = event.currentTarget.value;
+          setTyped(value);
+          setPicked(0);
+          if (value.trim()) {
+            fetcher.load(`/command-palette?q=${encodeURIComponent(value)}`);
+          }
+        }}
+        onKeyDown={(event) => {
+          if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+            event.preventDefault();
+            const step = event.key === "ArrowDown" ? 1 : -1;
+            setPicked((active + step + lines.length) % Math.max(lines.length, 1));
+          } else if (event.key === "Enter") {
+            event.preventDefault();
+            run(active);
+          }
+        }}
+        placeholder="Find a contact or an action…"
+        role="combobox"
+        type="text"
+        value={typed}
+      />
+      <ul id="palette-lines" role="listbox">
+        {lines.map((line, index) => (
+          <Fragment key={index}>
+            {/* A heading above the first line of each group */}
+            {line.group !== lines[index - 1]?.group ? (
+              <li className="palette-group" role="presentation">
+                {line.group}
+              </li>
+            ) : null}
+            <li
+              aria-selected={index === active}
+              id={`palette-line-${index}`}
+              onClick={() => run(index)}
+              onMouseMove={() => setPicked(index)}
+              role="option"
+            >
+              <span>{line.label || <i>No Name</i>}</span>
+              {line.hint ? (
+                line.group === "Actions" ? <kbd>{line.hint}</kbd> : <small>{line.hint}</small>
+              ) : null}
+            </li>
+          </Fragment>
+        ))}
+        {lines.length === 0 ? (
+          <li className="palette-empty" role="presentation">
+            <i>Nothing matches.</i>
+          </li>
+        ) : null}
+      </ul>
+    </dialog>
+  );
+}
+
+// ============================================================================
+// SHORTCUT HELP COMPONENT: Every keyboard shortcut ("?" opens it)
+// ============================================================================
+function ShortcutHelp({ onClose }: { onClose: () => void }) {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  
+  // Like the palette, it's only drawn while it's open
+  useEffect(() => {
+    dialogRef.current?.showModal();
+  }, []);
+  
+  return (
+    <dialog
+      aria-labelledby="shortcut-help-title"
+      id="shortcut-help"
+      onClose={onClose}
+      ref={dialogRef}
+    >
+      <h2 id="shortcut-help-title">Keyboard shortcuts</h2>
+      <dl>
+        {SHORTCUTS.map(({ keys, description }) => (
+          <div key={description}>
+            <dt>
+              {keys.map((key) => (
+                <kbd key={key}>{key}</kbd>
+              ))}
+            </dt>
+            <dd>{description}</dd>
+          </div>
+        ))}
+      </dl>
+      <p>
+        <small>Letter shortcuts don't work while you're typing in a box.</small>
+      </p>
+      <button onClick={() => dialogRef.current?.close()} type="button">
+        Close
+      </button>
+    </dialog>
+  );
+}
+
+// ============================================================================
+// HIGHLIGHT COMPONENT: Text with the searched words marked
+// ============================================================================
+function Highlight({ terms, text }: { terms: string[]; text: string }) {
+  return (
+    <>
+      {splitHighlights(text, terms).map((piece, index) =>
+        piece.match ? <mark key={index}>{piece.text}</mark> : piece.text,
+      )}
+    </>
+  );
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// The list's rows are the contacts with a header row in front of each
+// section. With sections starting at contacts 0 ("A") and 2 ("B"):
+//   row 0: "A"   row 1: contact 0   row 2: contact 1
+//   row 3: "B"   row 4: contact 2   ...
+
+// ROWS BEFORE: How many rows come before a contact's section header (or
+// before the contact itself, if no section starts there)
+function rowsBefore(index: number, sections: ContactSection[]): number {
+  return index + sections.filter((section) => section.index < index).length;
+}
+
+// ROW OF CONTACT: Which row a contact is drawn in
+function rowOfContact(index: number, sections: ContactSection[]): number {
+  return index + sections.filter((section) => section.index <= index).length;
+}
+
+// CONTACTS BEFORE: How many contacts come before a row (for a contact row,
+// that's the contact's position in the list)
+function contactsBefore(row: number, sections: ContactSection[]): number {
+  // Section k's header is in row (its first contact's index + k)
+  return row - sections.filter((section, k) => section.index + k < row).length;
+}
+
+// SECTION AT ROW: The section whose header is in this row (if any)
+function sectionAtRow(row: number, sections: ContactSection[]): ContactSection | undefined {
+  return sections.find((section, k) => section.index + k === row);
+}
+
+// SECTION LABEL: What a section's header says
+function sectionLabel(section: ContactSection): string {
+  if (section.letter === "★") return "★ Favorites";
+  return section.letter || "No name";
+}
+
+// JOIN PAGES: Adds a newly loaded page to the block of contacts we have.
+// A page that starts right where the block ends is added to the end, one
+// that ends where it starts goes in front. Anything else (a jump down the
+// scrollbar, or contacts added meanwhile) replaces the block
+function joinPages<Page extends {
+  items: unknown[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+  startIndex: number;
+  total: number;
+}>(block: Page, page: Page): Page {
+  if (page.startIndex === block.startIndex + block.items.length) {
+    return {
+      ...block,
+      items: [...block.items, ...page.items],
+      nextCursor: page.nextCursor,
+      total: page.total,
+    };
+  }
+  if (page.startIndex + page.items.length === block.startIndex) {
+    return {
+      ...block,
+      items: [...page.items, ...block.items],
+      prevCursor: page.prevCursor,
+      startIndex: page.startIndex,
+      total: page.total,
+    };
+  }
+  return page;
+}
+
 // ============================================================================
 // HOW SIDEBAR.TSX CONNECTS TO OTHER FILES:
 // ============================================================================
 // 1. routes.ts declares this as a LAYOUT that wraps other routes
-// 2. The loader() function calls getContacts() from data.ts
+// 2. The loader() function calls loadContactListPage() (contact-list.server.ts)
+//    for the first page of contacts and getTags() from data.ts
+//    (on /tags/:tag the contacts are filtered to that tag)
 // 3. The component displays the contacts in a sidebar
 // 4. Clicking a contact name navigates to contact.tsx
 // 5. The "New" button triggers the action() in root.tsx
 // 6. Child routes (home.tsx, contact.tsx, etc.) appear in the <Outlet />
 // 7. The search form updates the URL, which re-runs the loader
+// 8. The tools links (under the list) lead to pages like import-vcard.tsx
+// 9. After a delete, the loader reads the "deletedContact" flash from the
+//    session (sessions.server.ts) and shows an Undo message
+// 10. Searches go through search.ts: getContacts() filters with it, and the
+//     loader works out which words to highlight
+// 11. Scrolling the list loads more pages from contact-list.tsx with a
+//     fetcher, passing the cursors from the page before
+// 12. The sort menu adds ?sort=... to the URL; getContactsPage() (data.ts)
+//     sorts by it and says where each letter's section starts
+// 13. "Select" shows checkboxes; the selection bar posts to bulk-contacts.tsx
+// 14. The loader calls requireUser() (auth.server.ts) first, so only
+//     logged-in users see any of this; "Log out" posts to logout.tsx
+// 15. requireAddressBook() (auth.server.ts) picks the address book to list;
+//     the switcher posts to address-books.tsx to pick another
+// 16. The organization menu opens organization.tsx; on /organizations/:orgId
+//     the loader filters the list to that organization (getOrganizations()
+//     in data.ts fills the menu)
+// 17. useShortcuts() (shortcuts.ts) gives the sidebar "/", n, j / k, "?" and
+//     Ctrl+K; the command palette finds contacts through command-palette.tsx
+//     and lists its actions with fuzzyScore() (search.ts); the help overlay
+//     lists SHORTCUTS
@@ -0,0 +1,239 @@
+// ============================================================================
+// MATCHING.TS - Deciding whether two contacts are the same person
+// ============================================================================
+// Imports need to know whether a row "looks like" a contact we already have.
+// Two contacts match when they share:
+//   - the same name (ignoring case, accents and punctuation), or
+//   - the same email address, or
+//   - the same Twitter handle
+//
+// The duplicates page goes one step further and also flags names that are
+// merely similar ("Jon Smith" / "John Smith"), since typos pile up too.
+//
+// This file has no server-only code - it's plain string handling.
+
+// Import the contact types
+import type { ContactMutation } from "./data";
+
+// How alike two names must be (0 = nothing in common, 1 = identical) to be
+// flagged as similar. 0.8 allows about one typo per five letters
+const SIMILAR_NAME_THRESHOLD = 0.8;
+
+// Names shorter than this ("Al", "Bo") are too short to compare fuzzily -
+// one letter's difference would make almost anyone "similar"
+const SIMILAR_NAME_MIN_LENGTH = 4;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+// Why two contacts look like the same person
+export type DuplicateReason = "name" | "similar-name" | "twitter" | "email";
+
+// Two contacts that look like the same person, and why
+export type DuplicatePair<T> = {
+  first: T;
+  second: T;
+  reasons: DuplicateReason[];
+};
+
+// ============================================================================
+// NORMALIZE TEXT: "  José  O'Brien " → "jose o brien"
+// ============================================================================
+export function normalizeText(value: string | undefined): string {
+  return (value ?? "")
+    .normalize("NFD")                    // Split "é" into "e" + accent mark
+    .replace(/[\u0300-\u036f]/g, "") // ...and drop the accent marks
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")    // Punctuation/spaces → one space
+    .trim();
+}
+
+// ============================================================================
+// KEYS: The normalized values we compare
+// ============================================================================
+
+// NAME KEY: "Ryan" + "Florence" → "ryan florence" ("" for nameless contacts)
+export function nameKey(contact: ContactMutation): string {
+  return normalizeText(`${contact.first ?? ""} ${contact.last ?? ""}`);
+}
+
+// TWITTER KEY: "@RyanFlorence" → "ryanflorence"
+export function twitterKey(contact: ContactMutation): string {
+  return (contact.twitter ?? "").trim().replace(/^@/, "").toLowerCase();
+}
+
+// EMAIL KEYS: Every email address, lowercased
+export function emailKeys(contact: ContactMutation): string[] {
+  return (contact.emails ?? [])
+    .map((email) => email.address.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// ============================================================================
+// FIND MATCH: The first existing contact that looks like the same person
+// ============================================================================
+export function findMatch<T extends ContactMutation>(
+  candidate: ContactMutation,
+  existing: T[],
+): T | undefined {
+  const name = nameKey(candidate);
+  const twitter = twitterKey(candidate);
+  const emails = emailKeys(candidate);
+
+  return existing.find(
+    (contact) =>
+      (name !== "" && nameKey(contact) === name) ||
+      (twitter !== "" && twitterKey(contact) === twitter) ||
+      emailKeys(contact).some((email) => emails.includes(email)),
+  );
+}
+
+// ============================================================================
+// FIND DUPLICATES: Every pair of contacts that looks like the same person
+// ============================================================================
+// Comparing everyone with everyone is too slow for big address books
+// (10,000 contacts would be 50 million comparisons), so only likely pairs
+// are compared: ones that share a name, Twitter handle or email (found by
+// looking the keys up), and - for similar names - ones whose first or last
+// names start the same way and are about as long.
+// Pairs with the most reasons come first, so the surest duplicates are on top
+export function findDuplicates<T extends ContactMutation>(
+  contacts: T[],
+): DuplicatePair<T>[] {
+  // Work the keys out once per contact instead of once per comparison
+  const keyed = contacts.map((contact) => ({
+    contact,
+    name: nameKey(contact),
+    twitter: twitterKey(contact),
+    emails: emailKeys(contact),
+  }));
+
+  // The pairs worth comparing, as "index of first:index of second"
+  const candidates = new Set<string>();
+  const addPairs = (group: number[], near: (a: number, b: number) => boolean) => {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length && near(group[i], group[j]); j++) {
+        const a = Math.min(group[i], group[j]);
+        const b = Math.max(group[i], group[j]);
+        candidates.add(`${a}:${b}`);
+      }
+    }
+  };
+
+  // Same name, handle or email: everyone with that key
+  const sameKeys = [
+    keyed.map((entry) => (entry.name ? [entry.name] : [])),
+    keyed.map((entry) => (entry.twitter ? [entry.twitter] : [])),
+    keyed.map((entry) => entry.emails),
+  ];
+  for (const keys of sameKeys) {
+    for (const group of groupByKey(keys)) addPairs(group, () => true);
+  }
+
+  // Similar names: only within a block, shortest name first, and only while
+  // the lengths are close enough for the names to be similar at all
+  const blocks = groupByKey(keyed.map((entry) => nameBlocks(entry.name)));
+  for (const block of blocks) {
+    block.sort((a, b) => keyed[a].name.length - keyed[b].name.length || a - b);
+    addPairs(block, (a, b) => {
+      const shorter = keyed[a].name.length;
+      const longer = keyed[b].name.length;
+      // (what nameSimilarity() would give if only the length differed)
+      return 1 - (longer - shorter) / longer >= SIMILAR_NAME_THRESHOLD;
+    });
+  }
+
+  // Compared in list order, as everyone-with-everyone would
+  const ordered = [...candidates]
+    .map((candidate) => candidate.split(":").map(Number))
+    .sort((x, y) => x[0] - y[0] || x[1] - y[1]);
+
+  const pairs: DuplicatePair<T>[] = [];
+  for (const [first, second] of ordered) {
+    const a = keyed[first];
+    const b = keyed[second];
+    const reasons: DuplicateReason[] = [];
+
+    if (a.name !== "" && a.name === b.name) {
+      reasons.push("name");
+    } else if (nameSimilarity(a.name, b.name) >= SIMILAR_NAME_THRESHOLD) {
+      reasons.push("similar-name");
+    }
+    if (a.twitter !== "" && a.twitter === b.twitter) reasons.push("twitter");
+    if (a.emails.some((email) => b.emails.includes(email))) reasons.push("email");
+
+    if (reasons.length > 0) {
+      pairs.push({ first: a.contact, second: b.contact, reasons });
+    }
+  }
+
+  return pairs.sort((a, b) => b.reasons.length - a.reasons.length);
+}
+
+// ============================================================================
+// NAME SIMILARITY: How alike two normalized names are, from 0 to 1
+// ============================================================================
+// "jon smith" vs "john smith" → 0.9 (one letter out of ten is different)
+// Names that are too short to compare fairly always score 0
+export function nameSimilarity(a: string, b: string): number {
+  if (Math.min(a.length, b.length) < SIMILAR_NAME_MIN_LENGTH) return 0;
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// EDIT DISTANCE: How many single-letter edits (insert, delete, replace)
+// turn a into b - the classic Levenshtein distance.
+// Only keeps one row of the table at a time to save memory
+function editDistance(a: string, b: string): number {
+  // previous[j] = edits to turn the first i-1 letters of a into the first j of b
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const replaceCost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,                 // Delete a letter from a
+        current[j - 1] + 1,              // Insert a letter into a
+        previous[j - 1] + replaceCost,   // Replace (or keep) a letter
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// GROUP BY KEY: The contacts (by index) that share each key, for the keys
+// more than one contact has. keys[i] lists contact i's keys
+function groupByKey(keys: string[][]): number[][] {
+  const groups = new Map<string, number[]>();
+  for (let index = 0; index < keys.length; index++) {
+    for (const key of new Set(keys[index])) {
+      const group = groups.get(key);
+      if (group) group.push(index);
+      else groups.set(key, [index]);
+    }
+  }
+  return [...groups.values()].filter((group) => group.length > 1);
+}
+
+// NAME BLOCKS: "jon smith" → ["first:jo", "last:sm"]. Similar names almost
+// always share one of these (a typo at the start of one name rarely comes
+// with one at the start of the other). None for names too short to compare
+function nameBlocks(name: string): string[] {
+  if (name.length < SIMILAR_NAME_MIN_LENGTH) return [];
+  const words = name.split(" ");
+  return [`first:${words[0].slice(0, 2)}`, `last:${words[words.length - 1].slice(0, 2)}`];
+}
+
+// ============================================================================
+// HOW MATCHING.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. import-csv.tsx uses findMatch() to spot rows that already exist
+// 2. duplicates.tsx uses findDuplicates() to list likely duplicates,
+//    which merge-contacts.tsx then merges
@@ -0,0 +1,71 @@
+// ============================================================================
+// RELATIONSHIPS.TS - How two contacts are related
+// ============================================================================
+// A contact's "related" list says who else in the address book they're
+// connected to, and how:
+//
+//   { contactId: "ryan-florence", type: "manager" }   Ryan is their manager
+//
+// Most types have an opposite, and are kept on both contacts: saying Ryan
+// is Ann's manager also makes Ann one of Ryan's direct reports (and taking
+// it away takes away both). "Other" has no opposite, so it only goes one way.
+//
+// This file has no server-only code, so pages can use it for their labels.
+
+// Import the type naming every kind of relationship
+import type { RelationshipType } from "./data";
+
+// ============================================================================
+// RELATIONSHIP TYPES: Every kind, as the page shows it, and its opposite
+// ============================================================================
+// Read each label as "<related person> is this contact's <label>"
+export const RELATIONSHIP_TYPES: {
+  type: RelationshipType;
+  label: string;
+  inverse?: RelationshipType; // Missing = one way only
+}[] = [
+  { type: "manager", label: "Manager", inverse: "report" },
+  { type: "report", label: "Direct report", inverse: "manager" },
+  { type: "assistant", label: "Assistant", inverse: "assists" },
+  { type: "assists", label: "Assistant to", inverse: "assistant" },
+  { type: "colleague", label: "Colleague", inverse: "colleague" },
+  { type: "spouse", label: "Spouse", inverse: "spouse" },
+  { type: "partner", label: "Partner", inverse: "partner" },
+  { type: "parent", label: "Parent", inverse: "child" },
+  { type: "child", label: "Child", inverse: "parent" },
+  { type: "sibling", label: "Sibling", inverse: "sibling" },
+  { type: "friend", label: "Friend", inverse: "friend" },
+  { type: "other", label: "Other" },
+];
+
+// ============================================================================
+// IS RELATIONSHIP TYPE: True for the types above (anything else is "other")
+// ============================================================================
+export function isRelationshipType(value: unknown): value is RelationshipType {
+  return RELATIONSHIP_TYPES.some(({ type }) => type === value);
+}
+
+// ============================================================================
+// RELATIONSHIP LABEL: "manager" → "Manager"
+// ============================================================================
+export function relationshipLabel(type: RelationshipType): string {
+  return RELATIONSHIP_TYPES.find((option) => option.type === type)?.label ?? "Other";
+}
+
+// ============================================================================
+// INVERSE RELATIONSHIP: The same relationship seen from the other contact
+// ============================================================================
+// "manager" → "report", "spouse" → "spouse", "other" → null (one way only)
+export function inverseRelationship(type: RelationshipType): RelationshipType | null {
+  return RELATIONSHIP_TYPES.find((option) => option.type === type)?.inverse ?? null;
+}
+
+// ============================================================================
+// HOW RELATIONSHIPS.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. data.ts uses inverseRelationship() to keep both contacts in step, and
+//    drops relationships to a contact when it's deleted
+// 2. contact-schema.ts only lets known types through (isRelationshipType())
+// 3. edit-contact.tsx offers RELATIONSHIP_TYPES in each row's dropdown
+// 4. contact.tsx, contact-history.tsx and merge-contacts.tsx show the
+//    labels with relationshipLabel()
@@ -19,7 +19,8 @@ import type { Route } from "./+types/root";
 // Import the CSS file that styles the entire application
 import appStylesHref from "./app.css?url";
 
-// Import a function to create new contacts
+// Import a function to create new contacts (and the address book check)
+import { requireAddressBook } from "./auth.server";
 import { createEmptyContact } from "./data";
 
 // ============================================================================
@@ -136,9 +137,11 @@ export function HydrateFallback() {
 // ============================================================================
 // This runs when a form with method="post" is submitted to the root route
 // In this app, it's triggered by the "New" button in the sidebar
-export async function action() {
-  // Create a new empty contact in the database
-  const contact = await createEmptyContact();
+export async function action({ request }: Route.ActionArgs) {
+  // Create a new empty contact in the address book being looked at (viewers
+  // get a 403 - they can't add anything)
+  const { bookId } = await requireAddressBook(request, "edit");
+  const contact = await createEmptyContact(bookId);
   
   // Redirect the user to the edit page for the new contact
   // Example: if contact.id is "abc123", redirect to "/contacts/abc123/edit"
@@ -31,6 +31,11 @@ export default [
       "routes/destroy-contact.tsx",
     ),
     
+    // BULK ROUTE: Deletes, favorites, tags or exports many contacts at once
+    // (a fixed path like this wins over "contacts/:contactId")
+    // Example URL: /contacts/bulk
+    route("contacts/bulk", "routes/bulk-contacts.tsx"),
+    
     // NESTED ROUTE: This handles editing a contact
     // Example URL: /contacts/123/edit
     // Shows a form to edit the contact with the matching ID
@@ -38,11 +43,111 @@ export default [
       "contacts/:contactId/edit",
       "routes/edit-contact.tsx",
     ),
+
+    // NESTED ROUTE: This handles taking a contact back out of the trash
+    // Example URL: /contacts/123/restore
+    route(
+      "contacts/:contactId/restore",
+      "routes/restore-contact.tsx",
+    ),
+
+    // NESTED ROUTE: Every edit ever made to a contact, with revert
+    // Example URL: /contacts/123/history
+    route(
+      "contacts/:contactId/history",
+      "routes/contact-history.tsx",
+    ),
+
+    // NESTED ROUTE: Logs calls, meetings... on a contact's timeline
+    // (posted to by fetchers on the contact's page - no UI of its own)
+    // Example URL: /contacts/123/interactions
+    route(
+      "contacts/:contactId/interactions",
+      "routes/contact-interactions.tsx",
+    ),
+
+    // FOLLOW-UPS ROUTE: Adds, completes, snoozes and reschedules follow-ups
+    // (posted to by fetchers on the home page and contact pages - no UI)
+    // Example URL: /follow-ups
+    route("follow-ups", "routes/follow-ups.tsx"),
+
+    // TRASH ROUTE: Deleted contacts, with restore and permanent delete
+    // Example URL: /trash
+    route("trash", "routes/trash.tsx"),
+
+    // TAG ROUTE: Everyone with a given tag (the sidebar list is filtered too)
+    // Example URL: /tags/Team
+    route("tags/:tag", "routes/tag.tsx"),
+
+    // ORGANIZATIONS ROUTES: The companies people work at, and who works
+    // at each (the sidebar list is filtered to them too)
+    // Example URLs: /organizations, /organizations/k3j9x0a,
+    // /organizations/k3j9x0a/edit
+    route("organizations", "routes/organizations.tsx"),
+    route("organizations/:orgId", "routes/organization.tsx"),
+    route("organizations/:orgId/edit", "routes/edit-organization.tsx"),
+
+    // DUPLICATES ROUTE: Pairs of contacts that look like the same person
+    // Example URL: /duplicates
+    route("duplicates", "routes/duplicates.tsx"),
+
+    // MERGE ROUTE: Compare two contacts side by side and combine them
+    // Example URL: /duplicates/ryan-florence/mb5ftua
+    route("duplicates/:firstId/:secondId", "routes/merge-contacts.tsx"),
+
+    // IMPORT ROUTE: Upload a .vcf file to add many contacts at once
+    // Example URL: /import/vcard
+    route("import/vcard", "routes/import-vcard.tsx"),
+
+    // IMPORT ROUTE: Upload a spreadsheet and map its columns to contact fields
+    // Example URL: /import/csv
+    route("import/csv", "routes/import-csv.tsx"),
+
+    // API TOKENS ROUTE: Create and revoke keys for the JSON API
+    // Example URL: /api-tokens
+    route("api-tokens", "routes/api-tokens.tsx"),
+
+    // ADDRESS BOOKS ROUTE: Make, rename, share and switch between books
+    // Example URL: /address-books
+    route("address-books", "routes/address-books.tsx"),
   ]),
   
   // STANDALONE ROUTE: This is outside the layout, so no sidebar
   // When someone visits "/about", show the about.tsx component
   route("about", "routes/about.tsx"),
+
+  // ACCOUNT ROUTES: Also outside the layout - the sidebar needs a logged-in
+  // user, and these pages are for people who aren't logged in yet
+  // Example URLs: /login, /register, /logout (a POST from the sidebar)
+  route("login", "routes/login.tsx"),
+  route("register", "routes/register.tsx"),
+  route("logout", "routes/logout.tsx"),
+
+  // DATA ROUTE: More of the sidebar's contact list, loaded while scrolling
+  // Example URL: /contact-list?q=ryan&after=WyJGbG9y...
+  route("contact-list", "routes/contact-list.tsx"),
+
+  // DATA ROUTE: The contacts matching what's typed in the command palette
+  // Example URL: /command-palette?q=rflo
+  route("command-palette", "routes/command-palette.tsx"),
+
+  // RESOURCE ROUTES: These return files instead of pages (no sidebar needed)
+  // Example URLs: /export/vcf, /export/csv?q=ryan
+  route("export/:format", "routes/export-contacts.tsx"),
+  // Example URL: /contacts/ryan-florence/export/vcf
+  route(
+    "contacts/:contactId/export/:format",
+    "routes/export-contact.tsx",
+  ),
+  // Example URL: /avatars/3f9a0c1d2e4b5a6c?size=192 (an uploaded photo)
+  route("avatars/:avatarId", "routes/avatar.tsx"),
+  // Example URL: /calendar.ics?token=abk_... (birthdays for calendar apps)
+  route("calendar.ics", "routes/calendar-feed.tsx"),
+
+  // API ROUTES: JSON for scripts and other services (need an API token)
+  // Example URLs: /api/contacts, /api/contacts/ryan-florence
+  route("api/contacts", "routes/api-contacts.tsx"),
+  route("api/contacts/:contactId", "routes/api-contact.tsx"),
 ] satisfies RouteConfig; // This ensures TypeScript checks that we defined routes correctly
 
 // ============================================================================
@@ -0,0 +1,414 @@
+// ============================================================================
+// ADDRESS-BOOKS.TSX - Make, share and switch between address books
+// ============================================================================
+// Every user has a personal address book, and can make more - a family
+// one, a company directory... The owner of a book can share it with other
+// users, either as an "editor" (who can add, change and delete its
+// contacts) or a "viewer" (who can only look).
+//
+// The sidebar shows one book at a time. Which one is kept in the session
+// (see requireAddressBook() in auth.server.ts), and changed by the
+// switcher at the top of the sidebar - which posts here.
+// URL pattern: /address-books
+
+// Import React Router components
+import { Form, data, redirect, useNavigation, useSubmit } from "react-router";
+
+// Import TypeScript types, the login helpers and data functions
+import type { Route } from "./+types/address-books";
+import type { AddressBookMember } from "../data";
+import { requireAddressBook, requireUserId } from "../auth.server";
+import {
+  createAddressBook,
+  deleteAddressBook,
+  getAddressBook,
+  getAddressBooks,
+  getUser,
+  getUserByEmail,
+  leaveAddressBook,
+  renameAddressBook,
+  setAddressBookMember,
+} from "../data";
+import { commitSession, getSession } from "../sessions.server";
+
+// The longest name a book can have
+const BOOK_NAME_MAX_LENGTH = 100;
+
+// What the owner can share a book as, as the menus show them
+const MEMBER_ROLE_LABELS: Record<AddressBookMember["role"], string> = {
+  editor: "Can edit",
+  viewer: "Can view",
+};
+
+// ============================================================================
+// LOADER FUNCTION: Every book the user can see, with who it's shared with
+// ============================================================================
+export async function loader({ request }: Route.LoaderArgs) {
+  const { bookId, userId } = await requireAddressBook(request);
+  const books = await getAddressBooks(userId);
+
+  return {
+    currentBookId: bookId,
+    books: await Promise.all(
+      books.map(async (book) => ({
+        id: book.id,
+        name: book.name,
+        personal: isOwnPersonal(book, userId),
+        role: book.role,
+        // Whose it is (only shown on books shared with the user)
+        ownerEmail: (await getUser(book.ownerId))?.email ?? "someone",
+        // Who it's shared with (only the owner gets to see the list)
+        members:
+          book.role === "owner"
+            ? await Promise.all(
+                book.members.map(async (member) => ({
+                  userId: member.userId,
+                  role: member.role,
+                  email: (await getUser(member.userId))?.email ?? "(deleted account)",
+                })),
+              )
+            : [],
+      })),
+    ),
+  };
+}
+
+// ============================================================================
+// ACTION FUNCTION: Every change on this page, picked by "intent"
+// ============================================================================
+// Errors come back with the ID of the book they're about (null for the
+// "new address book" form), so each one shows next to the right form
+export async function action({ request }: Route.ActionArgs) {
+  const userId = await requireUserId(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const bookId = String(formData.get("bookId") ?? "");
+
+  // NEW BOOK: Needs a name, and is empty to begin with
+  if (intent === "create") {
+    const name = readName(formData);
+    if (name.error) {
+      return data({ error: name.error, bookId: null }, { status: 400 });
+    }
+    await createAddressBook(userId, name.value);
+    return { error: null, bookId: null };
+  }
+
+  // Everything else is about an existing book the user can see
+  const book = await getAddressBook(userId, bookId);
+  if (!book) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  // SWITCH: Remember the book in the session, and show it from the start
+  if (intent === "switch") {
+    const session = await getSession(request.headers.get("Cookie"));
+    session.set("bookId", book.id);
+    return redirect("/", {
+      headers: { "Set-Cookie": await commitSession(session) },
+    });
+  }
+
+  // LEAVE: Give back a book someone else shared
+  if (intent === "leave") {
+    if (book.role === "owner") {
+      throw new Response("Owners can't leave their own address book", { status: 400 });
+    }
+    await leaveAddressBook(userId, book.id);
+    return { error: null, bookId: null };
+  }
+
+  // Everything below is only for the owner
+  if (book.role !== "owner") {
+    throw new Response("Forbidden", { status: 403 });
+  }
+
+  if (intent === "rename") {
+    const name = readName(formData);
+    if (name.error) {
+      return data({ error: name.error, bookId: book.id }, { status: 400 });
+    }
+    await renameAddressBook(userId, book.id, name.value);
+    return { error: null, bookId: null };
+  }
+
+  if (intent === "delete") {
+    if (book.personal) {
+      throw new Response("Personal address books can't be deleted", { status: 400 });
+    }
+    // Whoever had it open (in their session) goes back to their personal
+    // book on their next request - requireAddressBook() sees to that
+    await deleteAddressBook(userId, book.id);
+    return { error: null, bookId: null };
+  }
+
+  // SHARE: Find the user by email, and give them a role
+  if (intent === "share") {
+    const role = readRole(formData);
+    const member = await getUserByEmail(String(formData.get("email") ?? ""));
+    if (!member) {
+      return data(
+        { error: "There's no account with that email.", bookId: book.id },
+        { status: 400 },
+      );
+    }
+    if (member.id === userId) {
+      return data(
+        { error: "That's you - it's already yours.", bookId: book.id },
+        { status: 400 },
+      );
+    }
+    await setAddressBookMember(userId, book.id, member.id, role);
+    return { error: null, bookId: null };
+  }
+
+  // CHANGE ROLE / STOP SHARING: For someone it's already shared with
+  if (intent === "setRole" || intent === "unshare") {
+    const memberId = String(formData.get("userId") ?? "");
+    if (!book.members.some((member) => member.userId === memberId)) {
+      throw new Response("Not Found", { status: 404 });
+    }
+    await setAddressBookMember(
+      userId,
+      book.id,
+      memberId,
+      intent === "setRole" ? readRole(formData) : null,
+    );
+    return { error: null, bookId: null };
+  }
+
+  throw new Response("Unknown intent", { status: 400 });
+}
+
+// ============================================================================
+// MAIN COMPONENT: The list of books, with what can be done to each
+// ============================================================================
+export default function AddressBooks({ actionData, loaderData }: Route.ComponentProps) {
+  const { books, currentBookId } = loaderData;
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const creating = navigation.formData?.get("intent") === "create";
+
+  // The error for one form (null when there isn't one, or it's for another)
+  const errorFor = (bookId: string | null) =>
+    actionData?.error && actionData.bookId === bookId ? actionData.error : null;
+
+  return (
+    <div id="address-books-page">
+      <h1>Address books</h1>
+      <p>
+        Share an address book so others can see it - or, as editors, change
+        it too. The menu at the top of the sidebar switches between them.
+      </p>
+
+      {/* CREATE: A new, empty book */}
+      <Form className="book-create" method="post">
+        <input
+          aria-label="Address book name"
+          maxLength={BOOK_NAME_MAX_LENGTH}
+          name="name"
+          placeholder="New address book, e.g. Family"
+          required
+        />
+        <button disabled={creating} name="intent" type="submit" value="create">
+          {creating ? "Creating..." : "Create"}
+        </button>
+      </Form>
+      <FieldError message={errorFor(null)} />
+
+      <ul className="book-list">
+        {books.map((book) => (
+          <li key={book.id}>
+            <header>
+              <span>
+                <b>{book.name}</b>
+                {book.id === currentBookId ? <small> · open now</small> : null}
+                <br />
+                <small>
+                  {book.personal
+                    ? "Your personal address book"
+                    : book.role === "owner"
+                      ? "Yours"
+                      : `Shared by ${book.ownerEmail} · ${MEMBER_ROLE_LABELS[book.role].toLowerCase()}`}
+                  {book.members.length
+                    ? ` · shared with ${book.members.length} ${book.members.length === 1 ? "person" : "people"}`
+                    : ""}
+                </small>
+              </span>
+
+              {/* OPEN: The same as picking it in the sidebar's menu */}
+              {book.id !== currentBookId ? (
+                <Form method="post">
+                  <input name="bookId" type="hidden" value={book.id} />
+                  <button name="intent" type="submit" value="switch">
+                    Open
+                  </button>
+                </Form>
+              ) : null}
+
+              {/* LEAVE: Only for books someone else shared */}
+              {book.role !== "owner" ? (
+                <Form method="post" onSubmit={confirmLeave}>
+                  <input name="bookId" type="hidden" value={book.id} />
+                  <button name="intent" type="submit" value="leave">
+                    Leave
+                  </button>
+                </Form>
+              ) : null}
+
+              {/* DELETE: Only the owner's, and never the personal one */}
+              {book.role === "owner" && !book.personal ? (
+                <Form method="post" onSubmit={confirmDelete}>
+                  <input name="bookId" type="hidden" value={book.id} />
+                  <button name="intent" type="submit" value="delete">
+                    Delete
+                  </button>
+                </Form>
+              ) : null}
+            </header>
+
+            {/* OWNER TOOLS: Renaming and sharing */}
+            {book.role === "owner" ? (
+              <>
+                <Form className="book-rename" method="post">
+                  <input name="bookId" type="hidden" value={book.id} />
+                  <input
+                    aria-label={`Rename ${book.name}`}
+                    defaultValue={book.name}
+                    key={book.name}
+                    maxLength={BOOK_NAME_MAX_LENGTH}
+                    name="name"
+                    required
+                  />
+                  <button name="intent" type="submit" value="rename">
+                    Rename
+                  </button>
+                </Form>
+
+                {/* MEMBERS: Who it's shared with, and what they can do */}
+                {book.members.length ? (
+                  <ul className="book-members">
+                    {book.members.map((member) => (
+                      <li key={member.userId}>
+                        <span>{member.email}</span>
+                        {/* Changing the menu saves straight away */}
+                        <Form method="post">
+                          <input name="bookId" type="hidden" value={book.id} />
+                          <input name="userId" type="hidden" value={member.userId} />
+                          <input name="intent" type="hidden" value="setRole" />
+                          <select
+                            aria-label={`What ${member.email} can do`}
+                            defaultValue={member.role}
+                            key={member.role}
+                            name="role"
+                            onChange={(event) => submit(event.currentTarget.form)}
+                          >
+                            {Object.entries(MEMBER_ROLE_LABELS).map(([value, label]) => (
+                              <option key={value} value={value}>
+                                {label}
+                              </option>
+                            ))}
+                          </select>
+                        </Form>
+                        <Form method="post">
+                          <input name="bookId" type="hidden" value={book.id} />
+                          <input name="userId" type="hidden" value={member.userId} />
+                          <button name="intent" type="submit" value="unshare">
+                            Remove
+                          </button>
+                        </Form>
+                      </li>
+                    ))}
+                  </ul>
+                ) : null}
+
+                {/* SHARE: Anyone with an account, by email */}
+                <Form className="book-share" method="post">
+                  <input name="bookId" type="hidden" value={book.id} />
+                  <input
+                    aria-label={`Share ${book.name} with`}
+                    name="email"
+                    placeholder="Share with (email)"
+                    required
+                    type="email"
+                  />
+                  <select aria-label="What they can do" defaultValue="viewer" name="role">
+                    {Object.entries(MEMBER_ROLE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <button name="intent" type="submit" value="share">
+                    Share
+                  </button>
+                </Form>
+                <FieldError message={errorFor(book.id)} />
+              </>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// READ NAME: A book's name from the form, or what's wrong with it
+function readName(formData: FormData): { value: string; error: string | null } {
+  const value = String(formData.get("name") ?? "").trim();
+  if (!value) return { value, error: "Give the address book a name." };
+  if (value.length > BOOK_NAME_MAX_LENGTH) {
+    return { value, error: `Names must be at most ${BOOK_NAME_MAX_LENGTH} characters.` };
+  }
+  return { value, error: null };
+}
+
+// READ ROLE: "editor" or "viewer" from the form (anything else means viewer,
+// so a tampered form can never give more than asked for)
+function readRole(formData: FormData): AddressBookMember["role"] {
+  return formData.get("role") === "editor" ? "editor" : "viewer";
+}
+
+// IS OWN PERSONAL: Is this the user's own personal book? (Someone else's
+// personal book, shared with them, can be left like any other)
+function isOwnPersonal(book: { ownerId: string; personal?: boolean }, userId: string) {
+  return Boolean(book.personal) && book.ownerId === userId;
+}
+
+// CONFIRM DELETE: Every contact in the book goes too, so double-check first
+function confirmDelete(event: React.FormEvent<HTMLFormElement>) {
+  if (!confirm("Delete this address book and every contact in it? It can't be undone.")) {
+    event.preventDefault();
+  }
+}
+
+// CONFIRM LEAVE: Only the owner can share it again
+function confirmLeave(event: React.FormEvent<HTMLFormElement>) {
+  if (!confirm("Leave this address book? Only its owner can share it with you again.")) {
+    event.preventDefault();
+  }
+}
+
+// FIELD ERROR: The message under a form (nothing when it's fine)
+function FieldError({ message }: { message: string | null }) {
+  if (!message) return null;
+  return (
+    <p className="field-error" role="alert">
+      {message}
+    </p>
+  );
+}
+
+// ============================================================================
+// HOW ADDRESS-BOOKS.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /address-books (inside the sidebar layout)
+// 2. The "Manage" link next to the sidebar's address book menu navigates
+//    here - and the menu itself posts here with intent "switch"
+// 3. The action calls the ADDRESS BOOKS functions in data.ts
+// 4. Switching saves the book's ID in the session (sessions.server.ts);
+//    requireAddressBook() (auth.server.ts) reads it on every other page
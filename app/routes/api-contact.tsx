@@ -0,0 +1,91 @@
+// ============================================================================
+// API-CONTACT.TSX - One contact, through the JSON API
+// ============================================================================
+// This is a "resource route" - it has no UI component. Scripts and other
+// services use it with an API token (see api.server.ts):
+//
+//   GET    /api/contacts/:contactId   The contact
+//   PATCH  /api/contacts/:contactId   Change some of its fields (only the
+//                                     ones in the JSON body)
+//   DELETE /api/contacts/:contactId   Move it to the trash (it can be
+//                                     restored from /trash, like any other)
+
+// Import TypeScript types for this route
+import type { Route } from "./+types/api-contact";
+
+// Import the API helpers and data functions
+import {
+  apiError,
+  methodNotAllowed,
+  readContactInput,
+  requireApiBookId,
+  toApiContact,
+  validateContactInput,
+} from "../api.server";
+import { deleteContact, getContact, updateContact } from "../data";
+
+// ============================================================================
+// LOADER FUNCTION: GET - the contact
+// ============================================================================
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const bookId = await requireApiBookId(request);
+  const contact = await findContact(bookId, params.contactId);
+  return Response.json(toApiContact(contact));
+}
+
+// ============================================================================
+// ACTION FUNCTION: PATCH and DELETE
+// ============================================================================
+export async function action({ params, request }: Route.ActionArgs) {
+  if (request.method !== "PATCH" && request.method !== "DELETE") {
+    throw methodNotAllowed(request, ["GET", "PATCH", "DELETE"]);
+  }
+  const bookId = await requireApiBookId(request);
+  const contact = await findContact(bookId, params.contactId);
+
+  if (request.method === "DELETE") {
+    await deleteContact(bookId, contact.id);
+    // 204 No Content: done, and nothing to say about it
+    return new Response(null, { status: 204 });
+  }
+
+  // PATCH: Check the contact as it will be after the change - and only save
+  // it over the version that was checked (someone may save in between)
+  const input = await readContactInput(request);
+  const updated = await updateContact(
+    bookId,
+    contact.id,
+    validateContactInput(input, contact),
+    contact.version ?? 0,
+  );
+  if (!updated) {
+    throw apiError(409, "conflict", "The contact changed while saving. Try again.");
+  }
+  return Response.json(toApiContact(updated));
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// FIND CONTACT: The contact, or a 404 (contacts in the trash - and contacts
+// in other address books - count as gone)
+async function findContact(bookId: string, contactId: string) {
+  const contact = await getContact(bookId, contactId);
+  if (!contact) {
+    throw apiError(404, "not_found", `No contact with ID "${contactId}".`);
+  }
+  return contact;
+}
+
+// ============================================================================
+// HOW API-CONTACT.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /api/contacts/:contactId
+// 2. api.server.ts checks the token, reads and validates the JSON body, and
+//    turns the contact into its API shape
+// 3. getContact(), updateContact() and deleteContact() (data.ts) do the
+//    actual work - a PATCH shows up in the contact's history like any edit
+//
+// NOTE: This file has NO default export (no component)
+//       It's a "resource route" that only returns JSON
@@ -0,0 +1,99 @@
+// ============================================================================
+// API-CONTACTS.TSX - The JSON API's list of contacts
+// ============================================================================
+// This is a "resource route" - it has no UI component. Scripts and other
+// services use it with an API token (see api.server.ts):
+//
+//   GET  /api/contacts    A page of contacts (searched, filtered, sorted)
+//   POST /api/contacts    Create a contact from a JSON body
+//
+// GET takes the same search the sidebar does, plus paging:
+//   q=...            Search (same language as the search box, e.g. "tag:Team")
+//   tag=...          Only contacts with this tag
+//   sort=...         last (default), first, created, updated, favorites or contacted
+//   limit=...        Contacts per page (default 50, at most 200)
+//   after=<cursor>   The page after this one (use "nextCursor" from the answer)
+//   before=<cursor>  The page before this one (use "prevCursor")
+
+// Import TypeScript types for this route
+import type { Route } from "./+types/api-contacts";
+
+// Import the API helpers and data functions
+import {
+  apiError,
+  methodNotAllowed,
+  readContactInput,
+  requireApiBookId,
+  toApiContact,
+  validateContactInput,
+} from "../api.server";
+import { createContact, getContactsPage, isContactSort } from "../data";
+
+// ============================================================================
+// LOADER FUNCTION: GET - one page of contacts
+// ============================================================================
+export async function loader({ request }: Route.LoaderArgs) {
+  const bookId = await requireApiBookId(request);
+
+  const searchParams = new URL(request.url).searchParams;
+  const sort = searchParams.get("sort");
+  if (sort && !isContactSort(sort)) {
+    throw apiError(422, "validation_failed", "Some parameters are invalid.", {
+      details: { sort: "Must be last, first, created, updated, favorites or contacted." },
+    });
+  }
+  const limit = searchParams.get("limit");
+  if (limit && !/^\d+$/.test(limit)) {
+    throw apiError(422, "validation_failed", "Some parameters are invalid.", {
+      details: { limit: "Must be a whole number." },
+    });
+  }
+
+  const page = await getContactsPage(bookId, searchParams.get("q"), {
+    tag: searchParams.get("tag"),
+    sort: isContactSort(sort) ? sort : undefined,
+    limit: limit ? Number(limit) : undefined,
+    after: searchParams.get("after"),
+    before: searchParams.get("before"),
+  });
+
+  return Response.json({
+    data: page.contacts.map(toApiContact),
+    total: page.total,
+    startIndex: page.startIndex,
+    nextCursor: page.nextCursor,
+    prevCursor: page.prevCursor,
+  });
+}
+
+// ============================================================================
+// ACTION FUNCTION: POST - create a contact
+// ============================================================================
+export async function action({ request }: Route.ActionArgs) {
+  if (request.method !== "POST") {
+    throw methodNotAllowed(request, ["GET", "POST"]);
+  }
+  const bookId = await requireApiBookId(request);
+
+  const values = validateContactInput(await readContactInput(request));
+  const contact = await createContact(bookId, values);
+
+  // 201 Created, with where to find the new contact
+  return Response.json(toApiContact(contact), {
+    status: 201,
+    headers: { Location: `/api/contacts/${contact.id}` },
+  });
+}
+
+// ============================================================================
+// HOW API-CONTACTS.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /api/contacts (outside the sidebar)
+// 2. api.server.ts checks the token, reads and validates the JSON body, and
+//    turns contacts into their API shape
+// 3. getContactsPage() and createContact() (data.ts) do the actual work -
+//    the same functions the sidebar and the "New" button use
+// 4. api-contact.tsx handles a single contact (/api/contacts/:contactId)
+//
+// NOTE: This file has NO default export (no component)
+//       It's a "resource route" that only returns JSON
@@ -0,0 +1,218 @@
+// ============================================================================
+// API-TOKENS.TSX - Create and revoke keys for the JSON API
+// ============================================================================
+// Scripts and other services that use /api/contacts need a token. A token
+// works with the personal address book of the user who made it. Each one
+// gets a name (so it's clear later what it was for) and can be revoked on
+// its own, without breaking the others.
+//
+// A token's secret is shown exactly once, right after it's created - only a
+// hash of it is stored, so it can't be shown again. Lost it? Revoke the
+// token and create a new one.
+//
+// Calendar tokens are made here too: they only open the birthdays feed
+// (calendar-feed.tsx), so they're shown as the feed's whole URL instead.
+// URL pattern: /api-tokens
+
+// Import React Router components
+import { Form, data, useNavigation } from "react-router";
+
+// Import TypeScript types and data functions
+import type { Route } from "./+types/api-tokens";
+import { requireUserId } from "../auth.server";
+import { createApiToken, getApiTokens, revokeApiToken } from "../data";
+
+// The longest name a token can have
+const TOKEN_NAME_MAX_LENGTH = 100;
+
+// ============================================================================
+// LOADER FUNCTION: Fetches the user's tokens (without their hashes)
+// ============================================================================
+export async function loader({ request }: Route.LoaderArgs) {
+  const userId = await requireUserId(request);
+  const tokens = await getApiTokens(userId);
+
+  return {
+    tokens: tokens.map((token) => ({
+      id: token.id,
+      name: token.name,
+      createdAt: token.createdAt,
+      lastUsedAt: token.lastUsedAt ?? null,
+      calendar: token.scope === "calendar",
+    })),
+  };
+}
+
+// ============================================================================
+// ACTION FUNCTION: Creates or revokes a token
+// ============================================================================
+export async function action({ request }: Route.ActionArgs) {
+  const userId = await requireUserId(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "create") {
+    const name = String(formData.get("name") ?? "").trim();
+    if (!name) {
+      return data({ error: "Give the token a name.", secret: null }, { status: 400 });
+    }
+    if (name.length > TOKEN_NAME_MAX_LENGTH) {
+      return data(
+        { error: `Names must be at most ${TOKEN_NAME_MAX_LENGTH} characters.`, secret: null },
+        { status: 400 },
+      );
+    }
+
+    // Send the secret back to the page this one time - for the calendar,
+    // as the URL to subscribe to
+    const calendar = formData.get("scope") === "calendar";
+    const { secret, token } = await createApiToken(
+      userId,
+      name,
+      calendar ? "calendar" : undefined,
+    );
+    const value = calendar
+      ? new URL(`/calendar.ics?token=${secret}`, request.url).href
+      : secret;
+    return { error: null, secret: { name: token.name, value, calendar } };
+  }
+
+  if (intent === "revoke") {
+    const tokenId = String(formData.get("tokenId") ?? "");
+    if (!(await getApiTokens(userId)).some((token) => token.id === tokenId)) {
+      throw new Response("Not Found", { status: 404 });
+    }
+    await revokeApiToken(userId, tokenId);
+    return { error: null, secret: null };
+  }
+
+  throw new Response("Unknown intent", { status: 400 });
+}
+
+// ============================================================================
+// MAIN COMPONENT: The list of tokens, and the form for a new one
+// ============================================================================
+export default function ApiTokens({ actionData, loaderData }: Route.ComponentProps) {
+  const { tokens } = loaderData;
+  const navigation = useNavigation();
+  const creating = navigation.formData?.get("intent") === "create";
+
+  return (
+    <div id="api-tokens-page">
+      <h1>API tokens</h1>
+      <p>
+        Tokens let scripts use the JSON API at <code>/api/contacts</code>.
+        Send one in the <code>Authorization</code> header:{" "}
+        <code>Bearer abk_...</code>
+      </p>
+      <p>
+        Calendar tokens give a link to subscribe to in a calendar app, with
+        everyone's birthdays, anniversaries and other dates. They can't be
+        used for anything else.
+      </p>
+
+      {/* NEW SECRET: Shown once, straight after it's created */}
+      {actionData?.secret ? (
+        <div className="token-secret" role="status">
+          <p>
+            Here's the {actionData.secret.calendar ? "calendar link" : "token"} for{" "}
+            <b>{actionData.secret.name}</b>. Copy it now - it won't be shown again.
+          </p>
+          <input
+            aria-label={actionData.secret.calendar ? "New calendar link" : "New token"}
+            onFocus={(event) => event.currentTarget.select()}
+            readOnly
+            value={actionData.secret.value}
+          />
+        </div>
+      ) : null}
+
+      {/* CREATE: A name, so the token can be recognized later */}
+      <Form className="token-create" method="post">
+        <input
+          aria-label="Token name"
+          maxLength={TOKEN_NAME_MAX_LENGTH}
+          name="name"
+          placeholder="What's it for? e.g. Nightly backup"
+          required
+        />
+        <select aria-label="Token type" name="scope">
+          <option value="api">JSON API</option>
+          <option value="calendar">Calendar feed</option>
+        </select>
+        <button disabled={creating} name="intent" type="submit" value="create">
+          {creating ? "Creating..." : "Create token"}
+        </button>
+      </Form>
+      {actionData?.error ? (
+        <p className="field-error" role="alert">
+          {actionData.error}
+        </p>
+      ) : null}
+
+      {tokens.length === 0 ? (
+        <p>
+          <i>No tokens yet.</i>
+        </p>
+      ) : (
+        <ul className="token-list">
+          {tokens.map((token) => (
+            <li key={token.id}>
+              <span>
+                {token.name}
+                <br />
+                <small>
+                  {token.calendar ? "Calendar feed · " : null}
+                  Created {formatDate(token.createdAt)} ·{" "}
+                  {token.lastUsedAt
+                    ? `last used ${formatDate(token.lastUsedAt)}`
+                    : "never used"}
+                </small>
+              </span>
+
+              {/* REVOKE: Anything still using the token stops working */}
+              <Form method="post" onSubmit={confirmRevoke}>
+                <input name="tokenId" type="hidden" value={token.id} />
+                <button name="intent" type="submit" value="revoke">
+                  Revoke
+                </button>
+              </Form>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// CONFIRM REVOKE: Anything using the token breaks, so double-check first
+function confirmRevoke(event: React.FormEvent<HTMLFormElement>) {
+  if (!confirm("Revoke this token? Anything using it will stop working.")) {
+    event.preventDefault();
+  }
+}
+
+// FORMAT DATE: "2024-05-01T12:00:00.000Z" → "May 1, 2024"
+// In UTC, so the server and the browser always render the same date
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// ============================================================================
+// HOW API-TOKENS.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /api-tokens (inside the sidebar layout)
+// 2. The "API tokens" link in sidebar.tsx navigates here
+// 3. The loader and action call getApiTokens(), createApiToken() and
+//    revokeApiToken() from data.ts
+// 4. api.server.ts checks the tokens made here on every /api/... request
+// 5. calendar-feed.tsx checks the calendar tokens on every /calendar.ics request
@@ -0,0 +1,73 @@
+// ============================================================================
+// AVATAR.TSX - Serves uploaded photos
+// ============================================================================
+// A "resource route" (no UI) that sends one thumbnail of an uploaded avatar
+// as a WebP image. ?size= picks which one (see AVATAR_SIZES in avatars.ts);
+// anything else gets the nearest bigger size.
+// URL pattern: /avatars/:avatarId (e.g. /avatars/3f9a0c1d2e4b5a6c?size=192)
+
+// Import TypeScript types for this route
+import type { Route } from "./+types/avatar";
+
+// Import the login check and the photo store
+import { requireUserId } from "../auth.server";
+import type { AvatarSize } from "../avatars";
+import { AVATAR_SIZES, uploadedAvatarId } from "../avatars";
+import { readAvatar } from "../avatars.server";
+
+// ============================================================================
+// LOADER FUNCTION: Sends the image
+// ============================================================================
+export async function loader({ params, request }: Route.LoaderArgs) {
+  // Photos are only for people who are logged in
+  await requireUserId(request);
+
+  // Not even shaped like an avatar ID? Then there's nothing to look up
+  const id = uploadedAvatarId(`/avatars/${params.avatarId}`);
+  const size = sizeFor(new URL(request.url).searchParams.get("size"));
+  const image = id ? await readAvatar(id, size) : null;
+  if (!image) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  // An avatar's ID is new for every upload, so what's at this URL never
+  // changes: browsers may keep it for a year without asking again
+  // ("private" - only the browser, never a shared cache, since it takes a login)
+  const etag = `"${id}-${size}"`;
+  const headers = {
+    "Cache-Control": "private, max-age=31536000, immutable",
+    ETag: etag,
+  };
+
+  // The browser already has it? Say so, without sending it again
+  if (request.headers.get("If-None-Match") === etag) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(new Uint8Array(image), {
+    headers: { ...headers, "Content-Type": "image/webp" },
+  });
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// SIZE FOR: The thumbnail to send for ?size= - the smallest one at least
+// that big (the biggest one if none is, and the middle one if it's missing)
+function sizeFor(param: string | null): AvatarSize {
+  const wanted = Number(param) || AVATAR_SIZES[1];
+  return AVATAR_SIZES.find((size) => size >= wanted) ?? AVATAR_SIZES[AVATAR_SIZES.length - 1];
+}
+
+// ============================================================================
+// HOW AVATAR.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /avatars/:avatarId (outside the
+//    sidebar layout)
+// 2. avatarImage() (avatars.ts) builds the URLs the <img> tags point here
+// 3. readAvatar() (avatars.server.ts) reads the thumbnails saveAvatar() made
+//    when the photo was uploaded on edit-contact.tsx
+//
+// NOTE: This file has NO default export (no component)
+//       It's a "resource route" that only returns an image
@@ -0,0 +1,201 @@
+// ============================================================================
+// BULK-CONTACTS.TSX - Does one thing to many contacts at once
+// ============================================================================
+// This is an "action-only" route - it has no UI component. The selection
+// bar in sidebar.tsx posts here with the IDs of the ticked contacts (or
+// "all" plus the search, for every result) and what to do with them:
+//
+//   delete       Move them all to the trash
+//   favorite     Mark them all as favorites
+//   unfavorite   ...or not
+//   addTag       Add the tag in "bulkTag" to each of them
+//   removeTag    Take it off again
+//   export       Download them as a file ("format" is vcf or csv)
+//
+// Each contact is changed on its own, so one that can't be (it was deleted
+// in the meantime, or already has as many tags as allowed) doesn't stop
+// the others. The answer lists the ones that failed, and why.
+// URL pattern: /contacts/bulk
+
+// Import React Router helpers
+import { data } from "react-router";
+
+// Import TypeScript types and data functions
+import type { Route } from "./+types/bulk-contacts";
+import { requireAddressBook } from "../auth.server";
+import { TAGS_MAX, TAG_MAX_LENGTH, cleanTags } from "../contact-schema";
+import type { ContactRecord } from "../data";
+import {
+  batchWrites,
+  deleteContacts,
+  getContact,
+  getContacts,
+  isContactSort,
+  updateContact,
+} from "../data";
+import { createExportResponse, isExportFormat } from "../export";
+
+// What the selection bar can ask for (besides "export")
+type BulkIntent = "delete" | "favorite" | "unfavorite" | "addTag" | "removeTag";
+
+// The ones that change each contact in turn
+type UpdateIntent = Exclude<BulkIntent, "delete">;
+
+// One contact that couldn't be changed
+type BulkFailure = {
+  id: string;
+  name: string;
+  reason: string;
+};
+
+const BULK_INTENTS: BulkIntent[] = ["delete", "favorite", "unfavorite", "addTag", "removeTag"];
+
+// ============================================================================
+// ACTION FUNCTION: Applies the operation to every selected contact
+// ============================================================================
+export async function action({ request }: Route.ActionArgs) {
+  const { bookId } = await requireAddressBook(request, "edit");
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  // Which contacts? Every result of the search the sidebar shows, or just
+  // the ticked ones
+  let ids: string[];
+  if (formData.get("all") === "true") {
+    const sort = formData.get("sort");
+    const results = await getContacts(bookId, String(formData.get("q") ?? ""), {
+      tag: String(formData.get("tag") ?? "") || null,
+      organizationId: String(formData.get("org") ?? "") || null,
+      sort: isContactSort(sort) ? sort : undefined,
+    });
+    ids = results.map((contact) => contact.id);
+  } else {
+    ids = formData.getAll("ids").map(String);
+  }
+  if (ids.length === 0) {
+    return data({ error: "No contacts are selected." }, { status: 400 });
+  }
+
+  // EXPORT: A download rather than a change
+  if (intent === "export") {
+    const format = String(formData.get("format") ?? "");
+    if (!isExportFormat(format)) {
+      throw new Response("Not Found", { status: 404 });
+    }
+    const contacts = (await Promise.all(ids.map((id) => getContact(bookId, id)))).filter(
+      (contact): contact is ContactRecord => contact !== null,
+    );
+    return createExportResponse(contacts, format, "contacts-selected");
+  }
+
+  if (!BULK_INTENTS.includes(intent as BulkIntent)) {
+    throw new Response("Unknown intent", { status: 400 });
+  }
+
+  // Adding or removing a tag needs a tag (cleaned the same way the edit
+  // form cleans them)
+  const [tagName = ""] = cleanTags([String(formData.get("bulkTag") ?? "")]);
+  if (intent === "addTag" || intent === "removeTag") {
+    if (!tagName) {
+      return data({ error: "Enter a tag first." }, { status: 400 });
+    }
+    if (tagName.length > TAG_MAX_LENGTH) {
+      return data(
+        { error: `Tags must be at most ${TAG_MAX_LENGTH} characters.` },
+        { status: 400 },
+      );
+    }
+  }
+
+  // DELETE: All of them at once - deleting one at a time would go through
+  // the whole address book again for every contact
+  if (intent === "delete") {
+    const deleted = new Set((await deleteContacts(bookId, ids)).map((contact) => contact.id));
+    const failures: BulkFailure[] = [...new Set(ids)]
+      .filter((id) => !deleted.has(id))
+      .map((id) => ({ id, name: id, reason: "It no longer exists." }));
+    return { changed: deleted.size, error: null, failures, intent: intent as BulkIntent };
+  }
+
+  // One at a time - a failure is noted and the rest carry on. The database
+  // is written once at the end (see batchWrites() in data.ts)
+  let changed = 0;
+  const failures: BulkFailure[] = [];
+  await batchWrites(async () => {
+    for (const id of new Set(ids)) {
+      const contact = await getContact(bookId, id);
+      const reason = contact
+        ? await applyIntent(bookId, intent as UpdateIntent, contact, tagName)
+        : "It no longer exists.";
+      if (reason) {
+        failures.push({ id, name: contact ? displayName(contact) : id, reason });
+      } else {
+        changed += 1;
+      }
+    }
+  });
+
+  return { changed, error: null, failures, intent: intent as BulkIntent };
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// APPLY INTENT: Does the operation to one contact (deleting is done for
+// all of them at once, in the action)
+// Returns why it couldn't be done, or null when it worked
+async function applyIntent(
+  bookId: string,
+  intent: UpdateIntent,
+  contact: ContactRecord,
+  tagName: string,
+): Promise<string | null> {
+  try {
+    switch (intent) {
+      case "favorite":
+      case "unfavorite":
+        await updateContact(bookId, contact.id, { favorite: intent === "favorite" });
+        return null;
+      case "addTag": {
+        const tags = cleanTags([...(contact.tags ?? []), tagName]);
+        if (tags.length > TAGS_MAX) {
+          return `It already has ${TAGS_MAX} tags.`;
+        }
+        await updateContact(bookId, contact.id, { tags });
+        return null;
+      }
+      case "removeTag":
+        await updateContact(bookId, contact.id, {
+          tags: (contact.tags ?? []).filter(
+            (tag) => tag.toLowerCase() !== tagName.toLowerCase(),
+          ),
+        });
+        return null;
+    }
+  } catch {
+    // Something unexpected (like the database failing to save) - report
+    // it for this contact and move on to the next
+    return "It couldn't be saved.";
+  }
+}
+
+// DISPLAY NAME: "Ryan Florence", or "No Name" for blank contacts
+function displayName(contact: ContactRecord): string {
+  return [contact.first, contact.last].filter(Boolean).join(" ") || "No Name";
+}
+
+// ============================================================================
+// HOW BULK-CONTACTS.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /contacts/bulk
+// 2. The selection bar in sidebar.tsx submits to it - with a fetcher for
+//    changes (so the page stays put), and as a normal form for exports
+//    (so the browser downloads the file)
+// 3. The action calls deleteContacts() from data.ts for all of them at
+//    once, updateContact() for each contact, and createExportResponse()
+//    (export.ts) for exports
+// 4. The sidebar reloads its list afterwards, like after any action
+//
+// NOTE: This file has NO default export (no component)
+//       It's an "action-only" route
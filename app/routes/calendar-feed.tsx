@@ -0,0 +1,55 @@
+// ============================================================================
+// CALENDAR-FEED.TSX - Birthdays and other dates for calendar apps
+// ============================================================================
+// A "resource route" (no UI) that returns every date in the address book as
+// an .ics calendar, with each one repeating yearly. Calendar apps subscribe
+// to the URL and fetch it again every few hours, so new and changed dates
+// show up on their own.
+//
+// Calendar apps can't log in or send headers, so the token goes in the URL.
+// Only tokens made for the calendar (on /api-tokens) work here - they can't
+// reach the JSON API, so a leaked feed URL only shows dates. Like the API,
+// the feed covers the token owner's personal address book.
+// URL pattern: /calendar.ics?token=abk_...
+
+// Import TypeScript types for this route
+import type { Route } from "./+types/calendar-feed";
+
+// Import the data functions and the .ics writer
+import { findApiToken, getContacts, getPersonalAddressBook } from "../data";
+import { toICalendar } from "../icalendar";
+
+// ============================================================================
+// LOADER FUNCTION: Builds the calendar
+// ============================================================================
+export async function loader({ request }: Route.LoaderArgs) {
+  const secret = new URL(request.url).searchParams.get("token");
+  const token = secret ? await findApiToken(secret) : null;
+
+  // No token, a revoked one, or one made for the JSON API instead
+  if (!token?.userId || token.scope !== "calendar") {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  const book = await getPersonalAddressBook(token.userId);
+  const contacts = await getContacts(book.id);
+
+  return new Response(toICalendar(contacts, book.name), {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      // Always fresh - calendar apps decide themselves how often to ask
+      "Cache-Control": "private, no-cache",
+    },
+  });
+}
+
+// ============================================================================
+// HOW CALENDAR-FEED.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /calendar.ics (outside the sidebar)
+// 2. api-tokens.tsx makes the calendar tokens, and shows the feed's URL
+// 3. findApiToken() and getContacts() come from data.ts
+// 4. toICalendar() (icalendar.ts) writes the .ics text
+//
+// NOTE: This file has NO default export (no component)
+//       It's a "resource route" that only returns a calendar
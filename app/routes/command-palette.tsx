@@ -0,0 +1,47 @@
+// ============================================================================
+// COMMAND-PALETTE.TSX - The contacts the command palette offers, as data
+// ============================================================================
+// Another "resource route" like contact-list.tsx. The palette (Ctrl+K, in
+// sidebar.tsx) loads it with a fetcher as the user types, and lists the
+// contacts it sends back above its actions.
+// URL pattern: /command-palette?q=rflo
+//
+// The letters are matched loosely ("rflo" finds Ryan Florence) - see
+// fuzzyScore() in search.ts
+
+// Import TypeScript types for this route
+import type { Route } from "./+types/command-palette";
+
+// Import the data functions
+import { requireAddressBook } from "../auth.server";
+import { findContactsByName } from "../data";
+
+// ============================================================================
+// LOADER FUNCTION: Returns the best matching contacts
+// ============================================================================
+export async function loader({ request }: Route.LoaderArgs) {
+  const { bookId } = await requireAddressBook(request);
+  const q = new URL(request.url).searchParams.get("q") ?? "";
+  const contacts = await findContactsByName(bookId, q);
+
+  // Only what a line of the palette shows
+  return {
+    contacts: contacts.map((contact) => ({
+      id: contact.id,
+      name: [contact.first, contact.last].filter(Boolean).join(" "),
+      company: contact.company ?? "",
+    })),
+  };
+}
+
+// ============================================================================
+// HOW COMMAND-PALETTE.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /command-palette (outside the sidebar)
+// 2. The CommandPalette in sidebar.tsx loads it with useFetcher() as the
+//    user types, and opens the contact they pick (contact.tsx)
+// 3. The loader calls findContactsByName() (data.ts), which ranks the
+//    address book's contacts with fuzzyScore() (search.ts)
+//
+// NOTE: This file has NO default export (no component)
+//       It's a "resource route" that only returns data
@@ -0,0 +1,278 @@
+// ============================================================================
+// CONTACT-HISTORY.TSX - Every edit ever made to a contact
+// ============================================================================
+// Each save of a contact is recorded as a revision (see data.ts). This page
+// lists them newest first, showing exactly what changed, and lets the user
+// go back to any earlier version.
+// URL pattern: /contacts/:contactId/history
+
+// Import React Router components
+import { Form, Link, redirect, useNavigation } from "react-router";
+
+// Import TypeScript types and data functions
+import type { Route } from "./+types/contact-history";
+import type { ContactRevision, FieldChange, TrackedField } from "../data";
+import { requireAddressBook } from "../auth.server";
+import { getContact, getContactNames, getRevisions, revertContact } from "../data";
+import { describeDate, formatDate, formatDateTime } from "../dates";
+import { diffLists, diffWords } from "../diff";
+import { relationshipLabel } from "../relationships";
+
+// What each field is called on the page
+const FIELD_LABELS: Record<TrackedField, string> = {
+  first: "First name",
+  last: "Last name",
+  company: "Company",
+  title: "Job title",
+  avatar: "Avatar",
+  twitter: "Twitter",
+  notes: "Notes",
+  favorite: "Favorite",
+  phones: "Phones",
+  emails: "Emails",
+  addresses: "Addresses",
+  tags: "Tags",
+  dates: "Dates",
+  related: "Related people",
+};
+
+// ============================================================================
+// LOADER FUNCTION: Fetches the contact and its revisions
+// ============================================================================
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const { bookId, canEdit } = await requireAddressBook(request);
+  const contact = await getContact(bookId, params.contactId);
+  if (!contact) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  const revisions = await getRevisions(bookId, params.contactId);
+
+  // The names of everyone the contact was ever related to (the revisions
+  // only keep their IDs)
+  const names = await getContactNames(
+    bookId,
+    revisions.flatMap((revision) =>
+      revision.changes.flatMap((change) =>
+        change.field === "related"
+          ? [...(change.before ?? []), ...(change.after ?? [])].map(
+              (relationship) => relationship.contactId,
+            )
+          : [],
+      ),
+    ),
+  );
+
+  // canEdit: viewers of a shared address book can't revert
+  return { canEdit, contact, names, revisions };
+}
+
+// ============================================================================
+// ACTION FUNCTION: Reverts the contact to an older revision
+// ============================================================================
+export async function action({ params, request }: Route.ActionArgs) {
+  const { bookId } = await requireAddressBook(request, "edit");
+  const formData = await request.formData();
+  const revisionId = String(formData.get("revisionId") ?? "");
+
+  // Make sure both the contact and the revision (of THIS contact) exist
+  const contact = await getContact(bookId, params.contactId);
+  const revisions = await getRevisions(bookId, params.contactId);
+  if (!contact || !revisions.some((revision) => revision.id === revisionId)) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  await revertContact(bookId, params.contactId, revisionId);
+
+  // Back to the history, where the revert now shows as the newest entry
+  return redirect(`/contacts/${params.contactId}/history`);
+}
+
+// ============================================================================
+// MAIN COMPONENT: The timeline of edits
+// ============================================================================
+export default function ContactHistory({ loaderData }: Route.ComponentProps) {
+  const { canEdit, contact, names, revisions } = loaderData;
+  const navigation = useNavigation();
+  const busy = navigation.state === "submitting";
+
+  return (
+    <div id="history-page">
+      <h1>
+        History of{" "}
+        {contact.first || contact.last ? (
+          <>
+            {contact.first} {contact.last}
+          </>
+        ) : (
+          <i>No Name</i>
+        )}
+      </h1>
+      <p>
+        <Link to={`/contacts/${contact.id}`}>Back to the contact</Link>
+      </p>
+
+      {revisions.length === 0 ? (
+        <p>
+          <i>This contact hasn't been changed since it was created.</i>
+        </p>
+      ) : (
+        <ol className="revision-list">
+          {revisions.map((revision, index) => (
+            <li key={revision.id}>
+              <header>
+                <time dateTime={revision.createdAt}>
+                  {formatDateTime(revision.createdAt)}
+                </time>
+                {revision.revertedFrom ? (
+                  <small>
+                    {" "}
+                    · reverted to the version from{" "}
+                    {revertedDate(revisions, revision.revertedFrom)}
+                  </small>
+                ) : null}
+
+                {/* The newest revision IS the current version - nothing to revert to */}
+                {index === 0 ? (
+                  <small> · current version</small>
+                ) : canEdit ? (
+                  <Form method="post">
+                    <input name="revisionId" type="hidden" value={revision.id} />
+                    <button disabled={busy} type="submit">
+                      Revert to this version
+                    </button>
+                  </Form>
+                ) : null}
+              </header>
+
+              {/* One row per changed field */}
+              <dl>
+                {revision.changes.map((change) => (
+                  <div key={change.field}>
+                    <dt>{FIELD_LABELS[change.field]}</dt>
+                    <dd>
+                      <ChangeDiff change={change} names={names} />
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// CHANGE DIFF COMPONENT: What happened to one field
+// ============================================================================
+// Text fields show word-by-word changes; lists show the entries that
+// were removed and added
+function ChangeDiff({
+  change,
+  names, // Contact names, for relationships
+}: {
+  change: FieldChange;
+  names: Record<string, string>;
+}) {
+  const before = describeValue(change, "before", names);
+  const after = describeValue(change, "after", names);
+
+  if (isTextField(change.field)) {
+    return (
+      <span className="diff-text">
+        {diffWords(before.join(""), after.join("")).map((part, index) =>
+          part.type === "removed" ? (
+            <del key={index}>{part.text}</del>
+          ) : part.type === "added" ? (
+            <ins key={index}>{part.text}</ins>
+          ) : (
+            <span key={index}>{part.text}</span>
+          ),
+        )}
+      </span>
+    );
+  }
+
+  const { removed, added } = diffLists(before, after);
+  return (
+    <ul className="diff-list">
+      {removed.map((item) => (
+        <li key={`-${item}`}>
+          <del>{item}</del>
+        </li>
+      ))}
+      {added.map((item) => (
+        <li key={`+${item}`}>
+          <ins>{item}</ins>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// IS TEXT FIELD: Fields holding one piece of text (diffed word by word)
+function isTextField(field: TrackedField): boolean {
+  return ["first", "last", "company", "title", "avatar", "twitter", "notes"].includes(field);
+}
+
+// DESCRIBE VALUE: One side of a change as lines of text
+function describeValue(
+  change: FieldChange,
+  side: "before" | "after",
+  names: Record<string, string>,
+): string[] {
+  switch (change.field) {
+    case "favorite":
+      return [change[side] ? "★ Favorite" : "Not a favorite"];
+    case "phones":
+      return (change[side] ?? []).map((phone) => `${phone.label}: ${phone.number}`);
+    case "emails":
+      return (change[side] ?? []).map((email) => `${email.label}: ${email.address}`);
+    case "addresses":
+      return (change[side] ?? []).map((address) =>
+        `${address.label}: ${[address.street, address.city, address.region, address.postalCode, address.country]
+          .filter(Boolean)
+          .join(", ")}`,
+      );
+    case "tags":
+      return change[side] ?? [];
+    case "dates":
+      return (change[side] ?? []).map(
+        (entry) => `${describeDate(entry)}: ${formatDate(entry.date)}`,
+      );
+    case "related":
+      return (change[side] ?? []).map(
+        (relationship) =>
+          `${relationshipLabel(relationship.type)}: ${names[relationship.contactId] ?? "Unknown contact"}`,
+      );
+    default:
+      // Text fields: one line (or none when blank)
+      return change[side] ? [change[side]] : [];
+  }
+}
+
+// REVERTED DATE: When the revision a revert went back to was made
+function revertedDate(revisions: ContactRevision[], revisionId: string): string {
+  const original = revisions.find((revision) => revision.id === revisionId);
+  return original ? formatDateTime(original.createdAt) : "an earlier version";
+}
+
+// ============================================================================
+// HOW CONTACT-HISTORY.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /contacts/:contactId/history
+// 2. The "History" link in contact.tsx navigates here
+// 3. The loader calls getContact() and getRevisions() from data.ts
+//    (every updateContact() call records a revision)
+// 4. diffWords() / diffLists() (diff.ts) work out what to highlight, and
+//    formatDateTime() (dates.ts) says when each edit was saved
+// 5. "Revert to this version" calls action() → revertContact() (data.ts),
+//    which saves the old values as a brand new revision
+// 6. getContactNames() (data.ts) names the people in "Related people"
+//    changes, and relationshipLabel() (relationships.ts) says how
@@ -0,0 +1,74 @@
+// ============================================================================
+// CONTACT-INTERACTIONS.TSX - Logs (and un-logs) calls, meetings, emails...
+// ============================================================================
+// Another "action-only" route, like destroy-contact.tsx - but posted to by
+// fetchers on the contact's page, so it answers with data instead of
+// redirecting. The page's loader runs again afterwards by itself, which
+// brings the timeline (and the "last contacted" date) up to date
+// URL pattern: /contacts/:contactId/interactions
+//
+//   intent=add     Logs a new interaction (kind, body and occurredAt)
+//   intent=delete  Takes the one in "interactionId" out of the timeline
+
+// Import React Router's data helper (for sending errors with a status)
+import { data } from "react-router";
+
+// Import TypeScript types
+import type { Route } from "./+types/contact-interactions";
+
+// Import the data functions and the form rules
+import { requireAddressBook } from "../auth.server";
+import { validateInteraction } from "../contact-schema";
+import {
+  addInteraction,
+  deleteInteraction,
+  getContact,
+  getInteractions,
+} from "../data";
+
+// ============================================================================
+// ACTION FUNCTION: Adds or deletes an interaction
+// ============================================================================
+export async function action({ params, request }: Route.ActionArgs) {
+  const { bookId } = await requireAddressBook(request, "edit");
+  if (!(await getContact(bookId, params.contactId))) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "add") {
+    // Bad input goes back to the form (400 Bad Request), one message per field
+    const result = validateInteraction(formData);
+    if (!result.success) {
+      return data({ ok: false, errors: result.errors }, { status: 400 });
+    }
+    await addInteraction(bookId, params.contactId, result.data);
+    return { ok: true, errors: {} };
+  }
+
+  if (intent === "delete") {
+    // Only this contact's interactions (it may already be gone)
+    const interactionId = String(formData.get("interactionId") ?? "");
+    const interactions = await getInteractions(bookId, params.contactId);
+    if (!interactions.some((interaction) => interaction.id === interactionId)) {
+      throw new Response("Not Found", { status: 404 });
+    }
+    await deleteInteraction(bookId, params.contactId, interactionId);
+    return { ok: true, errors: {} };
+  }
+
+  throw new Response("Unknown intent", { status: 400 });
+}
+
+// ============================================================================
+// HOW CONTACT-INTERACTIONS.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /contacts/:contactId/interactions
+// 2. The Timeline on contact.tsx posts here with fetchers (no navigation)
+// 3. validateInteraction() (contact-schema.ts) checks what was typed
+// 4. addInteraction() and deleteInteraction() (data.ts) save it, and keep
+//    the contact's lastContactedAt in step
+//
+// NOTE: This file has NO default export (no component)
@@ -0,0 +1,54 @@
+// ============================================================================
+// CONTACT-LIST.TSX - More of the sidebar's contact list, as data
+// ============================================================================
+// This is a "resource route" - it has no UI component. The sidebar loads
+// it with a fetcher while the user scrolls, to get the next (or previous)
+// page of contacts without reloading anything else.
+// URL pattern: /contact-list?q=...&tag=...&org=...&sort=...&after=... (or before=, offset=)
+//
+//   after=<cursor>   The page after the last contact the sidebar has
+//   before=<cursor>  The page before the first contact it has
+//   offset=<number>  The page starting at that position (after a long
+//                    jump down the scrollbar)
+
+// Import TypeScript types for this route
+import type { Route } from "./+types/contact-list";
+
+// Import the shared page loader
+import { requireAddressBook } from "../auth.server";
+import { loadContactListPage } from "../contact-list.server";
+import { isContactSort } from "../data";
+
+// ============================================================================
+// LOADER FUNCTION: Returns one page of contacts
+// ============================================================================
+export async function loader({ request }: Route.LoaderArgs) {
+  const { bookId } = await requireAddressBook(request);
+  const searchParams = new URL(request.url).searchParams;
+  const offset = searchParams.get("offset");
+  const sort = searchParams.get("sort");
+
+  return loadContactListPage(bookId, searchParams.get("q"), {
+    tag: searchParams.get("tag"),
+    organizationId: searchParams.get("org"),
+    // Cursors only work in the order they came from, so the sidebar
+    // always passes its sort along
+    sort: isContactSort(sort) ? sort : undefined,
+    after: searchParams.get("after"),
+    before: searchParams.get("before"),
+    // Not a number? Start from the top
+    offset: offset ? Number(offset) || 0 : null,
+  });
+}
+
+// ============================================================================
+// HOW CONTACT-LIST.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /contact-list (outside the sidebar)
+// 2. The contact list in sidebar.tsx loads it with useFetcher() as the user
+//    scrolls, using the cursors from the page it already has
+// 3. The loader calls loadContactListPage() (contact-list.server.ts), the
+//    same function the sidebar loader uses for the first page
+//
+// NOTE: This file has NO default export (no component)
+//       It's a "resource route" that only returns data
@@ -5,22 +5,43 @@
 // URL pattern: /contacts/:contactId (e.g., /contacts/ryan-florence)
 
 // Import React Router components
-import { Form, useFetcher } from "react-router";
+import { Form, Link, useFetcher, useNavigate, useSubmit } from "react-router";
+import { useEffect, useRef, useState } from "react";
 
 // Import TypeScript types and data functions
-import type { ContactRecord } from "../data";
-import { getContact, updateContact } from "../data";
+import { requireAddressBook } from "../auth.server";
+import type { ContactRecord, FollowUp, Interaction, PostalAddress } from "../data";
+import {
+  getContact,
+  getContactNames,
+  getFollowUps,
+  getInteractions,
+  updateContact,
+} from "../data";
+import { avatarImage } from "../avatars";
+import type { FollowUpFormField, InteractionFormField } from "../contact-schema";
+import { FOLLOW_UP_NOTE_MAX_LENGTH, INTERACTION_BODY_MAX_LENGTH } from "../contact-schema";
+import { describeDate, formatDate, formatDateTime } from "../dates";
+import { FOLLOW_UP_MAX_WEEKS, describeRepeat } from "../follow-ups";
+import { INTERACTION_KINDS, interactionIcon, interactionLabel } from "../interactions";
+import { relationshipLabel } from "../relationships";
+import { useShortcuts } from "../shortcuts";
 import type { Route } from "./+types/contact";
+import type { action as interactionsAction } from "./contact-interactions";
+import type { action as followUpsAction } from "./follow-ups";
 
 // ============================================================================
 // LOADER FUNCTION: Fetches the contact data
 // ============================================================================
 // This runs on the server before the page renders
 // It loads the specific contact based on the ID in the URL
-export async function loader({ params }: Route.LoaderArgs) {
+export async function loader({ params, request }: Route.LoaderArgs) {
+  // Only contacts in the address book being looked at can be viewed
+  const { bookId, canEdit } = await requireAddressBook(request);
+  
   // params contains URL parameters like { contactId: "ryan-florence" }
-  // Get the specific contact from our fake database
-  const contact = await getContact(params.contactId);
+  // Get the specific contact from our database
+  const contact = await getContact(bookId, params.contactId);
   
   // If contact doesn't exist, throw a 404 error
   if (!contact) {
@@ -28,8 +49,21 @@ export async function loader({ params }: Route.LoaderArgs) {
     // This will be caught by ErrorBoundary in root.tsx
   }
   
-  // Return the contact data to the component
-  return { contact };
+  // The related people's names (the contact only keeps their IDs)
+  const relatedNames = await getContactNames(
+    bookId,
+    (contact.related ?? []).map((relationship) => relationship.contactId),
+  );
+  
+  // Every call, meeting... logged with them, newest first
+  const interactions = await getInteractions(bookId, contact.id);
+  
+  // When to get back in touch with them, soonest first
+  const followUps = await getFollowUps(bookId, contact.id);
+  
+  // Return the contact data to the component (and whether to show the
+  // buttons that change it - viewers of a shared address book can only look)
+  return { canEdit, contact, followUps, interactions, relatedNames };
 }
 
 // ============================================================================
@@ -41,11 +75,13 @@ export async function action({
   params,  // URL parameters (contains contactId)
   request, // The HTTP request object
 }: Route.ActionArgs) {
+  const { bookId } = await requireAddressBook(request, "edit");
+  
   // Get the form data from the request
   const formData = await request.formData();
   
   // Update the contact's favorite status in the database
-  return updateContact(params.contactId, {
+  return updateContact(bookId, params.contactId, {
     // formData.get("favorite") returns a string: "true" or "false"
     // We compare it to "true" to get a boolean value
     favorite: formData.get("favorite") === "true",
@@ -59,18 +95,30 @@ export default function Contact({
   loaderData, // Data from the loader function
 }: Route.ComponentProps) {
   // Extract the contact from loaderData
-  const { contact } = loaderData;
+  const { canEdit, contact, followUps, interactions, relatedNames } = loaderData;
+  const navigate = useNavigate();
+  const submit = useSubmit();
+
+  // KEYBOARD: "e" edits, Delete deletes - after asking, unlike the Delete
+  // button, since a key is much easier to press by accident ("f" is the
+  // Favorite button's own)
+  useShortcuts({
+    e: canEdit ? () => navigate("edit") : undefined,
+    Delete: canEdit
+      ? () => confirmDelete(() => submit(null, { action: "destroy", method: "post" }))
+      : undefined,
+  });
 
   return (
     // Main container for contact details
     <div id="contact">
       
-      {/* AVATAR SECTION: Profile picture */}
+      {/* AVATAR SECTION: Profile picture (or their initials, if there isn't one) */}
       <div>
         <img
           alt={`${contact.first} ${contact.last} avatar`} // Accessibility text
           key={contact.avatar} // Key forces React to reload image if URL changes
-          src={contact.avatar}  // Image URL
+          {...avatarImage(contact, 192)} // Image URL (and a sharper one for retina screens)
         />
       </div>
 
@@ -88,9 +136,22 @@ export default function Contact({
           )}
           
           {/* FAVORITE BUTTON - rendered by Favorite component below */}
-          <Favorite contact={contact} />
+          {canEdit ? <Favorite contact={contact} /> : null}
         </h1>
 
+        {/* WORK: "Co-founder at Remix" - the company links to its organization */}
+        {contact.title || contact.company ? (
+          <p className="contact-work">
+            {contact.title}
+            {contact.title && contact.company ? " at " : null}
+            {contact.company && contact.organizationId ? (
+              <Link to={`/organizations/${contact.organizationId}`}>{contact.company}</Link>
+            ) : (
+              contact.company
+            )}
+          </p>
+        ) : null}
+
         {/* TWITTER LINK: Only shows if contact has twitter */}
         {contact.twitter ? (
           <p>
@@ -102,41 +163,174 @@ export default function Contact({
           </p>
         ) : null}
 
+        {/* TAGS: Each chip links to the list of everyone with that tag */}
+        {contact.tags?.length ? (
+          <p className="tag-list">
+            {contact.tags.map((tag) => (
+              <Link className="tag-chip" key={tag} to={`/tags/${encodeURIComponent(tag)}`}>
+                {tag}
+              </Link>
+            ))}
+          </p>
+        ) : null}
+
+        {/* PHONE NUMBERS: tel: links open the phone dialer (or Skype, FaceTime...) */}
+        {contact.phones?.length ? (
+          <ul className="contact-details">
+            {contact.phones.map((phone, index) => (
+              <li key={index}>
+                <span>{phone.label}</span>
+                {/* Strip spaces/brackets: "+1 (555) 010" becomes "tel:+1555010" */}
+                <a href={`tel:${phone.number.replace(/[^\d+]/g, "")}`}>
+                  {phone.number}
+                </a>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+
+        {/* EMAIL ADDRESSES: mailto: links open the user's email app */}
+        {contact.emails?.length ? (
+          <ul className="contact-details">
+            {contact.emails.map((email, index) => (
+              <li key={index}>
+                <span>{email.label}</span>
+                <a href={`mailto:${email.address}`}>{email.address}</a>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+
+        {/* POSTAL ADDRESSES: One <address> block per entry */}
+        {contact.addresses?.length ? (
+          <ul className="contact-details">
+            {contact.addresses.map((address, index) => (
+              <li key={index}>
+                <span>{address.label}</span>
+                <address>
+                  {formatAddressLines(address).map((line) => (
+                    <div key={line}>{line}</div>
+                  ))}
+                </address>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+
+        {/* DATES: Birthdays, anniversaries and custom dates */}
+        {contact.dates?.length ? (
+          <ul className="contact-details contact-dates">
+            {contact.dates.map((entry, index) => (
+              <li key={index}>
+                <span>{describeDate(entry)}</span>
+                <time dateTime={entry.date}>{formatDate(entry.date)}</time>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+
+        {/* RELATED PEOPLE: Each one links to their own page */}
+        {contact.related?.length ? (
+          <section aria-labelledby="related-title" className="contact-related">
+            <h2 id="related-title">Related people</h2>
+            <ul className="contact-details">
+              {contact.related.map((relationship) => (
+                <li key={`${relationship.contactId} ${relationship.type}`}>
+                  <span>{relationshipLabel(relationship.type)}</span>
+                  <Link to={`/contacts/${relationship.contactId}`}>
+                    {relatedNames[relationship.contactId] ?? <i>Unknown contact</i>}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ) : null}
+
         {/* NOTES: Only shows if contact has notes */}
-        {contact.notes ? <p>{contact.notes}</p> : null}
+        {contact.notes ? <p className="contact-notes">{contact.notes}</p> : null}
 
         {/* ACTION BUTTONS SECTION */}
         <div>
-          {/* EDIT BUTTON */}
-          <Form action="edit">
-            {/* action="edit" navigates to /contacts/:contactId/edit */}
-            <button type="submit">Edit</button>
-          </Form>
-
-          {/* DELETE BUTTON */}
-          <Form
-            action="destroy"  // Navigates to /contacts/:contactId/destroy
-            method="post"     // POST method triggers the action function
-            onSubmit={(event) => {
-              // Show a confirmation dialog before deleting
-              const response = confirm(
-                "Please confirm you want to delete this record.",
-              );
-              
-              // If user clicks "Cancel", prevent form submission
-              if (!response) {
-                event.preventDefault();
-              }
-            }}
+          {/* EDIT AND DELETE: Only for those who can change the address book */}
+          {canEdit ? (
+            <>
+              {/* EDIT BUTTON */}
+              <Form action="edit">
+                {/* action="edit" navigates to /contacts/:contactId/edit */}
+                <button type="submit">Edit</button>
+              </Form>
+
+              {/* DELETE BUTTON */}
+              {/* No "are you sure?" - the contact goes to the trash, and the */}
+              {/* sidebar offers an "Undo" straight away */}
+              <Form
+                action="destroy"  // Navigates to /contacts/:contactId/destroy
+                method="post"     // POST method triggers the action function
+              >
+                <button type="submit">Delete</button>
+              </Form>
+            </>
+          ) : null}
+
+          {/* HISTORY LINK: Every edit ever made, with revert */}
+          <Link className="button-link" to="history">
+            History
+          </Link>
+
+          {/* EXPORT LINKS: Download this contact as a file */}
+          {/* Plain <a> tags because the response is a file, not a page */}
+          <a
+            className="button-link"
+            download
+            href={`/contacts/${contact.id}/export/vcf`}
+          >
+            Export vCard
+          </a>
+          <a
+            className="button-link"
+            download
+            href={`/contacts/${contact.id}/export/csv`}
           >
-            <button type="submit">Delete</button>
-          </Form>
+            Export CSV
+          </a>
         </div>
+
+        {/* FOLLOW-UPS: When to get back in touch (also listed on home.tsx) */}
+        <FollowUps canEdit={canEdit} contactId={contact.id} followUps={followUps} />
+
+        {/* TIMELINE: Calls, meetings, emails and messages, newest first */}
+        <Timeline
+          canEdit={canEdit}
+          contactId={contact.id}
+          interactions={interactions}
+          lastContactedAt={contact.lastContactedAt}
+        />
       </div>
     </div>
   );
 }
 
+// ============================================================================
+// CONFIRM DELETE: The Delete shortcut double-checks first (the contact
+// goes to the trash, so it can still be restored from there)
+// ============================================================================
+function confirmDelete(destroy: () => void) {
+  if (confirm("Delete this contact? It goes to the trash, where you can restore it.")) {
+    destroy();
+  }
+}
+
+// ============================================================================
+// FORMAT ADDRESS LINES: Turns an address into the lines you'd write on an envelope
+// ============================================================================
+// { street: "1 Main St", city: "Springfield", region: "IL", postalCode: "62701" }
+// becomes ["1 Main St", "Springfield, IL 62701"] (empty parts are skipped)
+function formatAddressLines(address: PostalAddress): string[] {
+  const regionLine = [address.region, address.postalCode].filter(Boolean).join(" ");
+  const cityLine = [address.city, regionLine].filter(Boolean).join(", ");
+  return [address.street, cityLine, address.country].filter(Boolean);
+}
+
 // ============================================================================
 // FAVORITE COMPONENT: The favorite/unfavorite button
 // ============================================================================
@@ -157,6 +351,11 @@ function Favorite({
     ? fetcher.formData.get("favorite") === "true" // Optimistic UI update
     : contact.favorite; // Current saved state
 
+  // Pressing "f" is the same as clicking the star
+  useShortcuts({
+    f: () => fetcher.submit({ favorite: favorite ? "false" : "true" }, { method: "post" }),
+  });
+
   return (
     // fetcher.Form submits without causing navigation
     <fetcher.Form method="post">
@@ -179,6 +378,286 @@ function Favorite({
   );
 }
 
+// ============================================================================
+// TIMELINE COMPONENT: The contact's interactions, and a form to log more
+// ============================================================================
+// Everything goes through fetchers to contact-interactions.tsx, so logging a
+// call doesn't navigate anywhere - the page's loader runs again afterwards
+// and the new entry appears at the top
+function Timeline({
+  canEdit,         // Viewers only get to read it
+  contactId,
+  interactions,    // Newest first, from the loader
+  lastContactedAt, // The newest one's date (kept on the contact by data.ts)
+}: {
+  canEdit: boolean;
+  contactId: string;
+  interactions: Interaction[];
+  lastContactedAt?: string;
+}) {
+  const fetcher = useFetcher<typeof interactionsAction>();
+  const formRef = useRef<HTMLFormElement>(null);
+  const busy = fetcher.state !== "idle";
+  const errors: Partial<Record<InteractionFormField, string>> | undefined =
+    fetcher.data?.errors;
+
+  // The browser's offset from UTC, so the server can read the "When" box in
+  // the user's time zone (left at 0 - UTC - until the page's JavaScript runs)
+  const [offset, setOffset] = useState(0);
+  useEffect(() => setOffset(new Date().getTimezoneOffset()), []);
+
+  // Logged? Empty the form for the next one
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data?.ok) formRef.current?.reset();
+  }, [fetcher.state, fetcher.data]);
+
+  return (
+    <section aria-labelledby="timeline-title" className="contact-timeline">
+      <h2 id="timeline-title">
+        Timeline
+        {lastContactedAt ? (
+          <small> · last contacted {formatDate(lastContactedAt.slice(0, 10))}</small>
+        ) : null}
+      </h2>
+
+      {/* LOG FORM: What kind, when (blank = just now) and what about */}
+      {canEdit ? (
+        <fetcher.Form
+          action={`/contacts/${contactId}/interactions`}
+          className="interaction-form"
+          method="post"
+          ref={formRef}
+        >
+          <input name="intent" type="hidden" value="add" />
+          <input name="offset" type="hidden" value={offset} />
+          <div>
+            <select aria-label="Kind" defaultValue="call" name="kind">
+              {INTERACTION_KINDS.map(({ kind, label }) => (
+                <option key={kind} value={kind}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <input
+              aria-describedby={errors?.occurredAt ? "occurredAt-error" : undefined}
+              aria-invalid={errors?.occurredAt ? true : undefined}
+              aria-label="When (leave blank for now)"
+              name="occurredAt"
+              type="datetime-local"
+            />
+          </div>
+          <textarea
+            aria-describedby={errors?.body ? "body-error" : undefined}
+            aria-invalid={errors?.body ? true : undefined}
+            aria-label="What was it about?"
+            maxLength={INTERACTION_BODY_MAX_LENGTH}
+            name="body"
+            placeholder="What was it about?"
+            required
+            rows={2}
+          />
+          {Object.entries(errors ?? {}).map(([field, message]) => (
+            <p className="field-error" id={`${field}-error`} key={field} role="alert">
+              {message}
+            </p>
+          ))}
+          <button disabled={busy} type="submit">
+            {busy ? "Logging..." : "Log"}
+          </button>
+        </fetcher.Form>
+      ) : null}
+
+      {interactions.length ? (
+        <ol className="interaction-list">
+          {interactions.map((interaction) => (
+            <InteractionEntry
+              canEdit={canEdit}
+              contactId={contactId}
+              interaction={interaction}
+              key={interaction.id}
+            />
+          ))}
+        </ol>
+      ) : (
+        <p>
+          <i>Nothing logged yet.</i>
+        </p>
+      )}
+    </section>
+  );
+}
+
+// ============================================================================
+// INTERACTION ENTRY COMPONENT: One call, meeting... in the timeline
+// ============================================================================
+// Each entry has its own fetcher, so deleting one hides it straight away
+// (before the server answers) without touching the others
+function InteractionEntry({
+  canEdit,
+  contactId,
+  interaction,
+}: {
+  canEdit: boolean;
+  contactId: string;
+  interaction: Interaction;
+}) {
+  const fetcher = useFetcher();
+  if (fetcher.formData?.get("intent") === "delete") return null;
+
+  return (
+    <li>
+      <header>
+        <span aria-hidden="true">{interactionIcon(interaction.kind)}</span>
+        <b>{interactionLabel(interaction.kind)}</b>
+        <time dateTime={interaction.occurredAt}>
+          {formatDateTime(interaction.occurredAt)}
+        </time>
+        {canEdit ? (
+          <fetcher.Form action={`/contacts/${contactId}/interactions`} method="post">
+            <input name="interactionId" type="hidden" value={interaction.id} />
+            <button
+              aria-label={`Delete this ${interactionLabel(interaction.kind).toLowerCase()}`}
+              name="intent"
+              type="submit"
+              value="delete"
+            >
+              ×
+            </button>
+          </fetcher.Form>
+        ) : null}
+      </header>
+      <p>{interaction.body}</p>
+    </li>
+  );
+}
+
+// ============================================================================
+// FOLLOW-UPS COMPONENT: The contact's follow-ups, and a form to set one
+// ============================================================================
+// Like the Timeline, everything goes through fetchers - to follow-ups.tsx.
+// Done, Snooze and Reschedule live on the home page, where they're due
+function FollowUps({
+  canEdit,
+  contactId,
+  followUps, // Soonest first, from the loader
+}: {
+  canEdit: boolean;
+  contactId: string;
+  followUps: FollowUp[];
+}) {
+  const fetcher = useFetcher<typeof followUpsAction>();
+  const formRef = useRef<HTMLFormElement>(null);
+  const busy = fetcher.state !== "idle";
+  const errors: Partial<Record<FollowUpFormField, string>> | undefined =
+    fetcher.data?.errors;
+
+  // Set? Empty the form for the next one
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data?.ok) formRef.current?.reset();
+  }, [fetcher.state, fetcher.data]);
+
+  // Viewers only see the section when there's something in it
+  if (!canEdit && followUps.length === 0) return null;
+
+  return (
+    <section aria-labelledby="follow-ups-title" className="contact-follow-ups">
+      <h2 id="follow-ups-title">Follow-ups</h2>
+
+      {followUps.length ? (
+        <ul className="contact-details">
+          {followUps.map((followUp) => (
+            <FollowUpEntry canEdit={canEdit} followUp={followUp} key={followUp.id} />
+          ))}
+        </ul>
+      ) : null}
+
+      {/* SET FORM: When, how often (blank = just once) and what about */}
+      {canEdit ? (
+        <fetcher.Form
+          action="/follow-ups"
+          className="follow-up-form"
+          method="post"
+          ref={formRef}
+        >
+          <input name="intent" type="hidden" value="add" />
+          <input name="contactId" type="hidden" value={contactId} />
+          <div>
+            <input
+              aria-describedby={errors?.dueOn ? "dueOn-error" : undefined}
+              aria-invalid={errors?.dueOn ? true : undefined}
+              aria-label="Follow up on"
+              name="dueOn"
+              required
+              type="date"
+            />
+            <label>
+              <span>every</span>
+              <input
+                aria-describedby={errors?.everyWeeks ? "everyWeeks-error" : undefined}
+                aria-invalid={errors?.everyWeeks ? true : undefined}
+                max={FOLLOW_UP_MAX_WEEKS}
+                min={1}
+                name="everyWeeks"
+                placeholder="-"
+                type="number"
+              />
+              <span>weeks</span>
+            </label>
+          </div>
+          <input
+            aria-describedby={errors?.note ? "note-error" : undefined}
+            aria-invalid={errors?.note ? true : undefined}
+            aria-label="What about?"
+            maxLength={FOLLOW_UP_NOTE_MAX_LENGTH}
+            name="note"
+            placeholder="What about? (optional)"
+            type="text"
+          />
+          {Object.entries(errors ?? {}).map(([field, message]) => (
+            <p className="field-error" id={`${field}-error`} key={field} role="alert">
+              {message}
+            </p>
+          ))}
+          <button disabled={busy} type="submit">
+            {busy ? "Setting..." : "Set follow-up"}
+          </button>
+        </fetcher.Form>
+      ) : null}
+    </section>
+  );
+}
+
+// ============================================================================
+// FOLLOW-UP ENTRY COMPONENT: One follow-up, with a delete button
+// ============================================================================
+function FollowUpEntry({ canEdit, followUp }: { canEdit: boolean; followUp: FollowUp }) {
+  const fetcher = useFetcher();
+  if (fetcher.formData?.get("intent") === "delete") return null;
+
+  return (
+    <li>
+      <span>{describeRepeat(followUp.everyWeeks) || "Once"}</span>
+      <div>
+        <time dateTime={followUp.dueOn}>{formatDate(followUp.dueOn)}</time>
+        {followUp.note ? <small> · {followUp.note}</small> : null}
+      </div>
+      {canEdit ? (
+        <fetcher.Form action="/follow-ups" method="post">
+          <input name="followUpId" type="hidden" value={followUp.id} />
+          <button
+            aria-label="Delete this follow-up"
+            name="intent"
+            type="submit"
+            value="delete"
+          >
+            ×
+          </button>
+        </fetcher.Form>
+      ) : null}
+    </li>
+  );
+}
+
 // ============================================================================
 // HOW CONTACT.TSX CONNECTS TO OTHER FILES:
 // ============================================================================
@@ -187,6 +666,26 @@ function Favorite({
 // 3. Clicking a contact in sidebar.tsx navigates here
 // 4. This component appears in the <Outlet /> of sidebar.tsx
 // 5. Clicking "Edit" navigates to edit-contact.tsx
-// 6. Clicking "Delete" submits to destroy-contact.tsx
+// 6. Clicking "Delete" submits to destroy-contact.tsx (moves it to the trash)
 // 7. Clicking the star calls the action() which calls updateContact() from data.ts
 // 8. The Favorite component uses useFetcher for optimistic UI updates
+// 9. Phones, emails and addresses come from the lists saved by edit-contact.tsx
+// 10. The "Export" links download the contact via export-contact.tsx
+// 11. Clicking a tag chip navigates to tag.tsx (/tags/:tag)
+// 12. "History" navigates to contact-history.tsx
+// 13. requireAddressBook() (auth.server.ts) says whether the user can change
+//     the address book - viewers don't get the Edit, Delete or star buttons
+// 14. avatarImage() (avatars.ts) picks the picture: an uploaded photo
+//     (served by avatar.tsx), a web URL, or an initials placeholder
+// 15. Dates are described by describeDate() and formatDate() (dates.ts) - the
+//     upcoming ones also show on home.tsx
+// 16. "Related people" are picked on edit-contact.tsx; getContactNames()
+//     (data.ts) names them and relationshipLabel() (relationships.ts) says how
+// 17. The company links to the organization's page (organization.tsx)
+// 18. The Timeline lists getInteractions() (data.ts) and posts new ones (and
+//     deletes) to contact-interactions.tsx with fetchers; interactions.ts
+//     labels each kind
+// 19. The Follow-ups section lists getFollowUps() (data.ts) and sets (and
+//     deletes) them through follow-ups.tsx; the due ones show on home.tsx
+// 20. useShortcuts() (shortcuts.ts) adds the keys for this contact: e (edit),
+//     f (favorite) and Delete (to destroy-contact.tsx, after asking)
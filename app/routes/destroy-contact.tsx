@@ -2,7 +2,7 @@
 // DESTROY-CONTACT.TSX - Handles deleting a contact
 // ============================================================================
 // This is a special "action-only" route - it has no UI component
-// It only handles the deletion and then redirects away
+// It moves the contact to the trash and then redirects away
 // URL pattern: /contacts/:contactId/destroy
 
 // Import redirect function from React Router
@@ -12,22 +12,42 @@ import { redirect } from "react-router";
 import type { Route } from "./+types/destroy-contact";
 
 // Import the delete function from our data layer
-import { deleteContact } from "../data";
+import { requireAddressBook } from "../auth.server";
+import { deleteContact, getContact } from "../data";
+
+// Import the session helpers (for the "Undo" message)
+import { commitSession, getSession } from "../sessions.server";
 
 // ============================================================================
-// ACTION FUNCTION: Deletes the contact and redirects
+// ACTION FUNCTION: Moves the contact to the trash and redirects
 // ============================================================================
 // This is the only export in this file - no UI component needed!
 // This runs when a POST request is made to /contacts/:contactId/destroy
-export async function action({ params }: Route.ActionArgs) {
+export async function action({ params, request }: Route.ActionArgs) {
   // params contains URL parameters like { contactId: "ryan-florence" }
-  
-  // Delete the contact from our fake database
-  await deleteContact(params.contactId);
-  
+  const { bookId } = await requireAddressBook(request, "edit");
+
+  // Deleting something that's already gone (e.g. a double click) is a 404
+  if (!(await getContact(bookId, params.contactId))) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  // Move the contact to the trash (it can be restored from there)
+  const contact = await deleteContact(bookId, params.contactId);
+
+  // Leave a note for the next page: "Deleted Ryan Florence - Undo"
+  const session = await getSession(request.headers.get("Cookie"));
+  session.flash("deletedContact", {
+    id: contact.id,
+    name: [contact.first, contact.last].filter(Boolean).join(" ") || "No Name",
+  });
+
   // After deleting, redirect to the home page ("/")
   // This takes the user back to the contact list
-  return redirect("/");
+  // The Set-Cookie header saves the note in the browser's session cookie
+  return redirect("/", {
+    headers: { "Set-Cookie": await commitSession(session) },
+  });
 }
 
 // ============================================================================
@@ -35,9 +55,11 @@ export async function action({ params }: Route.ActionArgs) {
 // ============================================================================
 // 1. routes.ts declares this route as /contacts/:contactId/destroy
 // 2. In contact.tsx, the Delete button submits a POST form to this route
-// 3. The action() function runs, calling deleteContact() from data.ts
+// 3. The action() function runs, calling deleteContact() from data.ts,
+//    which moves the contact to the trash
 // 4. After deletion, the user is redirected to "/" (the home page)
-// 5. The contact disappears from the sidebar list
-// 
+// 5. The contact disappears from the sidebar list, and the sidebar shows
+//    an "Undo" message (restore-contact.tsx puts it back)
+//
 // NOTE: This file has NO default export (no component)
 //       It's an "action-only" route that just processes the deletion
@@ -0,0 +1,96 @@
+// ============================================================================
+// DUPLICATES.TSX - Contacts that look like the same person
+// ============================================================================
+// Every click on "New" creates a contact, and imports bring in more, so the
+// same person can easily end up in the address book twice. This page lists
+// pairs that look alike and links each pair to the merge screen.
+// URL pattern: /duplicates
+
+// Import React Router components
+import { Link } from "react-router";
+
+// Import TypeScript types and data functions
+import type { Route } from "./+types/duplicates";
+import { requireAddressBook } from "../auth.server";
+import { getContacts } from "../data";
+import type { DuplicateReason } from "../matching";
+import { findDuplicates } from "../matching";
+
+// What each reason looks like on the page
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  name: "Same name",
+  "similar-name": "Similar name",
+  twitter: "Same Twitter handle",
+  email: "Same email address",
+};
+
+// ============================================================================
+// LOADER FUNCTION: Finds every likely duplicate pair
+// ============================================================================
+export async function loader({ request }: Route.LoaderArgs) {
+  const { bookId } = await requireAddressBook(request);
+  const contacts = await getContacts(bookId);
+
+  // Only send the browser what the list shows, not every field of every contact
+  const pairs = findDuplicates(contacts).map(({ first, second, reasons }) => ({
+    first: { id: first.id, name: displayName(first) },
+    second: { id: second.id, name: displayName(second) },
+    reasons,
+  }));
+
+  return { pairs };
+}
+
+// ============================================================================
+// MAIN COMPONENT: The list of pairs
+// ============================================================================
+export default function Duplicates({ loaderData }: Route.ComponentProps) {
+  const { pairs } = loaderData;
+
+  return (
+    <div id="duplicates-page">
+      <h1>Possible duplicates</h1>
+
+      {pairs.length === 0 ? (
+        <p>
+          <i>No duplicates found - every contact looks like a different person.</i>
+        </p>
+      ) : (
+        <ul className="duplicate-list">
+          {pairs.map(({ first, second, reasons }) => (
+            <li key={`${first.id}/${second.id}`}>
+              <span>
+                {/* Either contact can be opened on its own */}
+                <Link to={`/contacts/${first.id}`}>{first.name}</Link>
+                {" and "}
+                <Link to={`/contacts/${second.id}`}>{second.name}</Link>
+                <br />
+                <small>{reasons.map((reason) => REASON_LABELS[reason]).join(" · ")}</small>
+              </span>
+              <Link className="button-link" to={`/duplicates/${first.id}/${second.id}`}>
+                Compare and merge
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// DISPLAY NAME: "Ryan Florence", or "No Name" for blank contacts
+function displayName(contact: { first?: string; last?: string }): string {
+  return [contact.first, contact.last].filter(Boolean).join(" ") || "No Name";
+}
+
+// ============================================================================
+// HOW DUPLICATES.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /duplicates (inside the sidebar layout)
+// 2. The "Find duplicates" link in sidebar.tsx navigates here
+// 3. The loader calls getContacts() (data.ts) and findDuplicates() (matching.ts)
+// 4. "Compare and merge" opens merge-contacts.tsx for the pair
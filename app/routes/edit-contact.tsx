@@ -6,27 +6,142 @@
 
 // Import React Router components and hooks
 import type { Route } from "./+types/edit-contact";
-import { Form, redirect, useNavigate } from "react-router";
+import {
+  Form,
+  Link,
+  data,
+  redirect,
+  useFetcher,
+  useNavigate,
+  useNavigation,
+} from "react-router";
+import type { loader as contactListLoader } from "./contact-list";
 
-// Import data functions
-import { getContact, updateContact } from "../data";
+// Import React hooks (for adding/removing phone, email and address rows)
+import { Fragment, useRef, useState } from "react";
+
+// Import data functions and types
+import { requireAddressBook } from "../auth.server";
+import {
+  getContact,
+  getContactNames,
+  getContactVersion,
+  getOrganizations,
+  getTags,
+  updateContact,
+} from "../data";
+import type {
+  ContactDate,
+  ContactLabel,
+  ContactMutation,
+  ContactRecord,
+  DateLabel,
+  EmailAddress,
+  PhoneNumber,
+  PostalAddress,
+  Relationship,
+} from "../data";
+
+// Import the validation rules for contact fields
+import {
+  ADDRESS_PART_MAX_LENGTH,
+  AVATAR_MAX_LENGTH,
+  COMPANY_MAX_LENGTH,
+  CONTACT_LABELS,
+  DATE_TITLE_MAX_LENGTH,
+  JOB_TITLE_MAX_LENGTH,
+  LIST_MAX_ROWS,
+  NAME_MAX_LENGTH,
+  NOTES_MAX_LENGTH,
+  RELATED_MAX,
+  TAG_MAX_LENGTH,
+  TAGS_MAX,
+  toFormValues,
+  validateContact,
+} from "../contact-schema";
+import type {
+  ContactFormField,
+  ContactFormValues,
+  ContactListField,
+  FieldErrors,
+} from "../contact-schema";
+
+// Import the kinds of date, and how to show them
+import { DATE_LABELS, describeDate, formatDate } from "../dates";
+
+// Import the kinds of relationship between contacts
+import { RELATIONSHIP_TYPES, relationshipLabel } from "../relationships";
+
+// Import the avatar helpers (the preview, and storing uploaded photos)
+import { avatarImage } from "../avatars";
+import { deleteAvatar, saveAvatar } from "../avatars.server";
+
+// Conflict: Two saves of the same contact that crossed - everything the
+// conflict screen needs to show them side by side
+type Conflict = {
+  version: number;                 // The contact's version now
+  base: ContactFormValues | null;  // What both people started from (null if unknown)
+  mine: ContactFormValues;         // What this user tried to save
+  theirs: ContactFormValues;       // What the other person saved
+  names: Record<string, string>;   // Names of the related people in all three
+  photoDropped: boolean;           // A photo was picked - it isn't kept
+};
+
+// How many matches the related people search shows at once
+const RELATED_RESULTS = 8;
+
+// The fields the conflict screen can compare, in the order of the form
+const CONFLICT_FIELDS: { name: keyof ContactFormValues; label: string }[] = [
+  { name: "first", label: "First name" },
+  { name: "last", label: "Last name" },
+  { name: "company", label: "Company" },
+  { name: "title", label: "Job title" },
+  { name: "twitter", label: "Twitter" },
+  { name: "tags", label: "Tags" },
+  { name: "phones", label: "Phones" },
+  { name: "emails", label: "Emails" },
+  { name: "addresses", label: "Addresses" },
+  { name: "dates", label: "Dates" },
+  { name: "related", label: "Related people" },
+  { name: "avatar", label: "Avatar" },
+  { name: "notes", label: "Notes" },
+];
 
 // ============================================================================
 // LOADER FUNCTION: Fetches the contact to edit
 // ============================================================================
 // This runs before the page renders to load the current contact data
-export async function loader({ params }: Route.LoaderArgs) {
+export async function loader({ params, request }: Route.LoaderArgs) {
+  // Only contacts in the address book being looked at can be edited - and
+  // only by someone allowed to change it (viewers get a 403)
+  const { bookId } = await requireAddressBook(request, "edit");
+  
   // params contains URL parameters like { contactId: "ryan-florence" }
   // Get the contact we want to edit
-  const contact = await getContact(params.contactId);
+  const contact = await getContact(bookId, params.contactId);
   
   // If contact doesn't exist, throw a 404 error
   if (!contact) {
     throw new Response("Not Found", { status: 404 });
   }
+
+  // Every tag and organization already in use, so the form can suggest them
+  const tags = await getTags(bookId);
+  const organizations = await getOrganizations(bookId);
+
+  // The related people's names (the contact only keeps their IDs)
+  const relatedNames = await getContactNames(
+    bookId,
+    (contact.related ?? []).map((relationship) => relationship.contactId),
+  );
   
-  // Return the contact to the component
-  return { contact };
+  // Return the contact (and the suggestions) to the component
+  return {
+    contact,
+    organizations: organizations.map((organization) => organization.name),
+    relatedNames,
+    tags,
+  };
 }
 
 // ============================================================================
@@ -34,20 +149,51 @@ export async function loader({ params }: Route.LoaderArgs) {
 // ============================================================================
 export default function EditContact({
   loaderData, // Data from the loader function above
+  actionData, // Errors from the action (only set if saving failed)
 }: Route.ComponentProps) {
-  // Extract the contact from loaderData
-  const { contact } = loaderData;
-  
+  // Extract the contact and the suggestions from loaderData
+  const { contact, organizations, relatedNames, tags } = loaderData;
+
   // useNavigate gives us a function to navigate programmatically
   const navigate = useNavigate();
 
+  // Someone else saved while this form was open? Let the user settle it
+  // before anything is saved
+  if (actionData && "conflict" in actionData) {
+    return (
+      <ConflictResolver
+        conflict={actionData.conflict}
+        contactId={contact.id}
+        key={actionData.conflict.version} // Start fresh if it conflicts again
+      />
+    );
+  }
+
+  // If the last save failed, these hold the messages and what the user typed
+  const errors = actionData?.errors;
+  const values = actionData?.values;
+
+  // FIELD PROPS: Everything an input needs to show its value and error
+  // Prefer what the user typed (so nothing is lost after a failed save),
+  // falling back to the value currently saved on the contact
+  const fieldProps = (name: ContactFormField) => ({
+    name,                                            // Form field name
+    defaultValue: values?.[name] ?? contact[name],   // Typed value or saved value
+    "aria-invalid": errors?.[name] ? true : undefined, // Tell screen readers it's wrong
+    "aria-describedby": errors?.[name] ? `${name}-error` : undefined, // Point to the message
+  });
+
   return (
     // Form component from React Router
     <Form 
       key={contact.id}      // Key forces React to reset form if contact changes
+      encType="multipart/form-data" // Needed to send the photo file
       id="contact-form"     // ID for CSS styling
       method="post"         // POST method triggers the action function below
     >
+      {/* Which version this form shows, so the action can spot a save
+          that happened in the meantime */}
+      <input name="version" type="hidden" value={contact.version ?? 0} />
       
       {/* NAME SECTION: First and last name inputs */}
       <p>
@@ -56,8 +202,8 @@ export default function EditContact({
         {/* FIRST NAME INPUT */}
         <input
           aria-label="First name"           // Accessibility label
-          defaultValue={contact.first}       // Pre-fill with current first name
-          name="first"                       // Form field name (becomes key in form data)
+          {...fieldProps("first")}           // Name, pre-filled value and error wiring
+          maxLength={NAME_MAX_LENGTH}        // Browser-side hint (the server still checks)
           placeholder="First"                // Placeholder text
           type="text"                        // Text input type
         />
@@ -65,45 +211,224 @@ export default function EditContact({
         {/* LAST NAME INPUT */}
         <input
           aria-label="Last name"
-          defaultValue={contact.last}        // Pre-fill with current last name
-          name="last"                        // Form field name
+          {...fieldProps("last")}
+          maxLength={NAME_MAX_LENGTH}
           placeholder="Last"
           type="text"
         />
       </p>
+      <FieldError errors={errors} name="first" />
+      <FieldError errors={errors} name="last" />
+
+      {/* WORK SECTION: Company (an organization - new ones are made when */}
+      {/* saving) and job title */}
+      <p className="contact-form-work">
+        <span>Work</span>
+        <input
+          aria-label="Company"
+          {...fieldProps("company")}
+          list="organization-suggestions"    // Suggests the organizations we have
+          maxLength={COMPANY_MAX_LENGTH}
+          placeholder="Company"
+          type="text"
+        />
+        <input
+          aria-label="Job title"
+          {...fieldProps("title")}
+          maxLength={JOB_TITLE_MAX_LENGTH}
+          placeholder="Job title"
+          type="text"
+        />
+        <datalist id="organization-suggestions">
+          {organizations.map((name) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+      </p>
+      <FieldError errors={errors} name="company" />
+      <FieldError errors={errors} name="title" />
       
       {/* TWITTER SECTION */}
       <label>
         <span>Twitter</span>
         <input
-          defaultValue={contact.twitter}     // Pre-fill with current twitter handle
-          name="twitter"                     // Form field name
+          {...fieldProps("twitter")}         // Pre-fill with current twitter handle
           placeholder="@jack"                // Example placeholder
           type="text"
         />
       </label>
+      <FieldError errors={errors} name="twitter" />
+
+      {/* TAGS: Chips for each tag, plus a box to add more */}
+      <TagEditor
+        initialTags={values?.tags ?? contact.tags ?? []}
+        suggestions={tags.map((tag) => tag.name)}
+      />
+      <FieldError errors={errors} name="tags" />
+
+      {/* PHONE NUMBERS: Any number of labelled rows */}
+      <ListField<PhoneNumber>
+        addLabel="Add phone"
+        emptyRow={{ label: "mobile", number: "" }}
+        errors={errors}
+        field="phones"
+        initialRows={values?.phones ?? contact.phones ?? []}
+        title="Phone"
+        renderRow={(phone) => (
+          <>
+            <LabelSelect defaultValue={phone.label} name="phone.label" />
+            <input
+              aria-label="Phone number"
+              defaultValue={phone.number}
+              name="phone.number"
+              placeholder="+1 555 010 0100"
+              type="tel"
+            />
+          </>
+        )}
+      />
+
+      {/* EMAIL ADDRESSES: Any number of labelled rows */}
+      <ListField<EmailAddress>
+        addLabel="Add email"
+        emptyRow={{ label: "home", address: "" }}
+        errors={errors}
+        field="emails"
+        initialRows={values?.emails ?? contact.emails ?? []}
+        title="Email"
+        renderRow={(email) => (
+          <>
+            <LabelSelect defaultValue={email.label} name="email.label" />
+            <input
+              aria-label="Email address"
+              defaultValue={email.address}
+              name="email.address"
+              placeholder="jack@example.com"
+              type="email"
+            />
+          </>
+        )}
+      />
+
+      {/* POSTAL ADDRESSES: Any number of labelled rows, each with several parts */}
+      <ListField<PostalAddress>
+        addLabel="Add address"
+        emptyRow={{
+          label: "home",
+          street: "",
+          city: "",
+          region: "",
+          postalCode: "",
+          country: "",
+        }}
+        errors={errors}
+        field="addresses"
+        initialRows={values?.addresses ?? contact.addresses ?? []}
+        title="Address"
+        renderRow={(address) => (
+          <>
+            <LabelSelect defaultValue={address.label} name="address.label" />
+            <span className="contact-form-address">
+              <input
+                aria-label="Street"
+                defaultValue={address.street}
+                maxLength={ADDRESS_PART_MAX_LENGTH}
+                name="address.street"
+                placeholder="Street"
+              />
+              <input
+                aria-label="City"
+                defaultValue={address.city}
+                maxLength={ADDRESS_PART_MAX_LENGTH}
+                name="address.city"
+                placeholder="City"
+              />
+              <input
+                aria-label="State or region"
+                defaultValue={address.region}
+                maxLength={ADDRESS_PART_MAX_LENGTH}
+                name="address.region"
+                placeholder="State / region"
+              />
+              <input
+                aria-label="Postal code"
+                defaultValue={address.postalCode}
+                maxLength={ADDRESS_PART_MAX_LENGTH}
+                name="address.postalCode"
+                placeholder="Postal code"
+              />
+              <input
+                aria-label="Country"
+                defaultValue={address.country}
+                maxLength={ADDRESS_PART_MAX_LENGTH}
+                name="address.country"
+                placeholder="Country"
+              />
+            </span>
+          </>
+        )}
+      />
+
+
+      {/* DATES: Birthdays, anniversaries and anything else worth remembering */}
+      <ListField<ContactDate>
+        addLabel="Add date"
+        emptyRow={{ label: "birthday", date: "" }}
+        errors={errors}
+        field="dates"
+        initialRows={values?.dates ?? contact.dates ?? []}
+        title="Date"
+        renderRow={(entry) => <DateRow entry={entry} />}
+      />
+
+      {/* RELATED PEOPLE: Other contacts, found by searching, and how they're related */}
+      <RelatedPeople
+        contactId={contact.id}
+        initialRows={values?.related ?? contact.related ?? []}
+        names={relatedNames}
+      />
+      <FieldError errors={errors} name="related" />
       
-      {/* AVATAR URL SECTION */}
+      {/* PHOTO SECTION: Upload one (it's resized on the server)... */}
+      <label>
+        <span>Photo</span>
+        <img
+          alt=""                             // Decorative - the name is right above
+          className="contact-form-avatar-preview"
+          {...avatarImage(contact, 64)}      // The saved photo (or the placeholder)
+        />
+        <input
+          accept="image/jpeg,image/png,image/webp,image/gif"
+          aria-label="Upload a photo"
+          name="avatarFile"
+          type="file"
+        />
+      </label>
+
+      {/* ...OR POINT AT ONE ON THE WEB (clear it to remove the photo) */}
       <label>
         <span>Avatar URL</span>
         <input
           aria-label="Avatar URL"
-          defaultValue={contact.avatar}      // Pre-fill with current avatar URL
-          name="avatar"                      // Form field name
+          {...fieldProps("avatar")}          // Pre-fill with current avatar URL
+          inputMode="url"                    // Lets mobile keyboards show "/" and ".com"
+          maxLength={AVATAR_MAX_LENGTH}
           placeholder="https://example.com/avatar.jpg"
-          type="text"
+          type="text"                        // Not "url" - uploaded photos are "/avatars/..."
         />
       </label>
+      <FieldError errors={errors} name="avatar" />
       
       {/* NOTES SECTION: Multi-line text area */}
       <label>
         <span>Notes</span>
         <textarea
-          defaultValue={contact.notes}       // Pre-fill with current notes
-          name="notes"                       // Form field name
+          {...fieldProps("notes")}           // Pre-fill with current notes
+          maxLength={NOTES_MAX_LENGTH}
           rows={6}                           // Show 6 rows of text
         />
       </label>
+      <FieldError errors={errors} name="notes" />
       
       {/* FORM BUTTONS */}
       <p>
@@ -122,29 +447,731 @@ export default function EditContact({
   );
 }
 
+// ============================================================================
+// CONFLICT RESOLVER COMPONENT: Someone else saved first - pick field by field
+// ============================================================================
+// Shows each field the two saves disagree on: what it was when the form was
+// opened, this user's value and the other person's. Every field starts on
+// the side that actually changed it (this user's, if both did). The user's
+// own values travel along as hidden fields, so nothing they typed is lost
+function ConflictResolver({
+  conflict,  // Both saves (and what they started from), from the action
+  contactId, // For the "discard" link
+}: {
+  conflict: Conflict;
+  contactId: string;
+}) {
+  const { base, mine, theirs, names, photoDropped } = conflict;
+  const navigation = useNavigation();
+  const busy = navigation.state === "submitting";
+
+  // Fields both saves agree on need no choice
+  const fields = CONFLICT_FIELDS.filter(
+    ({ name }) => !sameValue(name, mine, theirs),
+  );
+
+  return (
+    <div id="conflict-page">
+      <h1>Someone else changed this contact</h1>
+      <p>
+        This contact was saved by someone else while you were editing it.
+        Choose which value to keep for each field you disagree on - everything
+        else is saved as it is.
+      </p>
+      {/* Photos are only stored by a save that goes through */}
+      {photoDropped ? (
+        <p>The photo you picked wasn't saved - choose it again after this.</p>
+      ) : null}
+
+      <Form method="post">
+        <input name="intent" type="hidden" value="resolve" />
+        <input name="version" type="hidden" value={conflict.version} />
+        <HiddenValues values={mine} />
+
+        {fields.length > 0 ? (
+          <table className="merge-table">
+            <thead>
+              <tr>
+                <th scope="col">Field</th>
+                {base ? <th scope="col">Before</th> : null}
+                <th scope="col">Your change</th>
+                <th scope="col">Their change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map(({ name, label }) => {
+                // Without the starting point, nobody can tell who changed what
+                const mineChanged = !base || !sameValue(name, base, mine);
+                const theirsChanged = !base || !sameValue(name, base, theirs);
+                return (
+                  <tr key={name}>
+                    <th scope="row">
+                      {label}
+                      {base && mineChanged && theirsChanged ? (
+                        <span className="conflict-both">Changed by both</span>
+                      ) : null}
+                    </th>
+                    {base ? (
+                      <td>
+                        <ValueList items={describeValue(name, base, names)} />
+                      </td>
+                    ) : null}
+                    <ConflictChoice defaultChecked={mineChanged} name={name} value="mine">
+                      <ValueList items={describeValue(name, mine, names)} />
+                    </ConflictChoice>
+                    <ConflictChoice defaultChecked={!mineChanged} name={name} value="theirs">
+                      <ValueList items={describeValue(name, theirs, names)} />
+                    </ConflictChoice>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        ) : (
+          <p>You both made the same changes - there's nothing to choose.</p>
+        )}
+
+        <p className="import-controls">
+          <button disabled={busy} type="submit">
+            {busy ? "Saving…" : "Save"}
+          </button>
+          <Link to={`/contacts/${contactId}`}>Discard my changes</Link>
+        </p>
+      </Form>
+    </div>
+  );
+}
+
+// CONFLICT CHOICE COMPONENT: One side's value, with the radio button to keep it
+function ConflictChoice({
+  children,
+  defaultChecked,
+  name,
+  value,
+}: {
+  children: React.ReactNode;
+  defaultChecked: boolean;
+  name: string;
+  value: "mine" | "theirs";
+}) {
+  return (
+    <td>
+      <label>
+        <input defaultChecked={defaultChecked} name={`pick.${name}`} type="radio" value={value} />
+        <span>{children}</span>
+      </label>
+    </td>
+  );
+}
+
+// VALUE LIST COMPONENT: A field's value, one line per entry (or "Empty")
+function ValueList({ items }: { items: string[] }) {
+  if (items.length === 0) return <i>Empty</i>;
+  return (
+    <ul>
+      {items.map((item, index) => (
+        <li key={index}>{item}</li>
+      ))}
+    </ul>
+  );
+}
+
+// HIDDEN VALUES COMPONENT: A whole contact as hidden inputs, named just like
+// the edit form's - so the action reads them with the same validateContact()
+function HiddenValues({ values }: { values: ContactFormValues }) {
+  return (
+    <>
+      {(["first", "last", "company", "title", "avatar", "twitter", "notes"] as const).map((name) => (
+        <input key={name} name={name} type="hidden" value={values[name]} />
+      ))}
+      {values.tags.map((tag) => (
+        <input key={tag} name="tag" type="hidden" value={tag} />
+      ))}
+      {values.phones.map((phone, index) => (
+        <Fragment key={index}>
+          <input name="phone.label" type="hidden" value={phone.label} />
+          <input name="phone.number" type="hidden" value={phone.number} />
+        </Fragment>
+      ))}
+      {values.emails.map((email, index) => (
+        <Fragment key={index}>
+          <input name="email.label" type="hidden" value={email.label} />
+          <input name="email.address" type="hidden" value={email.address} />
+        </Fragment>
+      ))}
+      {values.dates.map((entry, index) => (
+        <Fragment key={index}>
+          <input name="date.label" type="hidden" value={entry.label} />
+          <input name="date.date" type="hidden" value={entry.date} />
+          <input name="date.title" type="hidden" value={entry.title ?? ""} />
+        </Fragment>
+      ))}
+      {values.related.map((relationship, index) => (
+        <Fragment key={index}>
+          <input name="related.contactId" type="hidden" value={relationship.contactId} />
+          <input name="related.type" type="hidden" value={relationship.type} />
+        </Fragment>
+      ))}
+      {values.addresses.map((address, index) => (
+        <Fragment key={index}>
+          <input name="address.label" type="hidden" value={address.label} />
+          <input name="address.street" type="hidden" value={address.street} />
+          <input name="address.city" type="hidden" value={address.city} />
+          <input name="address.region" type="hidden" value={address.region} />
+          <input name="address.postalCode" type="hidden" value={address.postalCode} />
+          <input name="address.country" type="hidden" value={address.country} />
+        </Fragment>
+      ))}
+    </>
+  );
+}
+
+// ============================================================================
+// LIST FIELD COMPONENT: A group of rows the user can add to and remove from
+// ============================================================================
+// Used for phones, emails, addresses and dates. Each row renders the same
+// inputs (same "name" attributes), so the action reads them back with getAll()
+function ListField<Row>({
+  addLabel,    // Text on the "add" button, e.g. "Add phone"
+  emptyRow,    // What a freshly added row starts with
+  errors,      // Field errors from the action (rows use "phones.0" style keys)
+  field,       // Which list this is ("phones", "emails", "dates"...)
+  initialRows, // The rows to show when the form first renders
+  renderRow,   // Draws the inputs for one row
+  title,       // Label shown to the left, e.g. "Phone"
+}: {
+  addLabel: string;
+  emptyRow: Row;
+  errors: FieldErrors | undefined;
+  field: ContactListField;
+  initialRows: Row[];
+  renderRow: (row: Row) => React.ReactNode;
+  title: string;
+}) {
+  // Each row gets a stable key so removing row 2 doesn't make React
+  // reuse row 2's inputs for what used to be row 3
+  const nextKey = useRef(0);
+  const withKey = (row: Row) => ({ key: nextKey.current++, row });
+
+  // The rows currently on screen
+  const [rows, setRows] = useState(() => initialRows.map(withKey));
+
+  return (
+    // role="group" + aria-labelledby lets screen readers announce "Phone, group"
+    <div aria-labelledby={`${field}-title`} className="contact-form-list" role="group">
+      <span id={`${field}-title`}>{title}</span>
+      <div>
+        {rows.map(({ key, row }, index) => (
+          <div className="contact-form-row" key={key}>
+            {renderRow(row)}
+            {/* REMOVE BUTTON: type="button" so it doesn't submit the form */}
+            <button
+              aria-label={`Remove ${title.toLowerCase()} ${index + 1}`}
+              onClick={() => setRows(rows.filter((item) => item.key !== key))}
+              type="button"
+            >
+              Remove
+            </button>
+            <FieldError errors={errors} name={`${field}.${index}`} />
+          </div>
+        ))}
+
+        {/* ADD BUTTON: Appends an empty row (hidden once the limit is reached) */}
+        {rows.length < LIST_MAX_ROWS ? (
+          <button
+            onClick={() => setRows([...rows, withKey(emptyRow)])}
+            type="button"
+          >
+            {addLabel}
+          </button>
+        ) : null}
+        <FieldError errors={errors} name={`${field}.${LIST_MAX_ROWS}`} />
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// TAG EDITOR COMPONENT: Add and remove tags like "Team" or "Vendors"
+// ============================================================================
+// Each tag is sent as its own hidden "tag" field. The text box is ALSO named
+// "tag", so whatever is typed there gets saved too (even without JavaScript,
+// or if the user clicks Save without pressing Enter first)
+function TagEditor({
+  initialTags, // The tags to start with
+  suggestions, // Tags already used on other contacts
+}: {
+  initialTags: string[];
+  suggestions: string[];
+}) {
+  const [tags, setTags] = useState(initialTags);
+  const [draft, setDraft] = useState("");
+
+  // ADD DRAFT: Turns what's typed into a chip ("a, b" becomes two chips)
+  const addDraft = () => {
+    const added = draft
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean)
+      // Skip tags we already have (ignoring case)
+      .filter((tag) => !tags.some((t) => t.toLowerCase() === tag.toLowerCase()));
+    setTags([...tags, ...added].slice(0, TAGS_MAX));
+    setDraft("");
+  };
+
+  return (
+    <div aria-labelledby="tags-title" className="contact-form-list" role="group">
+      <span id="tags-title">Tags</span>
+      <div className="tag-editor">
+        {tags.map((tag) => (
+          <span className="tag-chip" key={tag}>
+            {tag}
+            <input name="tag" type="hidden" value={tag} />
+            <button
+              aria-label={`Remove tag ${tag}`}
+              onClick={() => setTags(tags.filter((t) => t !== tag))}
+              type="button"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          aria-label="Add a tag"
+          list="tag-suggestions" // Shows the datalist below as suggestions
+          maxLength={TAG_MAX_LENGTH}
+          name="tag"
+          onBlur={addDraft}
+          onChange={(event) => setDraft(event.currentTarget.value)}
+          onKeyDown={(event) => {
+            // Enter or comma finishes a tag (instead of submitting the form)
+            if (event.key === "Enter" || event.key === ",") {
+              event.preventDefault();
+              addDraft();
+            }
+          }}
+          placeholder={tags.length ? "Add another…" : "Team, Vendors…"}
+          type="text"
+          value={draft}
+        />
+        <datalist id="tag-suggestions">
+          {suggestions
+            .filter((name) => !tags.includes(name))
+            .map((name) => (
+              <option key={name} value={name} />
+            ))}
+        </datalist>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// DATE ROW COMPONENT: The inputs for one date
+// ============================================================================
+// The title box only shows for "custom" dates (a birthday is just
+// "Birthday"). It's always in the form, so every row sends the same fields
+function DateRow({ entry }: { entry: ContactDate }) {
+  const [label, setLabel] = useState<DateLabel>(entry.label);
+
+  return (
+    <>
+      <select
+        aria-label="Kind of date"
+        name="date.label"
+        onChange={(event) => setLabel(event.currentTarget.value as DateLabel)}
+        value={label}
+      >
+        {DATE_LABELS.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+      <input aria-label="Date" defaultValue={entry.date} name="date.date" type="date" />
+      <input
+        aria-label="What the date is"
+        defaultValue={entry.title}
+        hidden={label !== "custom"}
+        maxLength={DATE_TITLE_MAX_LENGTH}
+        name="date.title"
+        placeholder="Met at React Conf"
+      />
+    </>
+  );
+}
+
+// ============================================================================
+// RELATED PEOPLE COMPONENT: Pick other contacts, and say how they're related
+// ============================================================================
+// Each row sends the other contact's ID (hidden) and the relationship type.
+// The search box has no name, so what's typed there is never saved - it
+// only looks up contacts through the same /contact-list route the sidebar
+// uses while scrolling
+function RelatedPeople({
+  contactId,   // The contact being edited (it can't be related to itself)
+  initialRows, // The relationships to start with
+  names,       // Their names, from the loader
+}: {
+  contactId: string;
+  initialRows: Relationship[];
+  names: Record<string, string>;
+}) {
+  // Stable keys, like ListField's, so removing a row keeps the others' inputs
+  const nextKey = useRef(0);
+  const withKey = (row: Relationship & { name: string }) => ({
+    key: nextKey.current++,
+    ...row,
+  });
+
+  const [rows, setRows] = useState(() =>
+    initialRows.map((row) =>
+      withKey({ ...row, name: names[row.contactId] ?? "Unknown contact" }),
+    ),
+  );
+  const [query, setQuery] = useState("");
+  const fetcher = useFetcher<typeof contactListLoader>();
+
+  // Matches for what's typed, without this contact or anyone already added
+  const results = query.trim()
+    ? (fetcher.data?.items ?? [])
+        .filter(
+          (item) =>
+            item.id !== contactId && !rows.some((row) => row.contactId === item.id),
+        )
+        .slice(0, RELATED_RESULTS)
+    : [];
+
+  // SEARCH: Looks up contacts matching what's typed (the sidebar's search)
+  const search = (value: string) => {
+    setQuery(value);
+    if (value.trim()) {
+      fetcher.load(`/contact-list?${new URLSearchParams({ q: value })}`);
+    }
+  };
+
+  // ADD: A new row for the picked contact - "Colleague" until changed
+  const add = (item: { id: string; first?: string; last?: string }) => {
+    const name = [item.first, item.last].filter(Boolean).join(" ") || "No Name";
+    setRows([...rows, withKey({ contactId: item.id, type: "colleague", name })]);
+    setQuery("");
+  };
+
+  return (
+    <div aria-labelledby="related-title" className="contact-form-list" role="group">
+      <span id="related-title">Related</span>
+      <div>
+        {rows.map((row, index) => (
+          <div className="contact-form-row related-row" key={row.key}>
+            <input name="related.contactId" type="hidden" value={row.contactId} />
+            <select
+              aria-label={`How ${row.name} is related`}
+              defaultValue={row.type}
+              name="related.type"
+            >
+              {RELATIONSHIP_TYPES.map((option) => (
+                <option key={option.type} value={option.type}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <span>{row.name}</span>
+            <button
+              aria-label={`Remove related person ${index + 1}`}
+              onClick={() => setRows(rows.filter((item) => item.key !== row.key))}
+              type="button"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+
+        {/* SEARCH: Find a contact to add (hidden once the limit is reached) */}
+        {rows.length < RELATED_MAX ? (
+          <div className="related-search">
+            <input
+              aria-label="Find a contact to add"
+              onChange={(event) => search(event.currentTarget.value)}
+              onKeyDown={(event) => {
+                // Enter picks the first match (instead of submitting the form)
+                if (event.key === "Enter") {
+                  event.preventDefault();
+                  if (results.length > 0) add(results[0]);
+                }
+              }}
+              placeholder="Search contacts…"
+              type="search"
+              value={query}
+            />
+            {results.length > 0 ? (
+              <ul>
+                {results.map((item) => (
+                  <li key={item.id}>
+                    <button onClick={() => add(item)} type="button">
+                      {[item.first, item.last].filter(Boolean).join(" ") || <i>No Name</i>}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : query.trim() && fetcher.state === "idle" && fetcher.data ? (
+              <p>
+                <i>No contacts found</i>
+              </p>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// LABEL SELECT COMPONENT: The home/work/mobile/other dropdown
+// ============================================================================
+function LabelSelect({
+  defaultValue, // The label this row currently has
+  name,         // Form field name, e.g. "phone.label"
+}: {
+  defaultValue: ContactLabel;
+  name: string;
+}) {
+  return (
+    <select aria-label="Label" defaultValue={defaultValue} name={name}>
+      {CONTACT_LABELS.map((label) => (
+        <option key={label} value={label}>
+          {label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+// ============================================================================
+// FIELD ERROR COMPONENT: Shows the validation message for one field
+// ============================================================================
+// Renders nothing when the field is fine
+function FieldError({
+  errors, // All field errors from the action (or undefined)
+  name,   // Which field (or list row) this message belongs to
+}: {
+  errors: FieldErrors | undefined;
+  name: keyof FieldErrors;
+}) {
+  const message = errors?.[name];
+  if (!message) return null;
+
+  return (
+    // The id matches the input's aria-describedby, so screen readers
+    // read the message when the input is focused
+    <p className="field-error" id={`${name}-error`} role="alert">
+      {message}
+    </p>
+  );
+}
+
 // ============================================================================
 // ACTION FUNCTION: Saves the edited contact
 // ============================================================================
-// This runs when the form is submitted (when "Save" is clicked)
+// This runs when the form is submitted (when "Save" is clicked), and again
+// when the user settles a conflict (intent "resolve")
 export async function action({
   params,  // URL parameters (contains contactId)
   request, // The HTTP request object with form data
 }: Route.ActionArgs) {
+  const { bookId } = await requireAddressBook(request, "edit");
+
+  // The contact as it is now - maybe already changed by someone else
+  const contact = await getContact(bookId, params.contactId);
+  if (!contact) {
+    throw new Response("Not Found", { status: 404 });
+  }
+  
   // Get all the form data from the request
   const formData = await request.formData();
   
-  // Convert formData to a regular JavaScript object
-  // Object.fromEntries() turns form data into: { first: "John", last: "Doe", ... }
-  const updates = Object.fromEntries(formData);
+  // Check every field against the rules in contact-schema.ts
+  // (on the conflict screen, these are the user's own values, sent along
+  // as hidden fields)
+  const result = validateContact(formData);
+
+  // Something's wrong? Don't save - send the errors (and what the user typed)
+  // back to the form. Status 400 means "the request had bad data"
+  if (!result.success) {
+    return data(
+      { errors: result.errors, values: result.values },
+      { status: 400 },
+    );
+  }
+  
+  // Which version of the contact the form was showing. Every save that
+  // changes something adds one, so a different number means someone else
+  // saved in the meantime (a missing or garbled number skips the check)
+  const currentVersion = contact.version ?? 0;
+  const formVersion = Number(formData.get("version") || currentVersion);
+  const stale = Number.isInteger(formVersion) && formVersion !== currentVersion;
+
+  // The contact as the form showed it (null if that version isn't known)
+  const shown = stale
+    ? await getContactVersion(bookId, contact.id, formVersion)
+    : contact;
+
+  // Settling a conflict: every field marked "theirs" takes the value the
+  // conflict screen showed for the other person
+  if (formData.get("intent") === "resolve") {
+    const theirs = toFormValues(shown ?? contact);
+    for (const field of CONFLICT_FIELDS) {
+      if (formData.get(`pick.${field.name}`) === "theirs") {
+        Object.assign(result.data, { [field.name]: theirs[field.name] });
+      }
+    }
+  }
+
+  // Someone else saved first? Don't overwrite their changes - show both
+  // side by side instead
+  if (stale) {
+    return conflictResponse(contact, shown, result.data, pickedPhoto(formData) !== null);
+  }
+  
+  // A photo chosen? It replaces whatever is in the Avatar URL box. Only
+  // stored once everything else is valid and nobody else has saved in the
+  // meantime, so a failed save (or a conflict) leaves no unused photos behind
+  const photo = pickedPhoto(formData);
+  const typedAvatar = result.data.avatar;
+  if (photo) {
+    const saved = await saveAvatar(photo);
+    if (!saved.success) {
+      return data(
+        {
+          errors: { avatar: saved.error } as FieldErrors,
+          values: toFormValues(result.data),
+        },
+        { status: 400 },
+      );
+    }
+    result.data.avatar = saved.url;
+  }
   
-  // Update the contact in the database with the new values
-  await updateContact(params.contactId, updates);
+  // Update the contact in the database with the validated values - unless
+  // someone else saved while the photo was being stored (updateContact()
+  // checks the version right before writing). Then the new photo goes again
+  // and the conflict screen shows, just like above
+  const updated = await updateContact(
+    bookId,
+    params.contactId,
+    result.data,
+    Number.isInteger(formVersion) ? formVersion : undefined,
+  );
+  if (!updated) {
+    if (photo) await deleteAvatar(result.data.avatar);
+    result.data.avatar = typedAvatar;
+    const latest = await getContact(bookId, params.contactId);
+    if (!latest) {
+      throw new Response("Not Found", { status: 404 });
+    }
+    return conflictResponse(
+      latest,
+      await getContactVersion(bookId, contact.id, formVersion),
+      result.data,
+      photo !== null,
+    );
+  }
   
   // After saving, redirect to the contact's detail page
   // Example: /contacts/ryan-florence
   return redirect(`/contacts/${params.contactId}`);
 }
 
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// CONFLICT RESPONSE: The conflict screen's data - the contact as the form
+// showed it (shown, null if unknown), as this user changed it (mine) and as
+// someone else saved it since (contact). Status 409 means "conflict"
+async function conflictResponse(
+  contact: ContactRecord,
+  shown: ContactMutation | null,
+  mine: ContactMutation,
+  photoDropped: boolean,
+) {
+  const base = shown ? toFormValues(shown) : null;
+  const values = toFormValues(mine);
+  const theirs = toFormValues(contact);
+  const names = await getContactNames(
+    contact.bookId ?? "",
+    [base, values, theirs].flatMap((entry) =>
+      (entry?.related ?? []).map((relationship) => relationship.contactId),
+    ),
+  );
+  return data(
+    {
+      conflict: {
+        version: contact.version ?? 0, // What to send back next time
+        base,                          // Before either edit
+        mine: values,                  // This user's values
+        theirs,                        // The other person's
+        names,                         // Who the related people are
+        photoDropped,                  // Not uploaded (see the action)
+      } satisfies Conflict,
+    },
+    { status: 409 },
+  );
+}
+
+// PICKED PHOTO: The file chosen in the photo box (null if none was)
+function pickedPhoto(formData: FormData): File | null {
+  const photo = formData.get("avatarFile");
+  return photo instanceof File && photo.size > 0 ? photo : null;
+}
+
+// DESCRIBE VALUE: One field of a contact as text, one line per entry
+// (an empty list when the field is blank). names says who related people are
+function describeValue(
+  name: keyof ContactFormValues,
+  values: ContactFormValues,
+  names: Record<string, string> = {},
+): string[] {
+  switch (name) {
+    case "phones":
+      return values.phones.map((phone) => `${phone.label}: ${phone.number}`);
+    case "emails":
+      return values.emails.map((email) => `${email.label}: ${email.address}`);
+    case "addresses":
+      return values.addresses.map(
+        (address) =>
+          `${address.label}: ${[
+            address.street,
+            address.city,
+            address.region,
+            address.postalCode,
+            address.country,
+          ]
+            .filter(Boolean)
+            .join(", ")}`,
+      );
+    case "tags":
+      return values.tags;
+    case "dates":
+      return values.dates.map((entry) => `${describeDate(entry)}: ${formatDate(entry.date)}`);
+    case "related":
+      return values.related.map(
+        (relationship) =>
+          `${relationshipLabel(relationship.type)}: ${names[relationship.contactId] ?? relationship.contactId}`,
+      );
+    default:
+      return values[name] ? [values[name]] : [];
+  }
+}
+
+// SAME VALUE: Whether two versions of a contact agree on one field
+function sameValue(
+  name: keyof ContactFormValues,
+  a: ContactFormValues,
+  b: ContactFormValues,
+): boolean {
+  return describeValue(name, a).join("\n") === describeValue(name, b).join("\n");
+}
+
 // ============================================================================
 // HOW EDIT-CONTACT.TSX CONNECTS TO OTHER FILES:
 // ============================================================================
@@ -153,6 +1180,16 @@ export async function action({
 // 3. The loader() calls getContact() from data.ts to get current values
 // 4. The form displays in the <Outlet /> of sidebar.tsx
 // 5. When the form is submitted, action() runs
-// 6. action() calls updateContact() from data.ts to save changes
-// 7. After saving, user is redirected back to contact.tsx
-// 8. Clicking "Cancel" uses navigate(-1) to go back without saving
+// 6. action() checks the input with validateContact() from contact-schema.ts
+//    - If anything is invalid, the errors come back and show under each input
+// 7. Valid input goes to updateContact() from data.ts to save changes
+// 8. After saving, user is redirected back to contact.tsx
+// 9. Clicking "Cancel" uses navigate(-1) to go back without saving
+// 10. An uploaded photo goes to saveAvatar() (avatars.server.ts), which
+//     resizes and stores it; the contact keeps its "/avatars/..." URL
+// 11. The form sends back the contact's version. If someone else saved in
+//     the meantime, action() shows ConflictResolver instead of saving - with
+//     what the form started from, found by getContactVersion() (data.ts)
+// 12. RelatedPeople searches the address book through the /contact-list
+//     resource route (contact-list.tsx); updateContact() (data.ts) then
+//     gives each related person their side of the relationship
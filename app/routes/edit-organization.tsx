@@ -0,0 +1,168 @@
+// ============================================================================
+// EDIT-ORGANIZATION.TSX - Form to change an organization's details
+// ============================================================================
+// This page shows when you click "Edit" on an organization's page
+// URL pattern: /organizations/:orgId/edit
+// Renaming an organization renames the company of everyone who works there
+
+// Import React Router components
+import { Form, data, redirect, useNavigate } from "react-router";
+
+// Import TypeScript types and data functions
+import type { Route } from "./+types/edit-organization";
+import type { OrganizationFormField } from "../contact-schema";
+import { requireAddressBook } from "../auth.server";
+import {
+  AVATAR_MAX_LENGTH,
+  COMPANY_MAX_LENGTH,
+  NOTES_MAX_LENGTH,
+  validateOrganization,
+} from "../contact-schema";
+import { getOrganization, updateOrganization } from "../data";
+
+// ============================================================================
+// LOADER FUNCTION: Fetches the organization to edit
+// ============================================================================
+export async function loader({ params, request }: Route.LoaderArgs) {
+  // Viewers of a shared address book can't edit - they're sent away here
+  const { bookId } = await requireAddressBook(request, "edit");
+  const organization = await getOrganization(bookId, params.orgId);
+  if (!organization) {
+    throw new Response("Not Found", { status: 404 });
+  }
+  return { organization };
+}
+
+// ============================================================================
+// ACTION FUNCTION: Saves the edited organization
+// ============================================================================
+export async function action({ params, request }: Route.ActionArgs) {
+  const { bookId } = await requireAddressBook(request, "edit");
+  if (!(await getOrganization(bookId, params.orgId))) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  // Bad input goes back to the form (400 Bad Request), with what was typed
+  const result = validateOrganization(await request.formData());
+  if (!result.success) {
+    return data({ errors: result.errors, values: result.values }, { status: 400 });
+  }
+
+  // Two organizations can't share a name - contacts find theirs by it
+  const updated = await updateOrganization(bookId, params.orgId, result.data);
+  if (!updated) {
+    return data(
+      {
+        errors: { name: `There's already an organization called ${result.data.name}.` },
+        values: result.data,
+      },
+      { status: 400 },
+    );
+  }
+
+  return redirect(`/organizations/${params.orgId}`);
+}
+
+// ============================================================================
+// MAIN COMPONENT: The edit form
+// ============================================================================
+export default function EditOrganization({ actionData, loaderData }: Route.ComponentProps) {
+  const { organization } = loaderData;
+  const navigate = useNavigate();
+  const errors: Partial<Record<OrganizationFormField, string>> | undefined =
+    actionData?.errors;
+
+  // Everything each input needs: its name, what to show in it (what was
+  // typed, if the last save failed) and the link to its error message
+  const fieldProps = (name: OrganizationFormField) => ({
+    name,
+    defaultValue: actionData?.values[name] ?? organization[name] ?? "",
+    "aria-invalid": errors?.[name] ? true : undefined,
+    "aria-describedby": errors?.[name] ? `${name}-error` : undefined,
+  });
+
+  return (
+    <Form id="organization-form" key={organization.id} method="post">
+      <label>
+        <span>Name</span>
+        <input
+          {...fieldProps("name")}
+          maxLength={COMPANY_MAX_LENGTH}
+          placeholder="Remix"
+          required
+          type="text"
+        />
+      </label>
+      <FieldError errors={errors} name="name" />
+
+      <label>
+        <span>Website</span>
+        <input {...fieldProps("domain")} placeholder="remix.run" type="text" />
+      </label>
+      <FieldError errors={errors} name="domain" />
+
+      <label>
+        <span>Address</span>
+        <textarea {...fieldProps("address")} rows={3} />
+      </label>
+      <FieldError errors={errors} name="address" />
+
+      <label>
+        <span>Logo URL</span>
+        <input
+          {...fieldProps("logo")}
+          maxLength={AVATAR_MAX_LENGTH}
+          placeholder="https://example.com/logo.png"
+          type="url"
+        />
+      </label>
+      <FieldError errors={errors} name="logo" />
+
+      <label>
+        <span>Notes</span>
+        <textarea {...fieldProps("notes")} maxLength={NOTES_MAX_LENGTH} rows={6} />
+      </label>
+      <FieldError errors={errors} name="notes" />
+
+      <p>
+        <button type="submit">Save</button>
+        <button onClick={() => navigate(-1)} type="button">
+          Cancel
+        </button>
+      </p>
+    </Form>
+  );
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// FIELD ERROR: The message under one input (nothing when it's fine)
+function FieldError({
+  errors,
+  name,
+}: {
+  errors: Partial<Record<OrganizationFormField, string>> | undefined;
+  name: OrganizationFormField;
+}) {
+  const message = errors?.[name];
+  if (!message) return null;
+
+  return (
+    <p className="field-error" id={`${name}-error`} role="alert">
+      {message}
+    </p>
+  );
+}
+
+// ============================================================================
+// HOW EDIT-ORGANIZATION.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /organizations/:orgId/edit
+// 2. The "Edit" button on organization.tsx navigates here
+// 3. The loader calls getOrganization() from data.ts
+// 4. The action checks the form with validateOrganization() (contact-schema.ts),
+//    then saves it with updateOrganization() (data.ts) - which also renames
+//    the company of everyone who works there
+// 5. After saving, it redirects back to organization.tsx
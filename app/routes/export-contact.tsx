@@ -0,0 +1,50 @@
+// ============================================================================
+// EXPORT-CONTACT.TSX - Download one contact as a file
+// ============================================================================
+// A "resource route" like export-contacts.tsx, but for a single contact.
+// URL pattern: /contacts/:contactId/export/:format
+// (e.g., /contacts/ryan-florence/export/vcf)
+
+// Import TypeScript types for this route
+import type { Route } from "./+types/export-contact";
+
+// Import the data and export helpers
+import { requireAddressBook } from "../auth.server";
+import { getContact } from "../data";
+import { createExportResponse, fileNameFor, isExportFormat } from "../export";
+
+// ============================================================================
+// LOADER FUNCTION: Builds the file
+// ============================================================================
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const { bookId } = await requireAddressBook(request);
+
+  // Only "vcf" and "csv" exist - anything else is a 404
+  if (!isExportFormat(params.format)) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  // Same 404 as the contact page if the contact doesn't exist
+  const contact = await getContact(bookId, params.contactId);
+  if (!contact) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  // Name the file after the contact: "ryan-florence.vcf"
+  const name = [contact.first, contact.last].filter(Boolean).join(" ");
+  return createExportResponse(
+    [contact],
+    params.format,
+    fileNameFor(name, "contact"),
+  );
+}
+
+// ============================================================================
+// HOW EXPORT-CONTACT.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /contacts/:contactId/export/:format
+// 2. The "Export" links on contact.tsx point here
+// 3. The loader calls getContact() from data.ts
+// 4. createExportResponse() from export.ts turns it into a download
+//
+// NOTE: This file has NO default export (no component)
@@ -0,0 +1,48 @@
+// ============================================================================
+// EXPORT-CONTACTS.TSX - Download the address book as a file
+// ============================================================================
+// This is a "resource route" - it has no UI component. Instead of a page,
+// its loader returns a file (vCard or CSV) that the browser downloads.
+// URL pattern: /export/:format (e.g., /export/vcf or /export/csv?q=ryan)
+//
+// With ?q=... only the contacts matching that search are exported - the
+// same list the sidebar shows for that search
+
+// Import TypeScript types for this route
+import type { Route } from "./+types/export-contacts";
+
+// Import the data and export helpers
+import { requireAddressBook } from "../auth.server";
+import { getContacts } from "../data";
+import { createExportResponse, fileNameFor, isExportFormat } from "../export";
+
+// ============================================================================
+// LOADER FUNCTION: Builds the file
+// ============================================================================
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const { bookId } = await requireAddressBook(request);
+
+  // Only "vcf" and "csv" exist - anything else is a 404
+  if (!isExportFormat(params.format)) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  // Use the same search the sidebar loader uses
+  const q = new URL(request.url).searchParams.get("q");
+  const contacts = await getContacts(bookId, q);
+
+  // "contacts.vcf" for everything, "contacts-ryan.vcf" for a search
+  const baseName = q ? `contacts-${fileNameFor(q, "search")}` : "contacts";
+  return createExportResponse(contacts, params.format, baseName);
+}
+
+// ============================================================================
+// HOW EXPORT-CONTACTS.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /export/:format (outside the sidebar)
+// 2. The "Export" links in sidebar.tsx point here, passing the current ?q=
+// 3. The loader calls getContacts() from data.ts, just like sidebar.tsx
+// 4. createExportResponse() from export.ts turns them into a download
+//
+// NOTE: This file has NO default export (no component)
+//       It's a "resource route" that only returns a file
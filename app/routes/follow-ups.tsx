@@ -0,0 +1,109 @@
+// ============================================================================
+// FOLLOW-UPS.TSX - Adds, completes, snoozes and reschedules follow-ups
+// ============================================================================
+// An "action-only" route, posted to by fetchers on the home page and on
+// contact pages. It answers with data instead of redirecting - the page's
+// loader runs again afterwards by itself, so the lists update in place
+// URL pattern: /follow-ups
+//
+//   intent=add         New follow-up for "contactId" (dueOn, everyWeeks, note)
+//   intent=done        The one in "followUpId" is done (repeating ones roll on)
+//   intent=snooze      Put it off by "days" (one of SNOOZE_OPTIONS)
+//   intent=reschedule  Move it to "dueOn"
+//   intent=delete      Remove it altogether
+
+// Import React Router's data helper (for sending errors with a status)
+import { data } from "react-router";
+
+// Import TypeScript types
+import type { Route } from "./+types/follow-ups";
+
+// Import the data functions and the form rules
+import { requireAddressBook } from "../auth.server";
+import { validateFollowUp } from "../contact-schema";
+import {
+  addFollowUp,
+  completeFollowUp,
+  deleteFollowUp,
+  getContact,
+  getFollowUp,
+  rescheduleFollowUp,
+  snoozeFollowUp,
+} from "../data";
+import { isValidDate } from "../dates";
+import { isSnoozeDays } from "../follow-ups";
+
+// ============================================================================
+// ACTION FUNCTION: Does what "intent" says
+// ============================================================================
+export async function action({ request }: Route.ActionArgs) {
+  const { bookId } = await requireAddressBook(request, "edit");
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  // ADD: Needs a contact in this address book, and a valid form
+  if (intent === "add") {
+    const contactId = String(formData.get("contactId") ?? "");
+    if (!(await getContact(bookId, contactId))) {
+      throw new Response("Not Found", { status: 404 });
+    }
+    const result = validateFollowUp(formData);
+    if (!result.success) {
+      return data({ ok: false, errors: result.errors }, { status: 400 });
+    }
+    await addFollowUp(bookId, contactId, result.data);
+    return { ok: true, errors: {} };
+  }
+
+  // Everything else is about an existing follow-up (it may already be done)
+  const followUpId = String(formData.get("followUpId") ?? "");
+  if (!(await getFollowUp(bookId, followUpId))) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  if (intent === "done") {
+    await completeFollowUp(bookId, followUpId);
+    return { ok: true, errors: {} };
+  }
+
+  if (intent === "snooze") {
+    const days = Number(formData.get("days"));
+    if (!isSnoozeDays(days)) {
+      throw new Response("Unknown snooze length", { status: 400 });
+    }
+    await snoozeFollowUp(bookId, followUpId, days);
+    return { ok: true, errors: {} };
+  }
+
+  if (intent === "reschedule") {
+    const dueOn = String(formData.get("dueOn") ?? "");
+    if (!isValidDate(dueOn)) {
+      return data(
+        { ok: false, errors: { dueOn: "Enter a date like 2025-05-01." } },
+        { status: 400 },
+      );
+    }
+    await rescheduleFollowUp(bookId, followUpId, dueOn);
+    return { ok: true, errors: {} };
+  }
+
+  if (intent === "delete") {
+    await deleteFollowUp(bookId, followUpId);
+    return { ok: true, errors: {} };
+  }
+
+  throw new Response("Unknown intent", { status: 400 });
+}
+
+// ============================================================================
+// HOW FOLLOW-UPS.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /follow-ups
+// 2. home.tsx posts done / snooze / reschedule here with fetchers, and
+//    contact.tsx adds and deletes its contact's follow-ups
+// 3. validateFollowUp() (contact-schema.ts) checks new follow-ups, and
+//    isSnoozeDays() (follow-ups.ts) the snooze lengths
+// 4. The FOLLOW-UPS functions in data.ts do the work - completeFollowUp()
+//    rolls repeating follow-ups forward
+//
+// NOTE: This file has NO default export (no component)
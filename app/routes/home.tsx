@@ -1,33 +1,257 @@
 // ============================================================================
 // HOME.TSX - The homepage / index route
 // ============================================================================
-// This is the simplest component in the app
-// It shows when you visit the root URL ("/")
+// It shows when you visit the root URL ("/"), before any contact is picked:
+// the follow-ups that are due, and the birthdays, anniversaries and other
+// dates coming up in the address book
 
-// No imports needed - this is just plain JSX
+// Import React Router components
+import { Link, useFetcher } from "react-router";
+
+// Import TypeScript types and data functions
+import type { Route } from "./+types/home";
+import type { action as followUpsAction } from "./follow-ups";
+import { requireAddressBook } from "../auth.server";
+import type { FollowUpFormField } from "../contact-schema";
+import { getDueFollowUps, getUpcomingDates } from "../data";
+import { UPCOMING_DAYS, describeDate, formatDate } from "../dates";
+import { FOLLOW_UP_DAYS, SNOOZE_OPTIONS, describeRepeat, dueLabel } from "../follow-ups";
+
+// ============================================================================
+// LOADER FUNCTION: Fetches the follow-ups and dates coming up soon
+// ============================================================================
+export async function loader({ request }: Route.LoaderArgs) {
+  const { bookId, canEdit } = await requireAddressBook(request);
+  const followUps = await getDueFollowUps(bookId, FOLLOW_UP_DAYS);
+  const upcoming = await getUpcomingDates(bookId, UPCOMING_DAYS);
+
+  // Only what the lists show - not every contact's whole record
+  return {
+    canEdit,
+    followUps: followUps.map(({ followUp, contact, inDays }) => ({
+      id: followUp.id,
+      contactId: contact.id,
+      name: [contact.first, contact.last].filter(Boolean).join(" "),
+      dueOn: followUp.dueOn,
+      inDays,
+      repeat: describeRepeat(followUp.everyWeeks),
+      note: followUp.note,
+    })),
+    upcoming: upcoming.map(({ contact, entry, on, inDays, years }) => ({
+      contactId: contact.id,
+      name: [contact.first, contact.last].filter(Boolean).join(" "),
+      what: describeDate(entry),
+      birthday: entry.label === "birthday",
+      on,
+      inDays,
+      years,
+    })),
+  };
+}
 
 // ============================================================================
 // DEFAULT EXPORT: The Home component
 // ============================================================================
-// This component displays a simple welcome message with a link
-export default function Home() {
+export default function Home({ loaderData }: Route.ComponentProps) {
+  const { canEdit, followUps, upcoming } = loaderData;
+  const overdue = followUps.filter((item) => item.inDays < 0);
+  const dueToday = followUps.filter((item) => item.inDays === 0);
+  const soon = followUps.filter((item) => item.inDays > 0);
+
   return (
-    // A paragraph with an ID for CSS styling
-    <p id="index-page">
+    <div id="index-page">
+      {/* FOLLOW-UPS: Overdue first, then today's, then the next week's */}
+      <section aria-labelledby="follow-ups-title" className="follow-ups">
+        <h2 id="follow-ups-title">
+          Follow-ups
+          {overdue.length + dueToday.length ? (
+            <small> · {overdue.length + dueToday.length} due</small>
+          ) : null}
+        </h2>
+        {followUps.length === 0 ? (
+          <p>
+            <i>Nothing to follow up on this week. Set follow-ups on a contact's page.</i>
+          </p>
+        ) : (
+          <>
+            <FollowUpGroup canEdit={canEdit} items={overdue} title="Overdue" />
+            <FollowUpGroup canEdit={canEdit} items={dueToday} title="Today" />
+            <FollowUpGroup
+              canEdit={canEdit}
+              items={soon}
+              title={`Next ${FOLLOW_UP_DAYS} days`}
+            />
+          </>
+        )}
+      </section>
+
+      {/* COMING UP: The next 30 days, soonest first */}
+      <section aria-labelledby="upcoming-title" className="upcoming-dates">
+        <h2 id="upcoming-title">Coming up in the next {UPCOMING_DAYS} days</h2>
+        {upcoming.length === 0 ? (
+          <p>
+            <i>Nothing coming up. Add birthdays and other dates on a contact's edit page.</i>
+          </p>
+        ) : (
+          <ul>
+            {upcoming.map((item, index) => (
+              <li key={index}>
+                <time dateTime={item.on}>{whenLabel(item.on, item.inDays)}</time>
+                <span>
+                  <Link to={`/contacts/${item.contactId}`}>
+                    {item.name || <i>No Name</i>}
+                  </Link>{" "}
+                  · {item.what}
+                  {yearsLabel(item.years, item.birthday)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <p>
+          <small>
+            Want them in your calendar app? Make a calendar token on the{" "}
+            <Link to="/api-tokens">API tokens</Link> page.
+          </small>
+        </p>
+      </section>
+
       {/* Simple text explaining what this app is */}
-      This is a demo for React Router.
-      <br /> {/* Line break */}
-      Check out{" "} {/* The {" "} adds a space */}
-      
-      {/* A link to the React Router documentation */}
-      <a href="https://reactrouter.com">
-        the docs at reactrouter.com
-      </a>
-      . {/* Period after the link */}
-    </p>
+      <p>
+        This is a demo for React Router.
+        <br /> {/* Line break */}
+        Check out{" "} {/* The {" "} adds a space */}
+
+        {/* A link to the React Router documentation */}
+        <a href="https://reactrouter.com">
+          the docs at reactrouter.com
+        </a>
+        . {/* Period after the link */}
+      </p>
+    </div>
+  );
+}
+
+// ============================================================================
+// FOLLOW-UP GROUP COMPONENT: "Overdue", "Today"... and their follow-ups
+// ============================================================================
+// Nothing at all for an empty group
+type FollowUpItem = Route.ComponentProps["loaderData"]["followUps"][number];
+
+function FollowUpGroup({
+  canEdit,
+  items,
+  title,
+}: {
+  canEdit: boolean;
+  items: FollowUpItem[];
+  title: string;
+}) {
+  if (items.length === 0) return null;
+
+  return (
+    <>
+      <h3>{title}</h3>
+      <ul>
+        {items.map((item) => (
+          <FollowUpEntry canEdit={canEdit} item={item} key={item.id} />
+        ))}
+      </ul>
+    </>
   );
 }
 
+// ============================================================================
+// FOLLOW-UP ENTRY COMPONENT: One follow-up, with Done, Snooze and Reschedule
+// ============================================================================
+// Each entry has its own fetcher posting to follow-ups.tsx, so "Done" hides
+// it straight away (a repeating one comes back if its next time is this
+// week, once the loader has run again)
+function FollowUpEntry({ canEdit, item }: { canEdit: boolean; item: FollowUpItem }) {
+  const fetcher = useFetcher<typeof followUpsAction>();
+  const busy = fetcher.state !== "idle";
+  const errors: Partial<Record<FollowUpFormField, string>> | undefined =
+    fetcher.data?.errors;
+  const error = errors?.dueOn;
+  if (fetcher.formData?.get("intent") === "done") return null;
+
+  return (
+    <li className={item.inDays < 0 ? "overdue" : undefined}>
+      <time dateTime={item.dueOn}>{dueLabel(item.inDays)}</time>
+      <div>
+        <span>
+          <Link to={`/contacts/${item.contactId}`}>{item.name || <i>No Name</i>}</Link>
+          {item.repeat ? <small> · {item.repeat}</small> : null}
+        </span>
+        {item.note ? <p>{item.note}</p> : null}
+
+        {/* DONE AND SNOOZE: One form, the button pressed says which */}
+        {canEdit ? (
+          <div className="follow-up-actions">
+            <fetcher.Form action="/follow-ups" method="post">
+              <input name="followUpId" type="hidden" value={item.id} />
+              <button disabled={busy} name="intent" type="submit" value="done">
+                Done
+              </button>
+              <select aria-label="Snooze for" defaultValue="1" name="days">
+                {SNOOZE_OPTIONS.map(({ days, label }) => (
+                  <option key={days} value={days}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <button disabled={busy} name="intent" type="submit" value="snooze">
+                Snooze
+              </button>
+            </fetcher.Form>
+
+            {/* RESCHEDULE: A form of its own, so "Done" doesn't need a date */}
+            <fetcher.Form action="/follow-ups" method="post">
+              <input name="followUpId" type="hidden" value={item.id} />
+              <input
+                aria-describedby={error ? `reschedule-${item.id}-error` : undefined}
+                aria-invalid={error ? true : undefined}
+                aria-label="New date"
+                defaultValue={item.dueOn}
+                name="dueOn"
+                required
+                type="date"
+              />
+              <button disabled={busy} name="intent" type="submit" value="reschedule">
+                Reschedule
+              </button>
+            </fetcher.Form>
+          </div>
+        ) : null}
+        {error ? (
+          <p className="field-error" id={`reschedule-${item.id}-error`} role="alert">
+            {error}
+          </p>
+        ) : null}
+      </div>
+    </li>
+  );
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// WHEN LABEL: "Today", "Tomorrow" or "April 12"
+function whenLabel(on: string, inDays: number): string {
+  if (inDays === 0) return "Today";
+  if (inDays === 1) return "Tomorrow";
+  return formatDate(on, false);
+}
+
+// YEARS LABEL: " (turns 40)" for birthdays, " (10 years)" for the rest -
+// nothing for a date that's only just happened for the first time
+function yearsLabel(years: number, birthday: boolean): string {
+  if (years <= 0) return "";
+  if (birthday) return ` (turns ${years})`;
+  return ` (${years} ${years === 1 ? "year" : "years"})`;
+}
+
 // ============================================================================
 // HOW HOME.TSX CONNECTS TO OTHER FILES:
 // ============================================================================
@@ -36,3 +260,9 @@ export default function Home() {
 // 3. The sidebar and navigation appear around this content
 // 4. The Layout from root.tsx wraps everything in HTML structure
 // 5. The CSS from app.css styles the #index-page ID
+// 6. The loader calls getUpcomingDates() (data.ts) for the address book the
+//    sidebar has picked; the dates are added on edit-contact.tsx
+// 7. Each entry links to the contact's page (contact.tsx)
+// 8. The follow-ups come from getDueFollowUps() (data.ts) - they're set on
+//    contact.tsx, and Done / Snooze / Reschedule post to follow-ups.tsx;
+//    follow-ups.ts says how far ahead to look and words the due dates
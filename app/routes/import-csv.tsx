@@ -0,0 +1,370 @@
+// ============================================================================
+// IMPORT-CSV.TSX - Bring contacts in from a spreadsheet
+// ============================================================================
+// Spreadsheets exported from CRMs have all sorts of column names, so this
+// page walks the user through it in steps:
+//   1. Upload: pick a .csv file
+//   2. Map: see the columns with a few sample rows, choose which contact
+//      field each column holds, and what to do with rows that look like
+//      contacts we already have
+//   3. Summary: how many rows were created, updated, skipped or failed
+// URL pattern: /import/csv
+
+// Import React Router components
+import { Form, Link, data, useNavigation } from "react-router";
+
+// Import TypeScript types for this route
+import type { Route } from "./+types/import-csv";
+
+// Import the CSV helpers, validation rules and data functions
+import { parseCsv } from "../csv";
+import { CSV_TARGETS, guessTarget, isCsvTarget, rowToContact } from "../csv-import";
+import type { CsvTarget } from "../csv-import";
+import { toFormValues, validateContactValues } from "../contact-schema";
+import { requireAddressBook } from "../auth.server";
+import { batchWrites, createContact, getContacts, updateContact } from "../data";
+import type { ContactMutation, ContactRecord } from "../data";
+import { findMatch } from "../matching";
+
+// Biggest file we accept (2 MB is tens of thousands of rows)
+const MAX_FILE_SIZE = 2 * 1024 * 1024;
+
+// How many rows to show under the headers while mapping
+const SAMPLE_ROWS = 5;
+
+// What to do with a row that looks like an existing contact
+type DuplicateStrategy = "skip" | "overwrite" | "create";
+const DUPLICATE_STRATEGIES: { value: DuplicateStrategy; label: string }[] = [
+  { value: "skip", label: "Skip them (keep what's already here)" },
+  { value: "overwrite", label: "Overwrite the existing contact with the spreadsheet's values" },
+  { value: "create", label: "Create a new contact anyway" },
+];
+
+// ============================================================================
+// ACTION FUNCTION: Handles every step of the wizard
+// ============================================================================
+// The submit buttons send an "intent" field saying which step this is
+export async function action({ request }: Route.ActionArgs) {
+  const { bookId } = await requireAddressBook(request, "edit");
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  // STEP 1 → 2: Read the uploaded file and show the mapping screen
+  if (intent === "upload") {
+    const file = formData.get("file");
+
+    // Make sure we actually got a (reasonably sized) file
+    if (!(file instanceof File) || file.size === 0) {
+      return data(
+        { step: "upload" as const, error: "Choose a .csv file to import." },
+        { status: 400 },
+      );
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return data(
+        { step: "upload" as const, error: "That file is too big (the limit is 2 MB)." },
+        { status: 413 },
+      );
+    }
+
+    const csv = await file.text();
+    const problem = checkRows(parseCsv(csv));
+    if (problem) {
+      return data({ step: "upload" as const, error: problem }, { status: 400 });
+    }
+
+    return mappingStep(csv, file.name);
+  }
+
+  // STEP 2 → 3: Apply the mapping to every row and save
+  if (intent === "import") {
+    // The file's text travels with the mapping form in a hidden field,
+    // so we don't have to keep uploads around on the server
+    const csv = String(formData.get("csv") ?? "");
+    const fileName = String(formData.get("fileName") ?? "");
+    // ...so it gets the same size limit as the upload did (browsers may turn
+    // its line breaks into "\r\n" on the way - the extra "\r"s don't count)
+    if (new TextEncoder().encode(csv.replace(/\r\n/g, "\n")).length > MAX_FILE_SIZE) {
+      throw new Response("Bad Request", { status: 400 });
+    }
+    const [headers, ...rows] = parseCsv(csv);
+    if (checkRows([headers, ...rows])) {
+      throw new Response("Bad Request", { status: 400 });
+    }
+
+    // Read the dropdown for each column (anything unknown means "skip")
+    const mapping: CsvTarget[] = headers.map((_, index) => {
+      const value = formData.get(`column-${index}`);
+      return isCsvTarget(value) ? value : "";
+    });
+    if (mapping.every((target) => target === "")) {
+      return data(
+        { ...mappingStep(csv, fileName, mapping), error: "Map at least one column to a contact field." },
+        { status: 400 },
+      );
+    }
+
+    const strategy = toStrategy(formData.get("duplicates"));
+    // Every row saved in one go (see batchWrites() in data.ts)
+    const summary = await batchWrites(() => importRows(bookId, rows, mapping, strategy));
+    return { step: "done" as const, ...summary };
+  }
+
+  // Anything else is a bug (or someone poking at the URL)
+  throw new Response("Unknown intent", { status: 400 });
+}
+
+// ============================================================================
+// MAIN COMPONENT: Upload form, mapping screen and summary
+// ============================================================================
+export default function ImportCsv({ actionData }: Route.ComponentProps) {
+  // Show a "working" state while the file is being uploaded / imported
+  const navigation = useNavigation();
+  const busy = navigation.state === "submitting";
+
+  return (
+    <div id="import-page">
+      <h1>Import contacts from CSV</h1>
+
+      {/* STEP 1: UPLOAD (shown until a file has been read) */}
+      {actionData?.step === "map" ? null : (
+        <Form encType="multipart/form-data" method="post">
+          {/* multipart/form-data is required for file uploads */}
+          <p>
+            Choose a <code>.csv</code> file exported from a spreadsheet or
+            CRM. The first row must hold the column names.
+          </p>
+          <p className="import-controls">
+            <input
+              accept=".csv,text/csv"
+              aria-label="CSV file"
+              name="file"
+              required
+              type="file"
+            />
+            <button disabled={busy} name="intent" type="submit" value="upload">
+              {busy ? "Reading…" : "Next"}
+            </button>
+          </p>
+          {actionData?.step === "upload" ? (
+            <p className="field-error" role="alert">
+              {actionData.error}
+            </p>
+          ) : null}
+        </Form>
+      )}
+
+      {/* STEP 2: MAP COLUMNS */}
+      {actionData?.step === "map" ? (
+        <Form method="post">
+          {/* The file travels along so the import step can read every row */}
+          <input name="csv" type="hidden" value={actionData.csv} />
+          <input name="fileName" type="hidden" value={actionData.fileName} />
+
+          <p>
+            <strong>{actionData.fileName}</strong> has {actionData.rowCount}{" "}
+            row{actionData.rowCount === 1 ? "" : "s"}. Choose which contact
+            field each column holds.
+          </p>
+
+          <div className="import-mapping">
+            <table className="import-preview">
+              <thead>
+                <tr>
+                  {actionData.headers.map((header, index) => (
+                    <th key={index}>
+                      {header || <i>Column {index + 1}</i>}
+                      <br />
+                      <select
+                        aria-label={`Field for column "${header}"`}
+                        defaultValue={actionData.mapping[index]}
+                        name={`column-${index}`}
+                      >
+                        {CSV_TARGETS.map((target) => (
+                          <option key={target.value} value={target.value}>
+                            {target.label}
+                          </option>
+                        ))}
+                      </select>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {actionData.sample.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {actionData.headers.map((_, index) => (
+                      <td key={index}>{row[index]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* DUPLICATES: What to do with rows we already have */}
+          <fieldset className="import-duplicates">
+            <legend>Rows that match an existing contact (same name, email or Twitter)</legend>
+            {DUPLICATE_STRATEGIES.map((strategy) => (
+              <label key={strategy.value}>
+                <input
+                  defaultChecked={strategy.value === "skip"}
+                  name="duplicates"
+                  type="radio"
+                  value={strategy.value}
+                />{" "}
+                {strategy.label}
+              </label>
+            ))}
+          </fieldset>
+
+          {"error" in actionData ? (
+            <p className="field-error" role="alert">
+              {actionData.error}
+            </p>
+          ) : null}
+
+          <p className="import-controls">
+            <button disabled={busy} name="intent" type="submit" value="import">
+              {busy ? "Importing…" : `Import ${actionData.rowCount} rows`}
+            </button>
+            {/* Reloading the page clears actionData, taking us back to step 1 */}
+            <Link to=".">Choose a different file</Link>
+          </p>
+        </Form>
+      ) : null}
+
+      {/* STEP 3: SUMMARY */}
+      {actionData?.step === "done" ? (
+        <div>
+          <h2>Import finished</h2>
+          <ul>
+            <li>{actionData.created} created</li>
+            <li>{actionData.updated} updated</li>
+            <li>{actionData.skipped} skipped (already in the address book)</li>
+            <li>{actionData.failed.length} failed</li>
+          </ul>
+          {actionData.failed.length ? (
+            <ul className="import-errors">
+              {actionData.failed.map((failure) => (
+                <li key={failure.row}>
+                  Row {failure.row}: {failure.message}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// MAPPING STEP: Everything the mapping screen needs to draw itself
+function mappingStep(csv: string, fileName: string, mapping?: CsvTarget[]) {
+  const [headers, ...rows] = parseCsv(csv);
+  return {
+    step: "map" as const,
+    csv,
+    fileName,
+    headers,
+    sample: rows.slice(0, SAMPLE_ROWS),
+    rowCount: rows.length,
+    // Pre-select our best guess for each column (or keep the user's choices)
+    mapping: mapping ?? headers.map(guessTarget),
+  };
+}
+
+// CHECK ROWS: Returns a problem description, or null if the file is usable
+function checkRows(rows: string[][]): string | null {
+  if (rows.length === 0) return "That file is empty.";
+  if (rows.length === 1) return "That file only has a header row - there's nothing to import.";
+  return null;
+}
+
+// TO STRATEGY: Reads the duplicates radio button (defaulting to the safest choice)
+function toStrategy(value: FormDataEntryValue | null): DuplicateStrategy {
+  return DUPLICATE_STRATEGIES.find((s) => s.value === value)?.value ?? "skip";
+}
+
+// IMPORT ROWS: Validates and saves every row, counting what happened
+async function importRows(
+  bookId: string,
+  rows: string[][],
+  mapping: CsvTarget[],
+  strategy: DuplicateStrategy,
+) {
+  // Everything we compare new rows against - including rows created
+  // earlier in this same import, so a file with duplicates stays tidy
+  const existing: ContactRecord[] = await getContacts(bookId);
+
+  let created = 0;
+  let updated = 0;
+  let skipped = 0;
+  const failed: { row: number; message: string }[] = [];
+
+  for (const [index, row] of rows.entries()) {
+    // Spreadsheet row numbers: +1 for the header, +1 because they start at 1
+    const rowNumber = index + 2;
+    const contact = rowToContact(row, mapping);
+
+    // Same rules as the edit form
+    const result = validateContactValues(toFormValues(contact));
+    if (!result.success) {
+      failed.push({ row: rowNumber, message: Object.values(result.errors).join(" ") });
+      continue;
+    }
+    // Only keep the fields this row actually had, so blank cells never wipe
+    // out data when overwriting (favorite isn't a form field, so add it back)
+    const values = pickPresent(result.data, contact);
+
+    if (Object.keys(values).length === 0) {
+      failed.push({ row: rowNumber, message: "The row is empty in every mapped column." });
+      continue;
+    }
+
+    const match = strategy === "create" ? undefined : findMatch(values, existing);
+    if (match && strategy === "skip") {
+      skipped += 1;
+    } else if (match) {
+      await updateContact(bookId, match.id, values);
+      Object.assign(match, values); // Keep our in-memory copy up to date
+      updated += 1;
+    } else {
+      existing.push(await createContact(bookId, values));
+      created += 1;
+    }
+  }
+
+  return { created, updated, skipped, failed };
+}
+
+// PICK PRESENT: The validated values, but only for keys the row really had
+function pickPresent(
+  validated: ContactMutation,
+  original: ContactMutation,
+): ContactMutation {
+  const values: ContactMutation = {};
+  for (const key of Object.keys(original) as (keyof ContactMutation)[]) {
+    Object.assign(values, { [key]: validated[key] ?? original[key] });
+  }
+  return values;
+}
+
+// ============================================================================
+// HOW IMPORT-CSV.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /import/csv (inside the sidebar layout)
+// 2. The "Import CSV" link in sidebar.tsx navigates here
+// 3. Uploading calls action() with intent "upload"
+//    - parseCsv() (csv.ts) reads the file, guessTarget() (csv-import.ts)
+//      pre-fills each column's dropdown
+// 4. Importing calls action() with intent "import"
+//    - rowToContact() (csv-import.ts) builds each contact
+//    - validateContactValues() (contact-schema.ts) checks it
+//    - findMatch() (matching.ts) spots existing contacts
+//    - createContact()/updateContact() (data.ts) save it
+// 5. The sidebar loader re-runs after the action, so new contacts appear
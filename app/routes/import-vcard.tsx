@@ -0,0 +1,279 @@
+// ============================================================================
+// IMPORT-VCARD.TSX - Bring contacts in from a .vcf file
+// ============================================================================
+// Phones and other address books can export contacts as a .vcf file.
+// This page imports one in two steps:
+//   1. Upload: the user picks a file, the action parses it and sends back a preview
+//   2. Import: the user unticks anything they don't want and confirms
+// URL pattern: /import/vcard
+
+// Import React Router components
+import { Form, Link, data, useNavigation } from "react-router";
+
+// Import TypeScript types for this route
+import type { Route } from "./+types/import-vcard";
+
+// Import the vCard parser, validation rules and data functions
+import { parseVCards } from "../vcard";
+import type { ParsedVCard, VCardError } from "../vcard";
+import { toFormValues, validateContactValues } from "../contact-schema";
+import { requireAddressBook } from "../auth.server";
+import { batchWrites, createContact } from "../data";
+
+// Biggest file we accept (5 MB is thousands of contacts without photos)
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+// ============================================================================
+// ACTION FUNCTION: Handles both steps of the import
+// ============================================================================
+// The submit buttons send an "intent" field saying which step this is
+export async function action({ request }: Route.ActionArgs) {
+  const { bookId } = await requireAddressBook(request, "edit");
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  // STEP 1: PREVIEW - parse the uploaded file, but don't save anything yet
+  if (intent === "preview") {
+    const file = formData.get("file");
+
+    // Make sure we actually got a (reasonably sized) file
+    if (!(file instanceof File) || file.size === 0) {
+      return data(
+        { step: "upload" as const, error: "Choose a .vcf file to import." },
+        { status: 400 },
+      );
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return data(
+        { step: "upload" as const, error: "That file is too big (the limit is 5 MB)." },
+        { status: 413 },
+      );
+    }
+
+    // Parse every vCard in the file
+    const { contacts, errors } = parseVCards(await file.text());
+    return { step: "preview" as const, fileName: file.name, contacts, errors };
+  }
+
+  // STEP 2: IMPORT - save the contacts the user kept ticked
+  if (intent === "import") {
+    const created: { id: string; name: string }[] = [];
+    const failed: { name: string; message: string }[] = [];
+
+    // Each ticked checkbox carries one parsed contact as JSON
+    // (all saved in one go - see batchWrites() in data.ts)
+    await batchWrites(async () => {
+      for (const value of formData.getAll("contact")) {
+        try {
+          // The browser sent this back to us, so check it all over again
+          const result = validateContactValues(
+            toFormValues(JSON.parse(String(value))),
+          );
+          if (!result.success) {
+            failed.push({
+              name: displayName(result.values),
+              message: Object.values(result.errors).join(" "),
+            });
+            continue;
+          }
+          const contact = await createContact(bookId, result.data);
+          created.push({ id: contact.id, name: displayName(contact) });
+        } catch {
+          // JSON.parse() or toFormValues() choked on something malformed
+          failed.push({ name: "Unknown", message: "The contact data was malformed." });
+        }
+      }
+    });
+
+    return { step: "done" as const, created, failed };
+  }
+
+  // Anything else is a bug (or someone poking at the URL)
+  throw new Response("Unknown intent", { status: 400 });
+}
+
+// ============================================================================
+// MAIN COMPONENT: Upload form, preview and summary
+// ============================================================================
+export default function ImportVCard({ actionData }: Route.ComponentProps) {
+  // Show a "working" state while the file is being uploaded / imported
+  const navigation = useNavigation();
+  const busy = navigation.state === "submitting";
+
+  return (
+    <div id="import-page">
+      <h1>Import contacts from vCard</h1>
+
+      {/* STEP 1: UPLOAD (shown until a file has been previewed) */}
+      {actionData?.step === "preview" ? null : (
+        <Form encType="multipart/form-data" method="post">
+          {/* multipart/form-data is required for file uploads */}
+          <p>
+            Choose a <code>.vcf</code> file exported from your phone or
+            another address book. It can hold one contact or many.
+          </p>
+          <p className="import-controls">
+            <input
+              accept=".vcf,text/vcard,text/x-vcard"
+              aria-label="vCard file"
+              name="file"
+              required
+              type="file"
+            />
+            <button disabled={busy} name="intent" type="submit" value="preview">
+              {busy ? "Reading…" : "Preview"}
+            </button>
+          </p>
+          {actionData?.step === "upload" ? (
+            <p className="field-error" role="alert">
+              {actionData.error}
+            </p>
+          ) : null}
+        </Form>
+      )}
+
+      {/* STEP 2: PREVIEW - pick which parsed contacts to import */}
+      {actionData?.step === "preview" ? (
+        <Form method="post">
+          <p>
+            Found {actionData.contacts.length} contact
+            {actionData.contacts.length === 1 ? "" : "s"} in{" "}
+            <strong>{actionData.fileName}</strong>. Untick any you don't want.
+          </p>
+
+          {actionData.contacts.length ? (
+            <PreviewTable contacts={actionData.contacts} />
+          ) : null}
+
+          <ParseErrors errors={actionData.errors} />
+
+          <p className="import-controls">
+            <button
+              disabled={busy || actionData.contacts.length === 0}
+              name="intent"
+              type="submit"
+              value="import"
+            >
+              {busy ? "Importing…" : "Import selected"}
+            </button>{" "}
+            {/* Reloading the page clears actionData, taking us back to step 1 */}
+            <Link to=".">Choose a different file</Link>
+          </p>
+        </Form>
+      ) : null}
+
+      {/* STEP 3: SUMMARY - what happened */}
+      {actionData?.step === "done" ? (
+        <div>
+          <h2>
+            Imported {actionData.created.length} contact
+            {actionData.created.length === 1 ? "" : "s"}
+          </h2>
+          <ul>
+            {actionData.created.map((contact) => (
+              <li key={contact.id}>
+                <Link to={`/contacts/${contact.id}`}>{contact.name}</Link>
+              </li>
+            ))}
+          </ul>
+          {actionData.failed.length ? (
+            <>
+              <h2>Not imported</h2>
+              <ul>
+                {actionData.failed.map((failure, index) => (
+                  <li key={index}>
+                    {failure.name}: {failure.message}
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+// ============================================================================
+// PREVIEW TABLE COMPONENT: One row per parsed contact, each with a checkbox
+// ============================================================================
+function PreviewTable({ contacts }: { contacts: ParsedVCard[] }) {
+  return (
+    <table className="import-preview">
+      <thead>
+        <tr>
+          <th>Import</th>
+          <th>Name</th>
+          <th>Phone</th>
+          <th>Email</th>
+          <th>Twitter</th>
+        </tr>
+      </thead>
+      <tbody>
+        {contacts.map(({ index, contact }) => (
+          <tr key={index}>
+            <td>
+              {/* The whole contact rides along as the checkbox value, so the */}
+              {/* import step doesn't need the file again */}
+              <input
+                aria-label={`Import ${displayName(contact)}`}
+                defaultChecked
+                name="contact"
+                type="checkbox"
+                value={JSON.stringify(contact)}
+              />
+            </td>
+            <td>{displayName(contact)}</td>
+            <td>{contact.phones?.map((phone) => phone.number).join(", ")}</td>
+            <td>{contact.emails?.map((email) => email.address).join(", ")}</td>
+            <td>{contact.twitter}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// ============================================================================
+// PARSE ERRORS COMPONENT: Lists the vCards that couldn't be read
+// ============================================================================
+function ParseErrors({ errors }: { errors: VCardError[] }) {
+  if (errors.length === 0) return null;
+
+  return (
+    <>
+      <h2>Skipped {errors.length} entr{errors.length === 1 ? "y" : "ies"}</h2>
+      <ul className="import-errors">
+        {errors.map((error, index) => (
+          <li key={index}>
+            {error.index ? `vCard #${error.index}` : "File"} (line {error.line})
+            {error.name ? `, ${error.name}` : ""}: {error.message}
+          </li>
+        ))}
+      </ul>
+    </>
+  );
+}
+
+// ============================================================================
+// DISPLAY NAME: "Ryan Florence", or a fallback for nameless contacts
+// ============================================================================
+function displayName(contact: {
+  first?: string;
+  last?: string;
+  emails?: { address: string }[];
+}): string {
+  const name = [contact.first, contact.last].filter(Boolean).join(" ");
+  return name || contact.emails?.[0]?.address || "No Name";
+}
+
+// ============================================================================
+// HOW IMPORT-VCARD.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /import/vcard (inside the sidebar layout)
+// 2. The "Import vCard" link in sidebar.tsx navigates here
+// 3. Uploading a file calls action() with intent "preview"
+//    - parseVCards() from vcard.ts turns the file into contacts + errors
+// 4. Confirming calls action() with intent "import"
+//    - Each contact is re-validated (contact-schema.ts) and saved (data.ts)
+// 5. The sidebar loader re-runs after the action, so new contacts appear
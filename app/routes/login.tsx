@@ -0,0 +1,115 @@
+// ============================================================================
+// LOGIN.TSX - The login page
+// ============================================================================
+// Everyone has to log in before they see any contacts - the sidebar sends
+// anyone who isn't logged in here (with "redirectTo" set to the page they
+// wanted, so they land back on it afterwards).
+// URL pattern: /login?redirectTo=/contacts/123
+
+// Import React Router components
+import { Form, Link, data, redirect, useNavigation, useSearchParams } from "react-router";
+
+// Import TypeScript types and the login helpers
+import type { Route } from "./+types/login";
+import { createUserSession, getOptionalUserId } from "../auth.server";
+import { verifyLogin } from "../data";
+
+// ============================================================================
+// LOADER FUNCTION: Already logged in? Nothing to do here
+// ============================================================================
+export async function loader({ request }: Route.LoaderArgs) {
+  if (await getOptionalUserId(request)) {
+    return redirect("/");
+  }
+  return null;
+}
+
+// ============================================================================
+// ACTION FUNCTION: Checks the email and password
+// ============================================================================
+export async function action({ request }: Route.ActionArgs) {
+  const formData = await request.formData();
+  const email = String(formData.get("email") ?? "");
+  const password = String(formData.get("password") ?? "");
+
+  const user = await verifyLogin(email, password);
+  if (!user) {
+    // The same message whether the email or the password was wrong, so the
+    // form doesn't reveal which emails have accounts
+    return data(
+      { error: "That email and password don't match an account.", email },
+      { status: 400 },
+    );
+  }
+
+  return createUserSession(request, user.id, String(formData.get("redirectTo") ?? "/"));
+}
+
+// ============================================================================
+// MAIN COMPONENT: The login form
+// ============================================================================
+export default function Login({ actionData }: Route.ComponentProps) {
+  const navigation = useNavigation();
+  const [searchParams] = useSearchParams();
+  const redirectTo = searchParams.get("redirectTo") ?? "/";
+  const loggingIn = navigation.state === "submitting";
+
+  return (
+    <main className="auth-page">
+      <h1>Log in</h1>
+
+      <Form method="post">
+        {/* Where to go afterwards (checked by the server before it's used) */}
+        <input name="redirectTo" type="hidden" value={redirectTo} />
+
+        <label>
+          <span>Email</span>
+          <input
+            autoComplete="email"
+            autoFocus
+            defaultValue={actionData?.email}
+            name="email"
+            required
+            type="email"
+          />
+        </label>
+        <label>
+          <span>Password</span>
+          <input
+            autoComplete="current-password"
+            name="password"
+            required
+            type="password"
+          />
+        </label>
+
+        {actionData?.error ? (
+          <p className="field-error" role="alert">
+            {actionData.error}
+          </p>
+        ) : null}
+
+        <button disabled={loggingIn} type="submit">
+          {loggingIn ? "Logging in..." : "Log in"}
+        </button>
+      </Form>
+
+      <p>
+        No account yet?{" "}
+        <Link to={{ pathname: "/register", search: searchParams.toString() }}>
+          Sign up
+        </Link>
+      </p>
+    </main>
+  );
+}
+
+// ============================================================================
+// HOW LOGIN.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /login (outside the sidebar layout)
+// 2. auth.server.ts redirects here when someone who isn't logged in asks
+//    for a page
+// 3. The action checks the password with verifyLogin() (data.ts), then
+//    createUserSession() (auth.server.ts) logs the user in
+// 4. The "Sign up" link goes to register.tsx
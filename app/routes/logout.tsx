@@ -0,0 +1,33 @@
+// ============================================================================
+// LOGOUT.TSX - Logs the user out
+// ============================================================================
+// This is an "action-only" route - it has no UI component. The "Log out"
+// button in the sidebar posts here.
+// URL pattern: /logout
+//
+// It's a POST rather than a link on purpose: a GET that logs people out
+// could be triggered by any page that includes an <img src="/logout">.
+
+// Import TypeScript types for this route
+import type { Route } from "./+types/logout";
+
+// Import the logout helper
+import { logout } from "../auth.server";
+
+// ============================================================================
+// ACTION FUNCTION: Clears the session and goes to the login page
+// ============================================================================
+export async function action({ request }: Route.ActionArgs) {
+  return logout(request);
+}
+
+// ============================================================================
+// HOW LOGOUT.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /logout (outside the sidebar layout)
+// 2. The "Log out" button in sidebar.tsx posts here
+// 3. logout() (auth.server.ts) destroys the session and redirects to
+//    login.tsx
+//
+// NOTE: This file has NO default export (no component)
+//       It's an "action-only" route
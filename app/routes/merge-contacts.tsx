@@ -0,0 +1,376 @@
+// ============================================================================
+// MERGE-CONTACTS.TSX - Combine two copies of the same person into one
+// ============================================================================
+// Shows two contacts side by side. For every field the user picks which
+// value wins (for lists like phone numbers they can also keep both).
+// Saving writes the merged contact over the older of the two and moves the
+// newer one to the trash - so links to the original contact keep working.
+// URL pattern: /duplicates/:firstId/:secondId
+
+// Import React Router components
+import { Form, Link, data, redirect, useNavigation } from "react-router";
+
+// Import TypeScript types and data functions
+import type { Route } from "./+types/merge-contacts";
+import type { ContactFormField } from "../contact-schema";
+import { cleanTags, toFormValues, validateContactValues } from "../contact-schema";
+import type { ContactMutation, ContactRecord, PostalAddress } from "../data";
+import { requireAddressBook } from "../auth.server";
+import {
+  batchWrites,
+  deleteContact,
+  getContact,
+  getContactNames,
+  moveInteractions,
+  updateContact,
+} from "../data";
+import { describeDate, formatDate } from "../dates";
+import { normalizeText } from "../matching";
+import { relationshipLabel } from "../relationships";
+
+// Which record a field's value comes from ("both" is only offered for lists)
+type Choice = "kept" | "removed" | "both";
+
+// Fields holding one value - the user picks one side
+const SINGLE_FIELDS: { name: ContactFormField | "favorite"; label: string }[] = [
+  { name: "first", label: "First name" },
+  { name: "last", label: "Last name" },
+  { name: "company", label: "Company" },
+  { name: "title", label: "Job title" },
+  { name: "twitter", label: "Twitter" },
+  { name: "avatar", label: "Avatar" },
+  { name: "notes", label: "Notes" },
+  { name: "favorite", label: "Favorite" },
+];
+
+// Fields holding a list - the user picks one side, or both combined
+const LIST_FIELDS: {
+  name: "phones" | "emails" | "addresses" | "tags" | "dates" | "related";
+  label: string;
+}[] = [
+  { name: "phones", label: "Phones" },
+  { name: "emails", label: "Emails" },
+  { name: "addresses", label: "Addresses" },
+  { name: "tags", label: "Tags" },
+  { name: "dates", label: "Dates" },
+  { name: "related", label: "Related people" },
+];
+
+// ============================================================================
+// LOADER FUNCTION: Fetches both contacts
+// ============================================================================
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const { bookId } = await requireAddressBook(request, "edit");
+  const { kept, removed } = await loadPair(bookId, params.firstId, params.secondId);
+
+  // The related people's names (contacts only keep their IDs)
+  const names = await getContactNames(
+    bookId,
+    [...(kept.related ?? []), ...(removed.related ?? [])].map(
+      (relationship) => relationship.contactId,
+    ),
+  );
+  return { kept, removed, names };
+}
+
+// ============================================================================
+// ACTION FUNCTION: Builds the merged contact, saves it and trashes the other
+// ============================================================================
+export async function action({ params, request }: Route.ActionArgs) {
+  const { bookId } = await requireAddressBook(request, "edit");
+  const { kept, removed } = await loadPair(bookId, params.firstId, params.secondId);
+  const formData = await request.formData();
+
+  // Reads one field's radio button (anything unexpected means "kept")
+  const choiceFor = (name: string): Choice => {
+    const value = formData.get(name);
+    return value === "removed" || value === "both" ? value : "kept";
+  };
+  const pick = (name: string) => (choiceFor(name) === "removed" ? removed : kept);
+
+  const merged: ContactMutation = {
+    first: pick("first").first,
+    last: pick("last").last,
+    company: pick("company").company,
+    title: pick("title").title,
+    twitter: pick("twitter").twitter,
+    avatar: pick("avatar").avatar,
+    notes: pick("notes").notes,
+    favorite: pick("favorite").favorite,
+    // "Both" keeps every entry once: the same number written differently,
+    // or the same email in different case, only counts once
+    phones: mergeList(choiceFor("phones"), kept.phones, removed.phones, (phone) =>
+      phone.number.replace(/[^\d+]/g, ""),
+    ),
+    emails: mergeList(choiceFor("emails"), kept.emails, removed.emails, (email) =>
+      email.address.toLowerCase(),
+    ),
+    addresses: mergeList(choiceFor("addresses"), kept.addresses, removed.addresses, (address) =>
+      normalizeText(formatAddress(address)),
+    ),
+    tags: cleanTags(
+      mergeList(choiceFor("tags"), kept.tags, removed.tags, (tag) => tag.toLowerCase()),
+    ),
+    dates: mergeList(choiceFor("dates"), kept.dates, removed.dates, (entry) =>
+      [entry.label, entry.date, normalizeText(entry.title ?? "")].join(" "),
+    ),
+    // Being related to each other stops making sense once they're one
+    // person - updateContact() drops that
+    related: mergeList(choiceFor("related"), kept.related, removed.related, (relationship) =>
+      `${relationship.contactId} ${relationship.type}`,
+    ),
+  };
+
+  // Same rules as the edit form - combining lists can take them over the limits
+  const result = validateContactValues(toFormValues(merged));
+  if (!result.success) {
+    return data({ errors: Object.values(result.errors) }, { status: 400 });
+  }
+
+  // Saved in one go (see batchWrites() in data.ts)
+  await batchWrites(async () => {
+    // favorite isn't a form field, so add it back after validation
+    await updateContact(bookId, kept.id, { ...result.data, favorite: merged.favorite });
+    // The removed contact's calls, meetings... join the kept one's timeline
+    await moveInteractions(bookId, removed.id, kept.id);
+    await deleteContact(bookId, removed.id);
+  });
+
+  return redirect(`/contacts/${kept.id}`);
+}
+
+// ============================================================================
+// MAIN COMPONENT: The side-by-side comparison
+// ============================================================================
+export default function MergeContacts({
+  actionData,
+  loaderData,
+}: Route.ComponentProps) {
+  const { kept, removed, names } = loaderData;
+  const navigation = useNavigation();
+  const busy = navigation.state === "submitting";
+
+  return (
+    <div id="merge-page">
+      <h1>Merge contacts</h1>
+      <p>
+        Choose the value to keep for each field. The merged contact replaces{" "}
+        <strong>{displayName(kept)}</strong> (created first) and{" "}
+        <strong>{displayName(removed)}</strong> is moved to the trash.
+      </p>
+
+      <Form method="post">
+        <table className="merge-table">
+          <thead>
+            <tr>
+              <th scope="col">Field</th>
+              <th scope="col">{displayName(kept)}</th>
+              <th scope="col">{displayName(removed)}</th>
+              <th scope="col">Both</th>
+            </tr>
+          </thead>
+          <tbody>
+            {SINGLE_FIELDS.map(({ name, label }) => {
+              const keptValue = describeSingle(kept, name);
+              const removedValue = describeSingle(removed, name);
+              // Nothing to choose between two blanks
+              if (!keptValue && !removedValue) return null;
+              return (
+                <tr key={name}>
+                  <th scope="row">{label}</th>
+                  <ChoiceCell
+                    // Prefer the kept contact's value, unless it's blank
+                    defaultChecked={Boolean(keptValue) || !removedValue}
+                    name={name}
+                    value="kept"
+                  >
+                    {keptValue || <i>Empty</i>}
+                  </ChoiceCell>
+                  <ChoiceCell
+                    defaultChecked={!keptValue && Boolean(removedValue)}
+                    name={name}
+                    value="removed"
+                  >
+                    {removedValue || <i>Empty</i>}
+                  </ChoiceCell>
+                  <td />
+                </tr>
+              );
+            })}
+            {LIST_FIELDS.map(({ name, label }) => {
+              const keptItems = describeList(kept, name, names);
+              const removedItems = describeList(removed, name, names);
+              if (keptItems.length === 0 && removedItems.length === 0) return null;
+              return (
+                <tr key={name}>
+                  <th scope="row">{label}</th>
+                  <ChoiceCell name={name} value="kept">
+                    <ItemList items={keptItems} />
+                  </ChoiceCell>
+                  <ChoiceCell name={name} value="removed">
+                    <ItemList items={removedItems} />
+                  </ChoiceCell>
+                  {/* Keeping both is the safest default - nothing gets lost */}
+                  <ChoiceCell defaultChecked name={name} value="both">
+                    Keep both
+                  </ChoiceCell>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {actionData?.errors.map((error) => (
+          <p className="field-error" key={error} role="alert">
+            {error}
+          </p>
+        ))}
+
+        <p className="import-controls">
+          <button disabled={busy} type="submit">
+            {busy ? "Merging…" : "Merge into one contact"}
+          </button>
+          <Link to="/duplicates">Cancel</Link>
+        </p>
+      </Form>
+    </div>
+  );
+}
+
+// ============================================================================
+// CHOICE CELL COMPONENT: One radio button with the value it stands for
+// ============================================================================
+function ChoiceCell({
+  children,
+  defaultChecked,
+  name,
+  value,
+}: {
+  children: React.ReactNode;
+  defaultChecked?: boolean;
+  name: string;
+  value: Choice;
+}) {
+  return (
+    <td>
+      <label>
+        <input defaultChecked={defaultChecked} name={name} type="radio" value={value} />
+        <span>{children}</span>
+      </label>
+    </td>
+  );
+}
+
+// ITEM LIST COMPONENT: A list field's entries, or "None"
+function ItemList({ items }: { items: string[] }) {
+  if (items.length === 0) return <i>None</i>;
+  return (
+    <ul>
+      {items.map((item, index) => (
+        <li key={index}>{item}</li>
+      ))}
+    </ul>
+  );
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// LOAD PAIR: Both contacts, with the older one first (that's the one we keep)
+async function loadPair(bookId: string, firstId: string, secondId: string) {
+  // Merging a contact with itself would just delete it
+  if (firstId === secondId) {
+    throw new Response("Bad Request", { status: 400 });
+  }
+
+  const [first, second] = await Promise.all([
+    getContact(bookId, firstId),
+    getContact(bookId, secondId),
+  ]);
+  if (!first || !second) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  return first.createdAt <= second.createdAt
+    ? { kept: first, removed: second }
+    : { kept: second, removed: first };
+}
+
+// MERGE LIST: One side's list, or both combined without repeats
+function mergeList<Item>(
+  choice: Choice,
+  keptItems: Item[] = [],
+  removedItems: Item[] = [],
+  keyOf: (item: Item) => string, // Items with the same key count as the same
+): Item[] {
+  if (choice === "kept") return keptItems;
+  if (choice === "removed") return removedItems;
+
+  const seen = new Set(keptItems.map(keyOf));
+  return [...keptItems, ...removedItems.filter((item) => !seen.has(keyOf(item)))];
+}
+
+// DESCRIBE SINGLE: A one-value field as text ("" when it's blank)
+function describeSingle(
+  contact: ContactRecord,
+  name: (typeof SINGLE_FIELDS)[number]["name"],
+): string {
+  if (name === "favorite") return contact.favorite ? "★ Favorite" : "";
+  return contact[name] ?? "";
+}
+
+// DESCRIBE LIST: A list field as one line of text per entry
+// (names says who related people are)
+function describeList(
+  contact: ContactRecord,
+  name: (typeof LIST_FIELDS)[number]["name"],
+  names: Record<string, string>,
+): string[] {
+  switch (name) {
+    case "phones":
+      return (contact.phones ?? []).map((phone) => `${phone.label}: ${phone.number}`);
+    case "emails":
+      return (contact.emails ?? []).map((email) => `${email.label}: ${email.address}`);
+    case "addresses":
+      return (contact.addresses ?? []).map(
+        (address) => `${address.label}: ${formatAddress(address)}`,
+      );
+    case "tags":
+      return contact.tags ?? [];
+    case "dates":
+      return (contact.dates ?? []).map(
+        (entry) => `${describeDate(entry)}: ${formatDate(entry.date)}`,
+      );
+    case "related":
+      return (contact.related ?? []).map(
+        (relationship) =>
+          `${relationshipLabel(relationship.type)}: ${names[relationship.contactId] ?? "Unknown contact"}`,
+      );
+  }
+}
+
+// FORMAT ADDRESS: Every part of an address on one line
+function formatAddress(address: PostalAddress): string {
+  return [address.street, address.city, address.region, address.postalCode, address.country]
+    .filter(Boolean)
+    .join(", ");
+}
+
+// DISPLAY NAME: "Ryan Florence", or "No Name" for blank contacts
+function displayName(contact: ContactRecord): string {
+  return [contact.first, contact.last].filter(Boolean).join(" ") || "No Name";
+}
+
+// ============================================================================
+// HOW MERGE-CONTACTS.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /duplicates/:firstId/:secondId
+// 2. "Compare and merge" on duplicates.tsx links here
+// 3. The loader calls getContact() (data.ts) for both contacts
+// 4. The action checks the merged contact with validateContactValues()
+//    (contact-schema.ts), then calls updateContact() and deleteContact()
+// 5. After merging, the user lands on the merged contact (contact.tsx)
+// 6. getContactNames() (data.ts) names the related people in the comparison
+// 7. moveInteractions() (data.ts) moves the removed contact's timeline onto
+//    the kept one
@@ -0,0 +1,163 @@
+// ============================================================================
+// ORGANIZATION.TSX - One organization and the people who work there
+// ============================================================================
+// This page shows when you pick an organization - in the sidebar's menu, on
+// the organizations page, or by clicking a contact's company
+// URL pattern: /organizations/:orgId (e.g., /organizations/k3j9x0a)
+// While it's open, the sidebar's contact list is filtered to the same people
+
+// Import React Router components
+import { Form, Link, redirect } from "react-router";
+
+// Import TypeScript types and data functions
+import type { Route } from "./+types/organization";
+import { requireAddressBook } from "../auth.server";
+import { avatarImage } from "../avatars";
+import { deleteOrganization, getContacts, getOrganization } from "../data";
+
+// ============================================================================
+// LOADER FUNCTION: Fetches the organization and its people
+// ============================================================================
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const { bookId, canEdit } = await requireAddressBook(request);
+  const organization = await getOrganization(bookId, params.orgId);
+  if (!organization) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  const contacts = await getContacts(bookId, null, { organizationId: organization.id });
+
+  // Only what the list shows - not every contact's whole record
+  return {
+    canEdit,
+    organization,
+    people: contacts.map((contact) => ({
+      id: contact.id,
+      name: [contact.first, contact.last].filter(Boolean).join(" "),
+      title: contact.title,
+    })),
+  };
+}
+
+// ============================================================================
+// ACTION FUNCTION: Deletes the organization
+// ============================================================================
+export async function action({ params, request }: Route.ActionArgs) {
+  const { bookId } = await requireAddressBook(request, "edit");
+  const formData = await request.formData();
+
+  if (formData.get("intent") !== "delete") {
+    throw new Response("Unknown intent", { status: 400 });
+  }
+  if (!(await getOrganization(bookId, params.orgId))) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  // The people who worked there lose their company (but not their title)
+  await deleteOrganization(bookId, params.orgId);
+  return redirect("/organizations");
+}
+
+// ============================================================================
+// MAIN COMPONENT: The organization's details, then its people
+// ============================================================================
+export default function Organization({ loaderData }: Route.ComponentProps) {
+  const { canEdit, organization, people } = loaderData;
+
+  return (
+    <div id="organization">
+      {/* LOGO: Or the organization's initial, if there isn't one */}
+      <div>
+        <img
+          alt={`${organization.name} logo`}
+          key={organization.logo}
+          {...avatarImage({ first: organization.name, avatar: organization.logo }, 192)}
+        />
+      </div>
+
+      <div>
+        <h1>{organization.name}</h1>
+
+        {/* WEBSITE: The domain, as a link */}
+        {organization.domain ? (
+          <p>
+            <a href={`https://${organization.domain}`} rel="noreferrer" target="_blank">
+              {organization.domain}
+            </a>
+          </p>
+        ) : null}
+
+        {organization.address ? (
+          <address className="organization-address">{organization.address}</address>
+        ) : null}
+
+        {organization.notes ? (
+          <p className="organization-notes">{organization.notes}</p>
+        ) : null}
+
+        {/* EDIT AND DELETE: Only for those who can change the address book */}
+        {canEdit ? (
+          <div>
+            <Form action="edit">
+              <button type="submit">Edit</button>
+            </Form>
+            <Form method="post" onSubmit={confirmDelete}>
+              <button name="intent" type="submit" value="delete">
+                Delete
+              </button>
+            </Form>
+          </div>
+        ) : null}
+
+        {/* PEOPLE: Everyone whose company is this organization */}
+        <section aria-labelledby="organization-people-title" className="organization-people">
+          <h2 id="organization-people-title">
+            {people.length} {people.length === 1 ? "person" : "people"}
+          </h2>
+          {people.length ? (
+            <ul>
+              {people.map((person) => (
+                <li key={person.id}>
+                  <Link to={`/contacts/${person.id}`}>
+                    {person.name || <i>No Name</i>}
+                  </Link>
+                  {person.title ? <span>{person.title}</span> : null}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p>
+              <i>Nobody works here yet. Set a contact's company to {organization.name} to add them.</i>
+            </p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// CONFIRM DELETE: Deleting can't be undone, so double-check first
+function confirmDelete(event: React.FormEvent<HTMLFormElement>) {
+  if (!confirm("Delete this organization? The people here keep their job title, but lose their company.")) {
+    event.preventDefault();
+  }
+}
+
+// ============================================================================
+// HOW ORGANIZATION.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /organizations/:orgId (inside the
+//    sidebar layout)
+// 2. organizations.tsx, the sidebar's organization menu and the company on
+//    contact.tsx link here
+// 3. The loader calls getOrganization() and getContacts() from data.ts;
+//    sidebar.tsx's loader sees params.orgId too, and filters its list the
+//    same way
+// 4. "Edit" navigates to edit-organization.tsx; "Delete" calls action() →
+//    deleteOrganization() (data.ts)
+// 5. avatarImage() (avatars.ts) shows the logo - or a placeholder with the
+//    organization's initial
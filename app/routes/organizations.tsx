@@ -0,0 +1,127 @@
+// ============================================================================
+// ORGANIZATIONS.TSX - Every organization in the address book
+// ============================================================================
+// Organizations are the companies (schools, clubs...) people work at. Most
+// are made without visiting this page at all: typing a new company on a
+// contact's edit form makes one. This page lists them, with how many people
+// work at each, and can make one before anyone works there.
+// URL pattern: /organizations
+
+// Import React Router components
+import { Form, Link, data, useNavigation } from "react-router";
+
+// Import TypeScript types and data functions
+import type { Route } from "./+types/organizations";
+import { requireAddressBook } from "../auth.server";
+import { COMPANY_MAX_LENGTH, validateOrganization } from "../contact-schema";
+import { createOrganization, getOrganizations } from "../data";
+
+// ============================================================================
+// LOADER FUNCTION: Every organization, by name
+// ============================================================================
+export async function loader({ request }: Route.LoaderArgs) {
+  const { bookId, canEdit } = await requireAddressBook(request);
+  const organizations = await getOrganizations(bookId);
+
+  // canEdit: viewers of a shared address book can't make organizations
+  return {
+    canEdit,
+    organizations: organizations.map(({ id, name, domain, count }) => ({
+      id,
+      name,
+      domain,
+      count,
+    })),
+  };
+}
+
+// ============================================================================
+// ACTION FUNCTION: Makes a new organization
+// ============================================================================
+export async function action({ request }: Route.ActionArgs) {
+  const { bookId } = await requireAddressBook(request, "edit");
+  const formData = await request.formData();
+
+  // The create form only has a name, so that's the only thing to go wrong
+  const result = validateOrganization(formData);
+  if (!result.success) {
+    return data({ error: result.errors.name ?? null }, { status: 400 });
+  }
+
+  const { name } = result.data;
+  if (!(await createOrganization(bookId, { name }))) {
+    return data({ error: `There's already an organization called ${name}.` }, { status: 400 });
+  }
+  return { error: null };
+}
+
+// ============================================================================
+// MAIN COMPONENT: The list, and the form to add to it
+// ============================================================================
+export default function Organizations({ actionData, loaderData }: Route.ComponentProps) {
+  const { canEdit, organizations } = loaderData;
+  const navigation = useNavigation();
+  const creating = navigation.state === "submitting";
+
+  return (
+    <div id="organizations-page">
+      <h1>Organizations</h1>
+      <p>
+        Everyone with a company on their contact page works at one of these.
+        Renaming an organization changes the company of everyone there.
+      </p>
+
+      {/* CREATE: Not for viewers */}
+      {canEdit ? (
+        <>
+          {/* key resets the form after each organization is made */}
+          <Form className="organization-create" key={organizations.length} method="post">
+            <input
+              aria-label="Organization name"
+              maxLength={COMPANY_MAX_LENGTH}
+              name="name"
+              placeholder="New organization, e.g. Remix"
+              required
+            />
+            <button disabled={creating} type="submit">
+              {creating ? "Creating..." : "Create"}
+            </button>
+          </Form>
+          {actionData?.error ? (
+            <p className="field-error" role="alert">
+              {actionData.error}
+            </p>
+          ) : null}
+        </>
+      ) : null}
+
+      {organizations.length === 0 ? (
+        <p>
+          <i>No organizations yet. Add a company to a contact to make one.</i>
+        </p>
+      ) : (
+        <ul className="organization-list">
+          {organizations.map((organization) => (
+            <li key={organization.id}>
+              <Link to={`/organizations/${organization.id}`}>{organization.name}</Link>
+              <small>
+                {organization.domain ? `${organization.domain} · ` : ""}
+                {organization.count} {organization.count === 1 ? "person" : "people"}
+              </small>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// HOW ORGANIZATIONS.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /organizations (inside the sidebar layout)
+// 2. The "Organizations" link under the sidebar's contact list navigates here
+// 3. The loader calls getOrganizations() and the action createOrganization()
+//    from data.ts, after checking the name with validateOrganization()
+//    (contact-schema.ts)
+// 4. Each organization links to its own page (organization.tsx)
@@ -0,0 +1,169 @@
+// ============================================================================
+// REGISTER.TSX - The sign-up page
+// ============================================================================
+// Makes a new account, then logs straight into it. Each account starts
+// with an empty personal address book - except the very first one, which
+// takes over the contacts that were there before accounts existed (see
+// createUser() in data.ts).
+// URL pattern: /register
+
+// Import React Router components
+import { Form, Link, data, redirect, useNavigation, useSearchParams } from "react-router";
+
+// Import TypeScript types and the login helpers
+import type { Route } from "./+types/register";
+import { createUserSession, getOptionalUserId } from "../auth.server";
+import { createUser } from "../data";
+
+// Passwords shorter than this are too easy to guess
+const PASSWORD_MIN_LENGTH = 8;
+
+// ...and anything longer than this is almost certainly not a real password
+// (scrypt has to read every byte of it)
+const PASSWORD_MAX_LENGTH = 200;
+
+// Errors for each field of the form
+type RegisterErrors = Partial<Record<"email" | "password" | "confirm", string>>;
+
+// ============================================================================
+// LOADER FUNCTION: Already logged in? Nothing to do here
+// ============================================================================
+export async function loader({ request }: Route.LoaderArgs) {
+  if (await getOptionalUserId(request)) {
+    return redirect("/");
+  }
+  return null;
+}
+
+// ============================================================================
+// ACTION FUNCTION: Checks the form and creates the account
+// ============================================================================
+export async function action({ request }: Route.ActionArgs) {
+  const formData = await request.formData();
+  const email = String(formData.get("email") ?? "").trim();
+  const password = String(formData.get("password") ?? "");
+  const confirm = String(formData.get("confirm") ?? "");
+
+  const errors: RegisterErrors = {};
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    errors.email = "Enter an email address, like you@example.com.";
+  }
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    errors.password = `Passwords must be at least ${PASSWORD_MIN_LENGTH} characters.`;
+  } else if (password.length > PASSWORD_MAX_LENGTH) {
+    errors.password = `Passwords must be at most ${PASSWORD_MAX_LENGTH} characters.`;
+  } else if (password !== confirm) {
+    errors.confirm = "The passwords don't match.";
+  }
+  if (Object.keys(errors).length > 0) {
+    return data({ email, errors }, { status: 400 });
+  }
+
+  const user = await createUser(email, password);
+  if (!user) {
+    return data(
+      { email, errors: { email: "There's already an account with that email." } as RegisterErrors },
+      { status: 400 },
+    );
+  }
+
+  return createUserSession(request, user.id, String(formData.get("redirectTo") ?? "/"));
+}
+
+// ============================================================================
+// MAIN COMPONENT: The sign-up form
+// ============================================================================
+export default function Register({ actionData }: Route.ComponentProps) {
+  const navigation = useNavigation();
+  const [searchParams] = useSearchParams();
+  const redirectTo = searchParams.get("redirectTo") ?? "/";
+  const signingUp = navigation.state === "submitting";
+  const errors = actionData?.errors;
+
+  return (
+    <main className="auth-page">
+      <h1>Sign up</h1>
+
+      <Form method="post">
+        {/* Where to go afterwards (checked by the server before it's used) */}
+        <input name="redirectTo" type="hidden" value={redirectTo} />
+
+        <label>
+          <span>Email</span>
+          <input
+            aria-describedby={errors?.email ? "email-error" : undefined}
+            aria-invalid={errors?.email ? true : undefined}
+            autoComplete="email"
+            autoFocus
+            defaultValue={actionData?.email}
+            name="email"
+            required
+            type="email"
+          />
+        </label>
+        <FieldError id="email-error" message={errors?.email} />
+
+        <label>
+          <span>Password</span>
+          <input
+            aria-describedby={errors?.password ? "password-error" : undefined}
+            aria-invalid={errors?.password ? true : undefined}
+            autoComplete="new-password"
+            maxLength={PASSWORD_MAX_LENGTH}
+            minLength={PASSWORD_MIN_LENGTH}
+            name="password"
+            required
+            type="password"
+          />
+        </label>
+        <FieldError id="password-error" message={errors?.password} />
+
+        <label>
+          <span>Password again</span>
+          <input
+            aria-describedby={errors?.confirm ? "confirm-error" : undefined}
+            aria-invalid={errors?.confirm ? true : undefined}
+            autoComplete="new-password"
+            name="confirm"
+            required
+            type="password"
+          />
+        </label>
+        <FieldError id="confirm-error" message={errors?.confirm} />
+
+        <button disabled={signingUp} type="submit">
+          {signingUp ? "Signing up..." : "Sign up"}
+        </button>
+      </Form>
+
+      <p>
+        Already have an account?{" "}
+        <Link to={{ pathname: "/login", search: searchParams.toString() }}>
+          Log in
+        </Link>
+      </p>
+    </main>
+  );
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// FIELD ERROR: The message under a field (nothing when it's fine)
+function FieldError({ id, message }: { id: string; message?: string }) {
+  if (!message) return null;
+  return (
+    <p className="field-error" id={id} role="alert">
+      {message}
+    </p>
+  );
+}
+
+// ============================================================================
+// HOW REGISTER.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /register (outside the sidebar layout)
+// 2. The "Sign up" link on login.tsx comes here
+// 3. The action calls createUser() (data.ts), then createUserSession()
+//    (auth.server.ts) logs the new user straight in
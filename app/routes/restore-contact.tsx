@@ -0,0 +1,45 @@
+// ============================================================================
+// RESTORE-CONTACT.TSX - Takes a contact back out of the trash
+// ============================================================================
+// Another "action-only" route, like destroy-contact.tsx
+// Used by the "Undo" button after deleting, and by "Restore" on the trash page
+// URL pattern: /contacts/:contactId/restore
+
+// Import redirect function from React Router
+import { redirect } from "react-router";
+
+// Import TypeScript types
+import type { Route } from "./+types/restore-contact";
+
+// Import the data functions
+import { requireAddressBook } from "../auth.server";
+import { getDeletedContacts, restoreContact } from "../data";
+
+// ============================================================================
+// ACTION FUNCTION: Restores the contact and shows it
+// ============================================================================
+export async function action({ params, request }: Route.ActionArgs) {
+  const { bookId } = await requireAddressBook(request, "edit");
+
+  // Only contacts in the trash can be restored (it may have been purged)
+  const deleted = await getDeletedContacts(bookId);
+  if (!deleted.some((contact) => contact.id === params.contactId)) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  await restoreContact(bookId, params.contactId);
+
+  // Show the contact again, right where it was
+  return redirect(`/contacts/${params.contactId}`);
+}
+
+// ============================================================================
+// HOW RESTORE-CONTACT.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /contacts/:contactId/restore
+// 2. The Undo message in sidebar.tsx and the Restore buttons in trash.tsx
+//    submit POST forms here
+// 3. The action() calls restoreContact() from data.ts, then redirects to
+//    contact.tsx
+//
+// NOTE: This file has NO default export (no component)
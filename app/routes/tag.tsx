@@ -0,0 +1,80 @@
+// ============================================================================
+// TAG.TSX - Everyone with a given tag
+// ============================================================================
+// This page shows when you click a tag (in the sidebar or on a contact)
+// URL pattern: /tags/:tag (e.g., /tags/Team)
+// While it's open, the sidebar's contact list is filtered to the same tag
+
+// Import React Router components
+import { Link } from "react-router";
+
+// Import TypeScript types and data functions
+import type { Route } from "./+types/tag";
+import { requireAddressBook } from "../auth.server";
+import { getContacts } from "../data";
+
+// ============================================================================
+// LOADER FUNCTION: Fetches the contacts with this tag
+// ============================================================================
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const { bookId } = await requireAddressBook(request);
+
+  // params.tag is already decoded: /tags/Conference%20speakers → "Conference speakers"
+  const contacts = await getContacts(bookId, null, { tag: params.tag });
+
+  // A tag nobody has doesn't exist - show the 404 page
+  if (contacts.length === 0) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  // Tags match ignoring case, so show the spelling the contacts actually use
+  const tag =
+    contacts[0].tags?.find(
+      (name) => name.toLowerCase() === params.tag.toLowerCase(),
+    ) ?? params.tag;
+
+  return { contacts, tag };
+}
+
+// ============================================================================
+// MAIN COMPONENT: The tag heading and its contacts
+// ============================================================================
+export default function Tag({ loaderData }: Route.ComponentProps) {
+  const { contacts, tag } = loaderData;
+
+  return (
+    <div id="tag-page">
+      <h1>
+        <span className="tag-chip">{tag}</span>
+      </h1>
+      <p>
+        {contacts.length} contact{contacts.length === 1 ? "" : "s"}
+      </p>
+
+      {/* One link per contact */}
+      <ul>
+        {contacts.map((contact) => (
+          <li key={contact.id}>
+            <Link to={`/contacts/${contact.id}`}>
+              {contact.first || contact.last ? (
+                <>
+                  {contact.first} {contact.last}
+                </>
+              ) : (
+                <i>No Name</i>
+              )}
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// ============================================================================
+// HOW TAG.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /tags/:tag (inside the sidebar layout)
+// 2. Tag chips in sidebar.tsx and contact.tsx link here
+// 3. The loader calls getContacts() from data.ts with the tag filter
+// 4. sidebar.tsx's loader sees params.tag too, and filters its list the same way
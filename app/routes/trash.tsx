@@ -0,0 +1,174 @@
+// ============================================================================
+// TRASH.TSX - Deleted contacts, waiting to be restored or purged
+// ============================================================================
+// Deleting a contact only moves it here. From this page it can be restored,
+// or deleted for good. Anything left in the trash is purged automatically
+// after TRASH_RETENTION_DAYS (30 days unless configured otherwise).
+// URL pattern: /trash
+
+// Import React Router components
+import { Form, redirect } from "react-router";
+
+// Import TypeScript types and data functions
+import type { Route } from "./+types/trash";
+import { requireAddressBook } from "../auth.server";
+import {
+  TRASH_RETENTION_DAYS,
+  getDeletedContacts,
+  purgeContact,
+  purgeDateFor,
+} from "../data";
+
+// ============================================================================
+// LOADER FUNCTION: Fetches everything in the trash
+// ============================================================================
+export async function loader({ request }: Route.LoaderArgs) {
+  const { bookId, canEdit } = await requireAddressBook(request);
+  const deleted = await getDeletedContacts(bookId);
+
+  return {
+    canEdit, // Viewers can see the trash, but not restore or purge
+    retentionDays: TRASH_RETENTION_DAYS,
+    contacts: deleted.map((contact) => ({
+      id: contact.id,
+      first: contact.first,
+      last: contact.last,
+      deletedAt: contact.deletedAt ?? "",
+      purgeAt: purgeDateFor(contact).toISOString(),
+    })),
+  };
+}
+
+// ============================================================================
+// ACTION FUNCTION: Permanently deletes one contact, or the whole trash
+// ============================================================================
+// Restoring is handled by restore-contact.tsx instead
+export async function action({ request }: Route.ActionArgs) {
+  const { bookId } = await requireAddressBook(request, "edit");
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  // Only ever purge what's actually in the trash right now
+  // (the page may be out of date, or someone may be poking at the form)
+  const deletedIds = (await getDeletedContacts(bookId)).map((contact) => contact.id);
+
+  let ids: string[];
+  if (intent === "empty") {
+    ids = deletedIds;
+  } else if (intent === "purge") {
+    ids = deletedIds.filter((id) => id === formData.get("contactId"));
+  } else {
+    throw new Response("Unknown intent", { status: 400 });
+  }
+
+  for (const id of ids) {
+    await purgeContact(bookId, id);
+  }
+
+  return redirect("/trash");
+}
+
+// ============================================================================
+// MAIN COMPONENT: The list of deleted contacts
+// ============================================================================
+export default function Trash({ loaderData }: Route.ComponentProps) {
+  const { canEdit, contacts, retentionDays } = loaderData;
+
+  return (
+    <div id="trash-page">
+      <h1>Trash</h1>
+      <p>
+        Deleted contacts stay here for {retentionDays} day
+        {retentionDays === 1 ? "" : "s"}, then they're deleted for good.
+      </p>
+
+      {contacts.length === 0 ? (
+        <p>
+          <i>The trash is empty.</i>
+        </p>
+      ) : (
+        <>
+          <ul className="trash-list">
+            {contacts.map((contact) => (
+              <li key={contact.id}>
+                <span>
+                  {contact.first || contact.last ? (
+                    <>
+                      {contact.first} {contact.last}
+                    </>
+                  ) : (
+                    <i>No Name</i>
+                  )}
+                  <br />
+                  <small>
+                    Deleted {formatDate(contact.deletedAt)} · purged on{" "}
+                    {formatDate(contact.purgeAt)}
+                  </small>
+                </span>
+
+                {canEdit ? (
+                  <>
+                    {/* RESTORE: Puts the contact back (restore-contact.tsx) */}
+                    <Form action={`/contacts/${contact.id}/restore`} method="post">
+                      <button type="submit">Restore</button>
+                    </Form>
+
+                    {/* PURGE: Gone for good - ask first, there's no undo for this */}
+                    <Form method="post" onSubmit={confirmPurge}>
+                      <input name="contactId" type="hidden" value={contact.id} />
+                      <button name="intent" type="submit" value="purge">
+                        Delete forever
+                      </button>
+                    </Form>
+                  </>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+
+          {canEdit ? (
+            <Form method="post" onSubmit={confirmPurge}>
+              <button name="intent" type="submit" value="empty">
+                Empty trash
+              </button>
+            </Form>
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// CONFIRM PURGE: Purging can't be undone, so double-check first
+function confirmPurge(event: React.FormEvent<HTMLFormElement>) {
+  if (!confirm("This permanently deletes the contact. It can't be undone.")) {
+    event.preventDefault();
+  }
+}
+
+// FORMAT DATE: "2024-05-01T12:00:00.000Z" → "May 1, 2024"
+// In UTC, so the server and the browser always render the same date
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// ============================================================================
+// HOW TRASH.TSX CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. routes.ts declares this route as /trash (inside the sidebar layout)
+// 2. The "Trash" link in sidebar.tsx navigates here
+// 3. The loader calls getDeletedContacts() from data.ts (which also purges
+//    anything past the retention period)
+// 4. "Restore" posts to restore-contact.tsx
+// 5. "Delete forever" / "Empty trash" call action() → purgeContact() (data.ts)
+// 6. Viewers of a shared address book (see requireAddressBook() in
+//    auth.server.ts) see the trash without any of these buttons
@@ -0,0 +1,376 @@
+// ============================================================================
+// SEARCH.TS - The little query language behind the search box
+// ============================================================================
+// Plain words search every field (names, company, job title, Twitter,
+// notes, emails, phones, addresses and tags). On top of that the search box
+// understands:
+//
+//   twitter:jack          Only look in one field (see SEARCH_FIELDS)
+//   company:remix         Only people at a matching company
+//   "react conf"          A phrase - the words must appear together
+//   -vendor               NOT: leave out contacts that match
+//   is:favorite           Only favorites
+//   has:avatar            Only contacts with something in that field
+//   created:>2025-01-01   Created after a date (also >=, <, <= and =)
+//
+// Everything can be combined - a contact has to match every part:
+//   tag:team -is:favorite notes:"met at"
+//
+// This file has no server-only code, so the sidebar can use the
+// highlighting helpers too.
+
+// Import the contact types
+import type { ContactRecord } from "./data";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+// SearchField: The fields "field:value" can look in
+export type SearchField =
+  | "name"
+  | "first"
+  | "last"
+  | "company"
+  | "title"
+  | "twitter"
+  | "notes"
+  | "email"
+  | "phone"
+  | "address"
+  | "tag";
+
+// HasField: The fields "has:field" can check
+export type HasField =
+  | "avatar"
+  | "company"
+  | "title"
+  | "twitter"
+  | "notes"
+  | "email"
+  | "phone"
+  | "address"
+  | "tag";
+
+// Comparison: How "created:" compares dates
+export type Comparison = ">" | ">=" | "<" | "<=" | "=";
+
+// SearchTerm: One part of a query
+export type SearchTerm =
+  | { kind: "text"; field: SearchField | null; value: string; negated: boolean } // null field = everywhere
+  | { kind: "is"; value: "favorite"; negated: boolean }
+  | { kind: "has"; field: HasField; negated: boolean }
+  | { kind: "created"; comparison: Comparison; date: string; negated: boolean }; // date is "YYYY-MM-DD"
+
+// ============================================================================
+// FIELD NAMES: What can go before the ":" (plus a few friendly aliases)
+// ============================================================================
+const SEARCH_FIELDS: Record<string, SearchField> = {
+  name: "name",
+  first: "first",
+  last: "last",
+  company: "company",
+  org: "company",
+  organization: "company",
+  title: "title",
+  twitter: "twitter",
+  notes: "notes",
+  note: "notes",
+  email: "email",
+  phone: "phone",
+  tel: "phone",
+  address: "address",
+  tag: "tag",
+};
+
+const HAS_FIELDS: Record<string, HasField> = {
+  avatar: "avatar",
+  photo: "avatar",
+  company: "company",
+  org: "company",
+  organization: "company",
+  title: "title",
+  twitter: "twitter",
+  notes: "notes",
+  email: "email",
+  phone: "phone",
+  address: "address",
+  tag: "tag",
+  tags: "tag",
+};
+
+// ============================================================================
+// PARSE QUERY: Turns the text from the search box into search terms
+// ============================================================================
+// Anything that doesn't look like a qualifier we know (e.g. "10:30" or
+// "has:wings") is searched for as plain text instead, so nothing the user
+// types is silently ignored
+export function parseQuery(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+
+  // Each match is one token: an optional "-", an optional "field:",
+  // then either a "quoted phrase" or a run of non-space characters.
+  // An unfinished quote runs to the end of the query
+  const tokens = query.matchAll(/(-?)(?:([A-Za-z]+):)?(?:"([^"]*)"?|(\S+))/g);
+
+  for (const [token, minus, field, quoted, bare] of tokens) {
+    const negated = minus === "-";
+    const value = (quoted ?? bare ?? "").trim();
+    const term = field ? qualifiedTerm(field.toLowerCase(), value, negated) : null;
+
+    if (term) {
+      terms.push(term);
+    } else if (field) {
+      // Not a qualifier after all - search for the whole thing as text
+      const text = token.slice(negated ? 1 : 0).replace(/"/g, "").trim();
+      if (text) terms.push({ kind: "text", field: null, value: text, negated });
+    } else if (value) {
+      terms.push({ kind: "text", field: null, value, negated });
+    }
+  }
+
+  return terms;
+}
+
+// ============================================================================
+// MATCHES QUERY: Does a contact match every term?
+// ============================================================================
+export function matchesQuery(contact: ContactRecord, terms: SearchTerm[]): boolean {
+  return terms.every((term) => matchesTerm(contact, term) !== term.negated);
+}
+
+// ============================================================================
+// HIGHLIGHTING: Showing the user why a contact matched
+// ============================================================================
+
+// HIGHLIGHT TERMS: The words worth highlighting
+//   "name" → only words that were searched for in names (for the name itself)
+//   "any"  → every searched word, whatever field (for snippets)
+// (negated terms never match, so there's nothing to highlight for them)
+export function highlightTerms(
+  terms: SearchTerm[],
+  scope: "name" | "any" = "name",
+): string[] {
+  const nameFields: (SearchField | null)[] = [null, "name", "first", "last"];
+  return terms.flatMap((term) =>
+    term.kind === "text" &&
+    !term.negated &&
+    (scope === "any" || nameFields.includes(term.field))
+      ? [term.value]
+      : [],
+  );
+}
+
+// SPLIT HIGHLIGHTS: Cuts text into matching and non-matching pieces
+// splitHighlights("Ryan Florence", ["flo"])
+// → [{ text: "Ryan ", match: false }, { text: "Flo", match: true }, { text: "rence", match: false }]
+export function splitHighlights(
+  text: string,
+  terms: string[],
+): { text: string; match: boolean }[] {
+  const needles = terms.map(fold).filter(Boolean);
+  if (needles.length === 0 || !text) return [{ text, match: false }];
+
+  // Fold one character at a time, remembering where each folded character
+  // came from (folding changes the length of a few characters)
+  let folded = "";
+  const origin: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const piece = fold(text[i]);
+    folded += piece;
+    origin.push(...Array.from(piece, () => i));
+  }
+
+  // Mark every character that's part of a match...
+  const marked = new Array<boolean>(text.length).fill(false);
+  for (const needle of needles) {
+    for (let at = folded.indexOf(needle); at !== -1; at = folded.indexOf(needle, at + 1)) {
+      for (let k = at; k < at + needle.length; k++) marked[origin[k]] = true;
+    }
+  }
+
+  // ...then join neighbouring characters with the same mark into pieces
+  const pieces: { text: string; match: boolean }[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = pieces[pieces.length - 1];
+    if (last?.match === marked[i]) {
+      last.text += text[i];
+    } else {
+      pieces.push({ text: text[i], match: marked[i] });
+    }
+  }
+  return pieces;
+}
+
+// MATCH SNIPPET: When a contact matched on something other than its name
+// (a word in the notes, an email...), a short piece of that text to show
+// under the name. Returns null when the name itself matched
+export function matchSnippet(contact: ContactRecord, terms: SearchTerm[]): string | null {
+  const words = highlightTerms(terms, "any");
+  const name = fold(`${contact.first ?? ""} ${contact.last ?? ""}`);
+  if (words.length === 0 || words.some((word) => name.includes(fold(word)))) {
+    return null;
+  }
+
+  for (const text of fieldTexts(contact, null)) {
+    const at = words
+      .map((word) => fold(text).indexOf(fold(word)))
+      .find((index) => index !== -1);
+    if (at !== undefined) {
+      // About 40 characters, starting a little before the match
+      const start = Math.max(0, at - 10);
+      const snippet = text.slice(start, start + 40).replace(/\s+/g, " ");
+      return `${start > 0 ? "…" : ""}${snippet}${start + 40 < text.length ? "…" : ""}`;
+    }
+  }
+  return null;
+}
+
+// FUZZY SCORE: How well a few typed letters match some text - in order,
+// but not necessarily next to each other, so "rflo" finds "Ryan Florence".
+// Letters that start a word or follow the one before count for more, and
+// shorter texts win ties. Null when the letters aren't all there
+// (used by the command palette, for contact names and for its actions)
+export function fuzzyScore(text: string, typed: string): number | null {
+  const needle = fold(typed).replace(/\s+/g, "");
+  const haystack = fold(text);
+  if (!needle) return 0;
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const letter of needle) {
+    const at = haystack.indexOf(letter, from);
+    if (at === -1) return null;
+    score += 1;
+    if (at === previous + 1) score += 2;
+    if (at === 0 || /[\s\-.@]/.test(haystack[at - 1])) score += 3;
+    previous = at;
+    from = at + 1;
+  }
+  return score - haystack.length / 100;
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// QUALIFIED TERM: Builds the term for "field:value", or null if we don't
+// know that qualifier (or its value makes no sense, like "created:soon")
+function qualifiedTerm(field: string, value: string, negated: boolean): SearchTerm | null {
+  if (!value) return null;
+
+  if (field === "is") {
+    return value.toLowerCase() === "favorite" || value.toLowerCase() === "favourite"
+      ? { kind: "is", value: "favorite", negated }
+      : null;
+  }
+
+  if (field === "has") {
+    const hasField = HAS_FIELDS[value.toLowerCase()];
+    return hasField ? { kind: "has", field: hasField, negated } : null;
+  }
+
+  if (field === "created") {
+    // ">2025-01-01", "<=2024-12-31", "2025-03-15" (same as "=")
+    const match = /^(>=|<=|>|<|=)?(\d{4}-\d{2}-\d{2})$/.exec(value);
+    if (!match || Number.isNaN(Date.parse(match[2]))) return null;
+    return {
+      kind: "created",
+      comparison: (match[1] ?? "=") as Comparison,
+      date: match[2],
+      negated,
+    };
+  }
+
+  const searchField = SEARCH_FIELDS[field];
+  return searchField ? { kind: "text", field: searchField, value, negated } : null;
+}
+
+// MATCHES TERM: Does a contact match one term (ignoring negation)?
+function matchesTerm(contact: ContactRecord, term: SearchTerm): boolean {
+  switch (term.kind) {
+    case "is":
+      return Boolean(contact.favorite);
+
+    case "has":
+      return fieldTexts(contact, term.field).some((text) => text.trim() !== "");
+
+    case "created":
+      // Compare just the day part of createdAt ("2025-01-01T09:30:00Z" → "2025-01-01")
+      return compareDays(contact.createdAt.slice(0, 10), term.comparison, term.date);
+
+    case "text": {
+      const needle = fold(term.value);
+      const texts = fieldTexts(contact, term.field);
+      if (texts.some((text) => fold(text).includes(needle))) return true;
+
+      // Phone numbers are written in all sorts of ways - "5551234" should
+      // find "555-1234", so also compare just the digits
+      const digits = term.value.replace(/\D/g, "");
+      if (digits.length >= 3 && (term.field === null || term.field === "phone")) {
+        return (contact.phones ?? []).some((phone) =>
+          phone.number.replace(/\D/g, "").includes(digits),
+        );
+      }
+      return false;
+    }
+  }
+}
+
+// COMPARE DAYS: "YYYY-MM-DD" strings sort like the dates they stand for
+function compareDays(day: string, comparison: Comparison, date: string): boolean {
+  switch (comparison) {
+    case ">": return day > date;
+    case ">=": return day >= date;
+    case "<": return day < date;
+    case "<=": return day <= date;
+    case "=": return day === date;
+  }
+}
+
+// FIELD TEXTS: The text a term looks through (null = every field)
+function fieldTexts(contact: ContactRecord, field: SearchField | HasField | null): string[] {
+  const texts: Record<SearchField | HasField, () => string[]> = {
+    name: () => [`${contact.first ?? ""} ${contact.last ?? ""}`],
+    first: () => [contact.first ?? ""],
+    last: () => [contact.last ?? ""],
+    company: () => [contact.company ?? ""],
+    title: () => [contact.title ?? ""],
+    avatar: () => [contact.avatar ?? ""],
+    twitter: () => [contact.twitter ?? ""],
+    notes: () => [contact.notes ?? ""],
+    email: () => (contact.emails ?? []).map((email) => email.address),
+    phone: () => (contact.phones ?? []).map((phone) => phone.number),
+    address: () =>
+      (contact.addresses ?? []).map((address) =>
+        [address.street, address.city, address.region, address.postalCode, address.country].join(" "),
+      ),
+    tag: () => contact.tags ?? [],
+  };
+
+  if (field) return texts[field]();
+  // Everywhere - except the avatar URL, which is just noise
+  return (
+    ["name", "company", "title", "twitter", "email", "phone", "tag", "address", "notes"] as const
+  ).flatMap((name) => texts[name]());
+}
+
+// FOLD: Lowercase without accents, so "jose" finds "José"
+function fold(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+// ============================================================================
+// HOW SEARCH.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. getContacts() (data.ts) runs the sidebar's "q" through parseQuery() and
+//    keeps the contacts for which matchesQuery() is true
+// 2. sidebar.tsx's loader sends highlightTerms() and matchSnippet() to the
+//    component, which marks matches with splitHighlights()
+// 3. Exports (?q=...) use the same getContacts(), so they match the list
+// 4. The command palette (sidebar.tsx) ranks its actions with fuzzyScore(),
+//    and findContactsByName() (data.ts) its contacts
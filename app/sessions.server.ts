@@ -0,0 +1,95 @@
+// ============================================================================
+// SESSIONS.SERVER.TS - Remembering things between requests
+// ============================================================================
+// HTTP forgets everything between requests. A session is a small, signed
+// cookie the browser sends back with every request, so the server can pass
+// notes from one request to the next. It's also how the app remembers
+// who's logged in, and which address book they're looking at.
+//
+// "Flash" values are read exactly once: set one during an action, and the
+// next page load shows it and then it's gone. That's how the "Deleted -
+// Undo" message appears after deleting a contact.
+//
+// The ".server" in the file name tells React Router this file must never be
+// sent to the browser (it holds the cookie signing secret).
+//
+// Configuration (environment variables):
+//   SESSION_SECRET=...   Signs the cookie so it can't be tampered with
+//                        (required in production - without it every
+//                        request fails, rather than risk forged logins)
+
+// Import the cookie session helper from React Router
+import { createCookieSessionStorage } from "react-router";
+import type { SessionStorage } from "react-router";
+
+// ============================================================================
+// TYPE DEFINITIONS: What the session can hold
+// ============================================================================
+
+// Values that stay in the session until they're removed
+type SessionData = {
+  // Who's logged in (see auth.server.ts)
+  userId: string;
+  // Which of their address books they're looking at (see
+  // requireAddressBook() in auth.server.ts)
+  bookId: string;
+};
+
+// Values that are shown once and then forgotten
+type SessionFlashData = {
+  // The contact that was just moved to the trash (for the Undo message)
+  deletedContact: { id: string; name: string };
+};
+
+// ============================================================================
+// SESSION STORAGE: Reads and writes the session cookie
+// ============================================================================
+// Made on first use rather than when the file loads: "npm run build" loads
+// it too (to prerender /about), and shouldn't need the production secret
+type Sessions = SessionStorage<SessionData, SessionFlashData>;
+let sessions: Sessions | null = null;
+function sessionStorage(): Sessions {
+  sessions ??= createCookieSessionStorage<SessionData, SessionFlashData>({
+    cookie: {
+      name: "__session",
+      httpOnly: true,   // JavaScript in the page can't read it
+      path: "/",        // Sent with every request on the site
+      sameSite: "lax",  // Not sent with requests from other sites' forms
+      // Anyone who knows the secret can forge a session - see below
+      secrets: [readSessionSecret(process.env)],
+      secure: process.env.NODE_ENV === "production", // HTTPS only when deployed
+    },
+  });
+  return sessions;
+}
+
+export const getSession: Sessions["getSession"] = (...args) =>
+  sessionStorage().getSession(...args);
+export const commitSession: Sessions["commitSession"] = (...args) =>
+  sessionStorage().commitSession(...args);
+export const destroySession: Sessions["destroySession"] = (...args) =>
+  sessionStorage().destroySession(...args);
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// READ SESSION SECRET: SESSION_SECRET, or a fixed one for local development.
+// The fallback is in this file for anyone to read, so a production server
+// using it would let anyone forge a login - it refuses to answer instead
+function readSessionSecret(env: NodeJS.ProcessEnv): string {
+  if (env.SESSION_SECRET) return env.SESSION_SECRET;
+  if (env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production.");
+  }
+  return "dev-only-session-secret";
+}
+
+// ============================================================================
+// HOW SESSIONS.SERVER.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. destroy-contact.tsx flashes "deletedContact" after moving a contact to the trash
+// 2. sidebar.tsx's loader reads it (which clears it) and shows the Undo message
+// 3. The Undo button posts to restore-contact.tsx
+// 4. auth.server.ts keeps the logged-in user's ID in "userId"
+// 5. address-books.tsx keeps the address book they're looking at in "bookId"
@@ -0,0 +1,95 @@
+// ============================================================================
+// SHORTCUTS.TS - Keyboard shortcuts, and the list the "?" overlay shows
+// ============================================================================
+// Every page that has shortcuts registers its own keys with useShortcuts():
+//
+//   useShortcuts({ e: () => navigate("edit"), "mod+k": openPalette });
+//
+// Keys are named like KeyboardEvent.key ("j", "/", "?", "Delete"), and
+// "mod+k" means Ctrl+K - or ⌘K on a Mac. Plain keys are left alone while
+// the user is typing in a box, so pressing "n" in the search field still
+// types an "n"; shortcuts with Ctrl/⌘ work everywhere.
+//
+// This file has no server-only code (the shortcuts only run in the browser).
+
+// Import React hooks
+import { useEffect, useRef } from "react";
+
+// ============================================================================
+// SHORTCUTS: Every shortcut, as the help overlay lists them
+// ============================================================================
+// Keep this in step with the useShortcuts() calls in sidebar.tsx and
+// contact.tsx - it's what tells users the keys exist
+export const SHORTCUTS: { keys: string[]; description: string }[] = [
+  { keys: ["Ctrl", "K"], description: "Command palette (⌘K on a Mac)" },
+  { keys: ["/"], description: "Search contacts" },
+  { keys: ["j"], description: "Next contact in the list" },
+  { keys: ["k"], description: "Previous contact in the list" },
+  { keys: ["Enter"], description: "Open the contact picked with j / k" },
+  { keys: ["n"], description: "New contact" },
+  { keys: ["e"], description: "Edit the open contact" },
+  { keys: ["f"], description: "Favorite (or unfavorite) the open contact" },
+  { keys: ["Del"], description: "Delete the open contact (asks first)" },
+  { keys: ["?"], description: "Show these shortcuts" },
+  { keys: ["Esc"], description: "Close the palette or this list" },
+];
+
+// ============================================================================
+// USE SHORTCUTS: Runs a function when its key is pressed
+// ============================================================================
+// Only one component needs to own each key. The functions can change on
+// every render (they usually read props) - the latest ones always run
+export function useShortcuts(shortcuts: Record<string, (() => void) | undefined>) {
+  const latest = useRef(shortcuts);
+  useEffect(() => {
+    latest.current = shortcuts;
+  });
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented) return;
+      const name = shortcutName(event);
+      const run = name ? latest.current[name] : undefined;
+      if (!run) return;
+
+      // Typing in a box (or using the palette) isn't a shortcut - only
+      // Ctrl/⌘ ones get through there
+      if (isTypingIn(event.target) && !name?.startsWith("mod+")) return;
+      if (event.target instanceof Element && event.target.closest("dialog")) return;
+
+      event.preventDefault();
+      run();
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, []);
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// SHORTCUT NAME: "j", "?", "Delete" - or "mod+k" with Ctrl/⌘ held. Alt
+// (and Ctrl and ⌘ together) are left for the browser and the system
+function shortcutName(event: KeyboardEvent): string | null {
+  if (event.altKey || (event.ctrlKey && event.metaKey)) return null;
+  if (event.ctrlKey || event.metaKey) return `mod+${event.key.toLowerCase()}`;
+  return event.key;
+}
+
+// IS TYPING IN: True for text boxes, menus and anything editable
+function isTypingIn(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || target.closest("input, textarea, select") !== null)
+  );
+}
+
+// ============================================================================
+// HOW SHORTCUTS.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. sidebar.tsx registers the keys that work everywhere ("/", j / k, n,
+//    Ctrl+K for the command palette and "?" for the help overlay, which
+//    lists SHORTCUTS)
+// 2. contact.tsx registers the ones for the open contact (e, f and Delete)
+// 3. The command palette's contact search uses fuzzyScore() from search.ts
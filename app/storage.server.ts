@@ -0,0 +1,227 @@
+// ============================================================================
+// STORAGE.SERVER.TS - Where our records actually live
+// ============================================================================
+// data.ts decides WHAT to store (contacts, their fields, how to search them).
+// This file decides WHERE to store it. Swapping the backend never requires
+// touching data.ts or any route - they all talk to the same interface.
+//
+// The ".server" in the file name tells React Router this file must never be
+// sent to the browser (it uses Node's file system APIs).
+//
+// Available backends:
+//   - "memory" → A plain object in memory. Wiped on every restart (handy for tests)
+//   - "json"   → A JSON file on disk. Survives restarts (the default)
+//
+// Configuration (environment variables):
+//   CONTACTS_STORAGE=memory|json     Which backend to use (default: json)
+//   CONTACTS_DB_PATH=./data/db.json  Where the JSON backend keeps its file
+
+// Import Node helpers for reading/writing files
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// ============================================================================
+// TYPE DEFINITIONS: The contract every backend must fulfil
+// ============================================================================
+
+// StoredRecord: Anything we store needs an ID so we can find it again
+export type StoredRecord = { id: string };
+
+// Collection: One "table" of records (e.g. all contacts)
+// Every method is async so a real database can be plugged in later
+export interface Collection<T extends StoredRecord> {
+  all(): Promise<T[]>;                   // Every record in the collection
+  get(id: string): Promise<T | null>;    // One record, or null if missing
+  put(record: T): Promise<T>;            // Insert OR replace a record
+  remove(id: string): Promise<void>;     // Delete a record (no-op if missing)
+  count(): Promise<number>;              // How many records there are
+}
+
+// StorageBackend: Hands out collections by name ("contacts", ...)
+export interface StorageBackend {
+  collection<T extends StoredRecord>(name: string): Collection<T>;
+  // Runs work that writes many records, saving once at the end instead of
+  // after every write
+  batch<T>(work: () => Promise<T>): Promise<T>;
+}
+
+// ============================================================================
+// MEMORY BACKEND: Everything lives in a JavaScript object
+// ============================================================================
+// Exactly what the old fakeContacts.records object did - nothing survives a restart
+export function createMemoryStorage(): StorageBackend {
+  // tables: { contacts: { "ryan-florence": {...}, ... }, ... }
+  const tables: Record<string, Record<string, StoredRecord>> = {};
+
+  return {
+    collection<T extends StoredRecord>(name: string): Collection<T> {
+      // Create the table the first time someone asks for it
+      const records = (tables[name] ??= {}) as Record<string, T>;
+
+      return {
+        async all() {
+          return Object.values(records);
+        },
+        async get(id) {
+          return records[id] || null;
+        },
+        async put(record) {
+          records[record.id] = record;
+          return record;
+        },
+        async remove(id) {
+          delete records[id];
+        },
+        async count() {
+          return Object.keys(records).length;
+        },
+      };
+    },
+
+    // Nothing is ever saved, so there's nothing to hold back
+    batch(work) {
+      return work();
+    },
+  };
+}
+
+// ============================================================================
+// JSON FILE BACKEND: Everything lives in one JSON file on disk
+// ============================================================================
+// The whole file is read once (lazily) and kept in memory. Every change
+// rewrites the file - or, for changes made in a batch, the end of the batch
+// does. That's plenty fast for an address book and means reads never touch
+// the disk.
+//
+// File layout: { "contacts": { "ryan-florence": {...}, ... }, ... }
+export function createJsonFileStorage(filePath: string): StorageBackend {
+  // The parsed file contents (null until the first read)
+  let tables: Record<string, Record<string, StoredRecord>> | null = null;
+
+  // Only read the file once, even if many requests arrive at the same time
+  let loading: Promise<Record<string, Record<string, StoredRecord>>> | null =
+    null;
+
+  // Writes are chained one after another so two saves can never interleave
+  let writing: Promise<void> = Promise.resolve();
+
+  // How many batches are running, and whether a save was held back for them
+  let batches = 0;
+  let held = false;
+
+  // LOAD: Read the file from disk (or start empty if it doesn't exist yet)
+  function load() {
+    loading ??= readFile(filePath, "utf8")
+      .then((text) => JSON.parse(text))
+      .catch((error: NodeJS.ErrnoException) => {
+        // A missing file just means "empty database"
+        if (error.code === "ENOENT") return {};
+        // Anything else (corrupt JSON, permissions...) should be loud -
+        // and forgotten, so the next request reads the file again
+        loading = null;
+        throw error;
+      })
+      .then((parsed) => (tables = parsed));
+    return loading;
+  }
+
+  // SAVE: Write everything back to disk
+  // We write to a temporary file first and then rename it, so a crash
+  // mid-write can never leave a half-written (corrupt) database behind
+  // A failed write (a full disk, say) is reported to its own caller only -
+  // the chain carries on, so the next save tries again.
+  // While a batch runs, the save waits for the end of it (see batch())
+  function save() {
+    if (batches > 0) {
+      held = true;
+      return Promise.resolve();
+    }
+    const next = writing.then(async () => {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.tmp`;
+      await writeFile(tempPath, JSON.stringify(tables, null, 2));
+      await rename(tempPath, filePath);
+    });
+    writing = next.catch(() => {});
+    return next;
+  }
+
+  return {
+    collection<T extends StoredRecord>(name: string): Collection<T> {
+      // Get (or create) the table for this collection
+      async function table() {
+        const loaded = await load();
+        return (loaded[name] ??= {}) as Record<string, T>;
+      }
+
+      return {
+        async all() {
+          return Object.values(await table());
+        },
+        async get(id) {
+          return (await table())[id] || null;
+        },
+        async put(record) {
+          (await table())[record.id] = record;
+          await save();
+          return record;
+        },
+        async remove(id) {
+          const records = await table();
+          if (!(id in records)) return;
+          delete records[id];
+          await save();
+        },
+        async count() {
+          return Object.keys(await table()).length;
+        },
+      };
+    },
+
+    // BATCH: One save for everything written while work runs. Writes from
+    // other requests in the meantime wait for it too (they're kept in memory
+    // until then). A failed save is reported to whoever ran the batch
+    async batch(work) {
+      batches += 1;
+      try {
+        return await work();
+      } finally {
+        batches -= 1;
+        if (batches === 0 && held) {
+          held = false;
+          await save();
+        }
+      }
+    },
+  };
+}
+
+// ============================================================================
+// CONFIGURATION: Pick a backend based on environment variables
+// ============================================================================
+export function createStorageFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): StorageBackend {
+  const kind = env.CONTACTS_STORAGE || "json";
+
+  switch (kind) {
+    case "memory":
+      return createMemoryStorage();
+    case "json":
+      return createJsonFileStorage(
+        path.resolve(env.CONTACTS_DB_PATH || "data/db.json"),
+      );
+    default:
+      // Fail fast on typos like CONTACTS_STORAGE=jsno
+      throw new Error(
+        `Unknown CONTACTS_STORAGE "${kind}" (expected "memory" or "json")`,
+      );
+  }
+}
+
+// ============================================================================
+// HOW STORAGE.SERVER.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. data.ts calls createStorageFromEnv() once when the server starts
+// 2. data.ts asks for the "contacts" collection and reads/writes through it
+// 3. No route file imports this directly - routes only ever talk to data.ts
@@ -0,0 +1,533 @@
+// ============================================================================
+// VCARD.TS - Reading and writing .vcf files (the format address books use)
+// ============================================================================
+// A .vcf file holds one or more "vCards", each looking roughly like:
+//
+//   BEGIN:VCARD
+//   VERSION:4.0
+//   N:Florence;Ryan;;;
+//   FN:Ryan Florence
+//   TEL;TYPE=cell:+1 555 010 0100
+//   EMAIL;TYPE=work:ryan@example.com
+//   END:VCARD
+//
+// parseVCards() turns that text into contacts our data layer understands.
+// Only vCard 3.0 and 4.0 are supported (that's what every modern app exports).
+// toVCard() goes the other way, writing one contact as a vCard 4.0.
+//
+// This file has no server-only code - it's plain string handling.
+
+// Import types and validation rules for contacts
+import type {
+  ContactDate,
+  ContactLabel,
+  ContactMutation,
+  ContactRecord,
+  EmailAddress,
+  PhoneNumber,
+  PostalAddress,
+} from "./data";
+import { toFormValues, validateContactValues } from "./contact-schema";
+import { uploadedAvatarId } from "./avatars";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+// ParsedVCard: One vCard that was understood and passed validation
+export type ParsedVCard = {
+  index: number;            // Position in the file (1 = first vCard)
+  contact: ContactMutation; // The fields mapped onto our contact shape
+};
+
+// VCardError: One vCard that couldn't be imported, and why
+export type VCardError = {
+  index: number;   // Position in the file (1 = first vCard)
+  line: number;    // Line in the file where that vCard starts
+  name?: string;   // The contact's name, if we got that far
+  message: string; // What went wrong, in plain English
+};
+
+// VCardParseResult: Everything parseVCards() found
+export type VCardParseResult = {
+  contacts: ParsedVCard[];
+  errors: VCardError[];
+};
+
+// ContentLine: One "NAME;PARAM=value:VALUE" line, split into its parts
+type ContentLine = {
+  name: string;                     // Upper-cased, group removed: "TEL"
+  params: Record<string, string[]>; // Upper-cased keys: { TYPE: ["cell"] }
+  value: string;                    // Everything after the first ":" (still escaped)
+};
+
+// The vCard versions we know how to read
+const SUPPORTED_VERSIONS = ["3.0", "4.0"];
+
+// ============================================================================
+// PARSE VCARDS: Turns the text of a .vcf file into contacts
+// ============================================================================
+export function parseVCards(text: string): VCardParseResult {
+  const contacts: ParsedVCard[] = [];
+  const errors: VCardError[] = [];
+
+  // The lines of the vCard we're currently inside (null = between vCards)
+  let current: { startLine: number; lines: string[] } | null = null;
+  let index = 0; // How many vCards we've seen so far
+
+  for (const { text: line, number } of unfoldLines(text)) {
+    const upper = line.trim().toUpperCase();
+
+    if (upper === "BEGIN:VCARD") {
+      // A new vCard started before the previous one ended
+      if (current) {
+        errors.push({
+          index,
+          line: current.startLine,
+          message: "Missing END:VCARD before the next BEGIN:VCARD.",
+        });
+      }
+      index += 1;
+      current = { startLine: number, lines: [] };
+    } else if (upper === "END:VCARD") {
+      // An END without a BEGIN - nothing to finish, just skip it
+      if (!current) continue;
+      const result = convertCard(current.lines);
+      if ("contact" in result) {
+        contacts.push({ index, contact: result.contact });
+      } else {
+        errors.push({ index, line: current.startLine, ...result });
+      }
+      current = null;
+    } else if (current && line.trim() !== "") {
+      current.lines.push(line);
+    }
+  }
+
+  // The file ended in the middle of a vCard
+  if (current) {
+    errors.push({
+      index,
+      line: current.startLine,
+      message: "The file ended before END:VCARD.",
+    });
+  }
+
+  // No vCards at all usually means someone uploaded the wrong file
+  if (index === 0) {
+    errors.push({
+      index: 0,
+      line: 1,
+      message: "No vCards found. Is this a .vcf file?",
+    });
+  }
+
+  return { contacts, errors };
+}
+
+// ============================================================================
+// CONVERT CARD: Turns the lines of one vCard into a contact (or an error)
+// ============================================================================
+function convertCard(
+  rawLines: string[],
+): { contact: ContactMutation } | { message: string; name?: string } {
+  const lines = rawLines.map(parseContentLine);
+
+  // VERSION: Refuse versions we don't understand instead of guessing
+  const version = lines.find((line) => line?.name === "VERSION")?.value.trim();
+  if (!version) {
+    return { message: "Missing VERSION line." };
+  }
+  if (!SUPPORTED_VERSIONS.includes(version)) {
+    return {
+      message: `vCard ${version} isn't supported (only 3.0 and 4.0 are).`,
+    };
+  }
+
+  const contact: ContactMutation = {};
+  const phones: PhoneNumber[] = [];
+  const emails: EmailAddress[] = [];
+  const addresses: PostalAddress[] = [];
+  const notes: string[] = [];
+  const dates: ContactDate[] = [];
+  let formattedName = "";
+
+  for (const line of lines) {
+    // A line we couldn't make sense of (no ":") - skip it
+    if (!line) continue;
+
+    switch (line.name) {
+      // N: "Family;Given;Additional;Prefix;Suffix"
+      case "N": {
+        const [family = "", given = "", additional = ""] =
+          splitStructured(line.value);
+        contact.first = [given, additional].filter(Boolean).join(" ");
+        contact.last = family;
+        break;
+      }
+
+      // FN: The full name as one string ("Ryan Florence")
+      case "FN":
+        formattedName = unescapeText(line.value).trim();
+        break;
+
+      // TEL: A phone number (4.0 may write it as "tel:+1555...")
+      case "TEL":
+        phones.push({
+          label: toLabel(line.params.TYPE),
+          number: unescapeText(line.value).replace(/^tel:/i, "").trim(),
+        });
+        break;
+
+      // EMAIL: An email address
+      case "EMAIL":
+        emails.push({
+          label: toLabel(line.params.TYPE),
+          address: unescapeText(line.value).replace(/^mailto:/i, "").trim(),
+        });
+        break;
+
+      // ADR: "PO Box;Extended;Street;City;Region;Postal code;Country"
+      case "ADR": {
+        const [poBox = "", extended = "", street = "", city = "", region = "", postalCode = "", country = ""] =
+          splitStructured(line.value);
+        addresses.push({
+          label: toLabel(line.params.TYPE),
+          street: [poBox, extended, street].filter(Boolean).join(", "),
+          city,
+          region,
+          postalCode,
+          country,
+        });
+        break;
+      }
+
+      // ORG: "Company;Department;..." - we keep the company
+      case "ORG": {
+        const [company = ""] = splitStructured(line.value);
+        contact.company = company;
+        break;
+      }
+
+      // TITLE: The job title
+      case "TITLE":
+        contact.title = unescapeText(line.value).trim();
+        break;
+
+      // CATEGORIES: A comma-separated list of groups - our tags
+      case "CATEGORIES":
+        contact.tags = [
+          ...(contact.tags ?? []),
+          ...line.value.split(/(?<!\\),/).map(unescapeText),
+        ];
+        break;
+
+      // BDAY / ANNIVERSARY: "19850412" or "1985-04-12" (dates without a
+      // year, like "--0412", are skipped - every date we keep has one)
+      case "BDAY":
+      case "ANNIVERSARY": {
+        const date = vCardDate(line.value);
+        if (date) {
+          dates.push({ label: line.name === "BDAY" ? "birthday" : "anniversary", date });
+        }
+        break;
+      }
+
+      // NOTE: Free text (there can be more than one)
+      case "NOTE":
+        notes.push(unescapeText(line.value));
+        break;
+
+      // PHOTO: We can only use links - embedded (base64) photos are skipped
+      case "PHOTO": {
+        const url = unescapeText(line.value).trim();
+        if (/^https?:\/\//i.test(url)) contact.avatar = url;
+        break;
+      }
+
+      // Twitter is spelled several ways depending on the exporting app
+      case "X-TWITTER":
+      case "X-SOCIALPROFILE":
+      case "URL": {
+        const handle = twitterHandle(
+          unescapeText(line.value),
+          line.name === "X-TWITTER" ||
+            (line.params.TYPE ?? []).includes("twitter"),
+        );
+        if (handle) contact.twitter = handle;
+        break;
+      }
+    }
+  }
+
+  // No N line? Fall back to splitting FN: "Kent C. Dodds" → "Kent C." + "Dodds"
+  if (!contact.first && !contact.last && formattedName) {
+    const words = formattedName.split(/\s+/);
+    contact.last = words.length > 1 ? words.pop() : "";
+    contact.first = words.join(" ");
+  }
+
+  const name = [contact.first, contact.last].filter(Boolean).join(" ");
+
+  // A card with no name, phone or email is useless as a contact
+  if (!name && phones.length === 0 && emails.length === 0) {
+    return { message: "Has no name, phone number or email address." };
+  }
+
+  if (phones.length) contact.phones = phones;
+  if (emails.length) contact.emails = emails;
+  if (addresses.length) contact.addresses = addresses;
+  if (notes.length) contact.notes = notes.join("\n\n");
+  if (dates.length) contact.dates = dates;
+
+  // Run the same rules the edit form uses, so junk can't sneak in via import
+  const result = validateContactValues(toFormValues(contact));
+  if (!result.success) {
+    return {
+      name: name || undefined,
+      message: Object.values(result.errors).join(" "),
+    };
+  }
+
+  return { contact: result.data };
+}
+
+// ============================================================================
+// TO VCARD: Writes one contact as a vCard 4.0
+// ============================================================================
+// The result ends with a line break, so several vCards can simply be
+// joined together to make a .vcf file with many contacts
+export function toVCard(contact: ContactRecord): string {
+  const name = [contact.first, contact.last].filter(Boolean).join(" ");
+
+  const lines = [
+    "BEGIN:VCARD",
+    "VERSION:4.0",
+    // UID lets other apps recognise this contact if it's exported again
+    `UID:${escapeText(contact.id)}`,
+    // FN is required by the spec, even for nameless contacts
+    `FN:${escapeText(name)}`,
+    `N:${escapeText(contact.last ?? "")};${escapeText(contact.first ?? "")};;;`,
+  ];
+
+  if (contact.company) lines.push(`ORG:${escapeText(contact.company)}`);
+  if (contact.title) lines.push(`TITLE:${escapeText(contact.title)}`);
+
+  for (const phone of contact.phones ?? []) {
+    // VALUE=text because our numbers have spaces, which a tel: URI can't
+    lines.push(`TEL;VALUE=text${typeParam(phone.label)}:${escapeText(phone.number)}`);
+  }
+  for (const email of contact.emails ?? []) {
+    lines.push(`EMAIL${typeParam(email.label)}:${escapeText(email.address)}`);
+  }
+  for (const address of contact.addresses ?? []) {
+    const parts = [
+      "", // PO Box (we keep everything in street)
+      "", // Extended address
+      address.street,
+      address.city,
+      address.region,
+      address.postalCode,
+      address.country,
+    ];
+    lines.push(`ADR${typeParam(address.label)}:${parts.map(escapeText).join(";")}`);
+  }
+  // Uploaded photos ("/avatars/...") need a login to see, so only web URLs
+  // mean anything to another app
+  if (contact.avatar && !uploadedAvatarId(contact.avatar)) {
+    lines.push(`PHOTO:${contact.avatar}`);
+  }
+  if (contact.twitter) {
+    lines.push(
+      `X-SOCIALPROFILE;TYPE=twitter:https://twitter.com/${contact.twitter.replace(/^@/, "")}`,
+    );
+  }
+  if (contact.tags?.length) {
+    lines.push(`CATEGORIES:${contact.tags.map(escapeText).join(",")}`);
+  }
+  // vCard only has birthdays and anniversaries - custom dates stay behind
+  for (const entry of contact.dates ?? []) {
+    const date = entry.date.replace(/-/g, "");
+    if (entry.label === "birthday") lines.push(`BDAY:${date}`);
+    if (entry.label === "anniversary") lines.push(`ANNIVERSARY:${date}`);
+  }
+  if (contact.notes) lines.push(`NOTE:${escapeText(contact.notes)}`);
+  lines.push("END:VCARD");
+
+  // vCards use CRLF line endings, and long lines must be folded
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// ============================================================================
+// FOLD LINE: Lines longer than 75 bytes are split, with each continuation
+// starting with a space (unfoldLines() below undoes this)
+// ============================================================================
+// Counted in bytes (not characters) as the spec says, so an "é" or an emoji
+// counts for more than an "e" - without ever cutting a character in half.
+// iCalendar files fold the same way, so icalendar.ts uses this too
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // The first line may have 75 bytes, the others 74 (plus their space)
+    if (bytes + size > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+// ============================================================================
+// HELPERS (only used in this file)
+// ============================================================================
+
+// ESCAPE TEXT: The opposite of unescapeText() below
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/,/g, "\\,")
+    .replace(/;/g, "\\;")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+// TYPE PARAM: Our labels as a vCard TYPE ("mobile" is called "cell" there)
+function typeParam(label: ContactLabel): string {
+  if (label === "mobile") return ";TYPE=cell";
+  if (label === "home" || label === "work") return `;TYPE=${label}`;
+  return ""; // "other" has no vCard equivalent
+}
+
+// UNFOLD LINES: Long vCard lines are "folded" onto the next line, which then
+// starts with a space or tab. This glues them back together and remembers
+// which line of the file each logical line started on (for error messages)
+function unfoldLines(text: string): { text: string; number: number }[] {
+  const result: { text: string; number: number }[] = [];
+  const physical = text.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+
+  physical.forEach((line, index) => {
+    const previous = result[result.length - 1];
+    if (previous && (line.startsWith(" ") || line.startsWith("\t"))) {
+      previous.text += line.slice(1);
+    } else {
+      result.push({ text: line, number: index + 1 });
+    }
+  });
+
+  return result;
+}
+
+// PARSE CONTENT LINE: 'item1.TEL;TYPE="work,voice":+1 555' becomes
+// { name: "TEL", params: { TYPE: ["work", "voice"] }, value: "+1 555" }
+function parseContentLine(line: string): ContentLine | null {
+  // Find the ":" that ends the name/params (a ":" inside quotes doesn't count)
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [rawName, ...rawParams] = splitOutsideQuotes(line.slice(0, colon), ";");
+  // Drop the optional group prefix ("item1.TEL" → "TEL")
+  const name = rawName.split(".").pop()!.toUpperCase();
+
+  const params: Record<string, string[]> = {};
+  for (const param of rawParams) {
+    const equals = param.indexOf("=");
+    // vCard 2.1 style bare params ("TEL;WORK:...") are treated as TYPEs
+    const key = equals === -1 ? "TYPE" : param.slice(0, equals).toUpperCase();
+    const values = equals === -1 ? param : param.slice(equals + 1);
+    params[key] = [
+      ...(params[key] ?? []),
+      ...splitOutsideQuotes(values, ",").map((value) =>
+        value.replace(/^"|"$/g, "").toLowerCase(),
+      ),
+    ];
+  }
+
+  return { name, params, value: line.slice(colon + 1) };
+}
+
+// SPLIT OUTSIDE QUOTES: Splits on a separator, ignoring separators in "quotes"
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === separator && !inQuotes) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+// SPLIT STRUCTURED: Splits "Florence;Ryan;;;" on ";" (but not on "\;")
+// and unescapes each part
+function splitStructured(value: string): string[] {
+  return value
+    .split(/(?<!\\);/)
+    .map((part) => unescapeText(part).trim());
+}
+
+// UNESCAPE TEXT: vCard escapes newlines, commas and semicolons with "\"
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\,;nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char,
+  );
+}
+
+// TO LABEL: Maps vCard TYPEs ("cell", "work", "voice"...) to our labels
+function toLabel(types: string[] = []): ContactLabel {
+  if (types.includes("cell") || types.includes("mobile")) return "mobile";
+  if (types.includes("work")) return "work";
+  if (types.includes("home")) return "home";
+  return "other";
+}
+
+// VCARD DATE: "19850412", "1985-04-12" or "1985-04-12T00:00:00Z" → "1985-04-12"
+// (null for anything else, including dates without a year)
+function vCardDate(value: string): string | null {
+  const match = /^(\d{4})-?(\d{2})-?(\d{2})(?:T|$)/.exec(value.trim());
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+// TWITTER HANDLE: "https://twitter.com/ryanflorence" → "@ryanflorence"
+// Plain values like "@jack" or "jack" only count when we know it's Twitter
+function twitterHandle(value: string, isTwitter: boolean): string | null {
+  const fromUrl = value.match(
+    /^(?:https?:\/\/)?(?:www\.)?(?:twitter|x)\.com\/@?([A-Za-z0-9_]{1,15})\/?$/i,
+  );
+  if (fromUrl) return `@${fromUrl[1]}`;
+
+  const plain = value.trim().match(/^@?([A-Za-z0-9_]{1,15})$/);
+  if (isTwitter && plain) return `@${plain[1]}`;
+
+  return null;
+}
+
+// ============================================================================
+// HOW VCARD.TS CONNECTS TO OTHER FILES:
+// ============================================================================
+// 1. import-vcard.tsx reads the uploaded .vcf file and calls parseVCards()
+// 2. Each vCard is checked with the same rules as the edit form (contact-schema.ts)
+// 3. The preview shows the parsed contacts and any errors
+// 4. Confirmed contacts are saved with createContact() from data.ts
+// 5. export.ts calls toVCard() for the vCard download routes
+// 6. icalendar.ts folds its long lines with foldLine()